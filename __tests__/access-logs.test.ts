@@ -0,0 +1,157 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { appendFileSync, mkdtempSync, readFileSync, renameSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { gzipSync } from "zlib";
+import { parseCaddyLogLine, createHostResolver, readNewLines, timeBuckets, bucketCount } from "../server/access-logs";
+
+const FIXTURE = readFileSync(join(import.meta.dir, "fixtures", "caddy-access.log"), "utf-8");
+const fixtureLines = FIXTURE.split("\n").filter(Boolean);
+
+describe("parseCaddyLogLine", () => {
+  test("extracts request fields from Caddy's JSON format", () => {
+    expect(parseCaddyLogLine(fixtureLines[0])).toEqual({
+      host: "docs.498as.com",
+      ip: "203.0.113.7",
+      path: "/guide/index.html",
+      status: 200,
+      bytes: 5120,
+      referrer: "https://example.com/",
+      user_agent: "Mozilla/5.0",
+      timestamp: "2024-01-31 12:00:00",
+    });
+  });
+
+  test("normalizes hosts, header case and older remote_addr fields", () => {
+    const ipv6 = parseCaddyLogLine(fixtureLines[1])!;
+    expect(ipv6.host).toBe("docs.498as.com");
+    expect(ipv6.ip).toBe("2001:db8::1");
+    expect(ipv6.user_agent).toBe("curl/8.0");
+    expect(ipv6.referrer).toBeNull();
+
+    expect(parseCaddyLogLine(fixtureLines[2])!.ip).toBe("198.51.100.2");
+  });
+
+  test("skips other loggers and garbage", () => {
+    expect(parseCaddyLogLine(fixtureLines[5])).toBeNull();
+    expect(parseCaddyLogLine(fixtureLines[6])).toBeNull();
+    expect(parseCaddyLogLine("")).toBeNull();
+  });
+});
+
+describe("createHostResolver", () => {
+  test("maps subdomains, aliases and custom domains to sites", () => {
+    const resolve = createHostResolver("498as.com", [
+      { kind: "site", host: "docs", site_id: 1 },
+      { kind: "alias", host: "pr-42--docs", site_id: 1 },
+      { kind: "domain", host: "docs.client.com", site_id: 1 },
+      { kind: "site", host: "blog", site_id: 2 },
+    ]);
+
+    const sites = fixtureLines.map(parseCaddyLogLine).filter(e => e !== null).map(e => resolve(e!.host));
+    expect(sites).toEqual([1, 1, 1, 1, null]);
+    expect(resolve("blog.498as.com")).toBe(2);
+    expect(resolve("docs")).toBeNull();
+  });
+});
+
+describe("readNewLines", () => {
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "sf-logs-"));
+    logPath = join(dir, "sites.log");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("reads only lines appended since the last offset", () => {
+    writeFileSync(logPath, "a\nb\n");
+    const first = readNewLines(logPath, null);
+    expect(first.lines).toEqual(["a", "b"]);
+
+    appendFileSync(logPath, "c\n");
+    const second = readNewLines(logPath, first.offset);
+    expect(second.lines).toEqual(["c"]);
+    expect(readNewLines(logPath, second.offset).lines).toEqual([]);
+  });
+
+  test("leaves a partial last line for the next run", () => {
+    writeFileSync(logPath, "a\n{\"half");
+    const first = readNewLines(logPath, null);
+    expect(first.lines).toEqual(["a"]);
+
+    appendFileSync(logPath, "\"}\n");
+    expect(readNewLines(logPath, first.offset).lines).toEqual(["{\"half\"}"]);
+  });
+
+  test("finishes a rotated file before reading the new one", () => {
+    writeFileSync(logPath, "a\n");
+    const first = readNewLines(logPath, null);
+
+    appendFileSync(logPath, "b\n");
+    renameSync(logPath, join(dir, "sites-2024-01-31T12-00-00.000.log"));
+    writeFileSync(logPath, "c\n");
+
+    const second = readNewLines(logPath, first.offset);
+    expect(second.lines).toEqual(["b", "c"]);
+    expect(readNewLines(logPath, second.offset).lines).toEqual([]);
+  });
+
+  test("reads the rest of a rotated file that was already gzipped", () => {
+    writeFileSync(logPath, "a\n");
+    const first = readNewLines(logPath, null);
+
+    writeFileSync(join(dir, "sites-2024-01-30T12-00-00.000.log.gz"), gzipSync("old\n"));
+    writeFileSync(join(dir, "sites-2024-01-31T12-00-00.000.log.gz"), gzipSync("a\nb\n"));
+    // The new log exists before the old one is removed, as with lumberjack
+    writeFileSync(join(dir, "new.log"), "c\n");
+    renameSync(join(dir, "new.log"), logPath);
+
+    expect(readNewLines(logPath, first.offset).lines).toEqual(["b", "c"]);
+  });
+
+  test("starts over when the file was truncated in place", () => {
+    writeFileSync(logPath, "a\nb\n");
+    const first = readNewLines(logPath, null);
+
+    writeFileSync(logPath, "c\n");
+    expect(readNewLines(logPath, first.offset).lines).toEqual(["c"]);
+  });
+
+  test("keeps the offset while the log doesn't exist", () => {
+    expect(readNewLines(logPath, { inode: 5, offset: 10 })).toEqual({ lines: [], offset: { inode: 5, offset: 10 } });
+  });
+});
+
+describe("timeBuckets", () => {
+  test("lists every bucket touching the range", () => {
+    const from = new Date("2024-01-31T10:30:00Z");
+    const to = new Date("2024-01-31T13:00:00Z");
+    expect(timeBuckets(from, to, "hour")).toEqual([
+      "2024-01-31 10:00:00",
+      "2024-01-31 11:00:00",
+      "2024-01-31 12:00:00",
+      "2024-01-31 13:00:00",
+    ]);
+    expect(timeBuckets(from, to, "day")).toEqual(["2024-01-31 00:00:00"]);
+  });
+});
+
+describe("bucketCount", () => {
+  test("matches the number of buckets timeBuckets lists", () => {
+    const from = new Date("2024-01-31T10:30:00Z");
+    for (const to of ["2024-01-31T10:30:00Z", "2024-01-31T13:00:00Z", "2024-03-02T23:59:59Z"]) {
+      for (const interval of ["hour", "day"] as const) {
+        expect(bucketCount(from, new Date(to), interval)).toBe(timeBuckets(from, new Date(to), interval).length);
+      }
+    }
+  });
+
+  test("counts huge ranges without listing them", () => {
+    expect(bucketCount(new Date("1970-01-01T00:00:00Z"), new Date("2970-01-01T00:00:00Z"), "hour")).toBeGreaterThan(8e6);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, test, expect } from "bun:test";
+import { deflateRawSync, gzipSync } from "zlib";
+import { extractArchive, detectFormat, ArchiveError } from "../server/archive";
+import { createTar, createTarGz } from "../cli/archive";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const limits = { maxBytes: 10 * 1024 * 1024, maxEntries: 100 };
+
+interface ZipInput {
+  name: string;
+  data: Uint8Array;
+  deflate?: boolean;
+  declaredSize?: number;
+  mode?: number;
+}
+
+// Builds a zip archive with a central directory, enough for the extractor
+function buildZip(files: ZipInput[]): Uint8Array {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const body = file.deflate ? deflateRawSync(file.data) : file.data;
+    const size = file.declaredSize ?? file.data.length;
+
+    const local = new Uint8Array(30 + name.length + body.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, file.deflate ? 8 : 0, true);
+    lv.setUint32(18, body.length, true);
+    lv.setUint32(22, size, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(body, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, (3 << 8) | 20, true);
+    cv.setUint16(10, file.deflate ? 8 : 0, true);
+    cv.setUint32(20, body.length, true);
+    cv.setUint32(24, size, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(38, ((file.mode ?? 0o100644) << 16) >>> 0, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, eocd];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+function expectArchiveError(fn: () => unknown, status: number) {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).toBeInstanceOf(ArchiveError);
+    expect((e as ArchiveError).status).toBe(status);
+    return;
+  }
+  throw new Error("Expected ArchiveError");
+}
+
+describe("detectFormat", () => {
+  test("recognizes tar, tar.gz and zip", () => {
+    const tar = createTar([{ path: "a.txt", data: encoder.encode("a") }]);
+    expect(detectFormat(tar)).toBe("tar");
+    expect(detectFormat(gzipSync(tar))).toBe("tar.gz");
+    expect(detectFormat(buildZip([{ name: "a.txt", data: encoder.encode("a") }]))).toBe("zip");
+    expect(detectFormat(encoder.encode("hello world"))).toBeNull();
+  });
+});
+
+describe("extractArchive", () => {
+  test("round-trips tar.gz archives from the CLI writer", () => {
+    const longPath = `${"deep/".repeat(30)}file.txt`;
+    const archive = createTarGz([
+      { path: "index.html", data: encoder.encode("<h1>hi</h1>") },
+      { path: "css/style.css", data: encoder.encode("body{}") },
+      { path: longPath, data: encoder.encode("long") },
+    ]);
+
+    const entries = extractArchive(archive, limits);
+
+    expect(entries.map(e => e.path)).toEqual(["index.html", "css/style.css", longPath]);
+    expect(decoder.decode(entries[0].data)).toBe("<h1>hi</h1>");
+    expect(decoder.decode(entries[2].data)).toBe("long");
+  });
+
+  test("extracts stored and deflated zip entries and skips directories", () => {
+    const archive = buildZip([
+      { name: "assets/", data: new Uint8Array(0), mode: 0o040755 },
+      { name: "assets/a.txt", data: encoder.encode("stored") },
+      { name: "b.txt", data: encoder.encode("deflated ".repeat(50)), deflate: true },
+    ]);
+
+    const entries = extractArchive(archive, limits);
+
+    expect(entries.map(e => e.path)).toEqual(["assets/a.txt", "b.txt"]);
+    expect(decoder.decode(entries[1].data)).toBe("deflated ".repeat(50));
+  });
+
+  test("keeps traversal paths verbatim so safePath can reject them", () => {
+    const archive = createTar([{ path: "../evil.txt", data: encoder.encode("x") }]);
+    expect(extractArchive(archive, limits)[0].path).toBe("../evil.txt");
+  });
+
+  test("rejects symlinks in tar archives", () => {
+    const tar = createTar([{ path: "link", data: new Uint8Array(0) }]);
+    tar[156] = "2".charCodeAt(0);
+    expectArchiveError(() => extractArchive(tar, limits), 400);
+  });
+
+  test("rejects symlinks in zip archives", () => {
+    const archive = buildZip([{ name: "link", data: encoder.encode("/etc/passwd"), mode: 0o120777 }]);
+    expectArchiveError(() => extractArchive(archive, limits), 400);
+  });
+
+  test("rejects archives that expand beyond the size limit", () => {
+    const zeros = new Uint8Array(2 * 1024 * 1024);
+    const small = { maxBytes: 1024 * 1024, maxEntries: 100 };
+
+    expectArchiveError(() => extractArchive(createTarGz([{ path: "zeros", data: zeros }]), small), 413);
+    expectArchiveError(() => extractArchive(buildZip([{ name: "zeros", data: zeros, deflate: true }]), small), 413);
+  });
+
+  test("rejects zip entries that inflate past their declared size", () => {
+    const archive = buildZip([
+      { name: "bomb", data: new Uint8Array(1024 * 1024), deflate: true, declaredSize: 10 },
+    ]);
+    expectArchiveError(() => extractArchive(archive, limits), 413);
+  });
+
+  test("rejects archives with too many entries", () => {
+    const files = Array.from({ length: 5 }, (_, i) => ({ path: `${i}.txt`, data: encoder.encode("x") }));
+    expectArchiveError(() => extractArchive(createTar(files), { maxBytes: 1024, maxEntries: 4 }), 413);
+  });
+
+  test("rejects unknown formats", () => {
+    expectArchiveError(() => extractArchive(encoder.encode("not an archive"), limits), 400);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, test, expect } from "bun:test";
+import { Hono } from "hono";
+import {
+  parseScopes, parseSites, toAuthKey, hasScope, canAccessSite, createScopeGuard, generateApiKey, hashApiKey,
+  type AuthKey, type AuthVariables,
+} from "../server/middleware/auth";
+
+const ci: AuthKey = { id: 2, name: "ci", scopes: ["sites:read", "files:write"], sites: ["docs"] };
+const admin: AuthKey = { id: 1, name: "admin", scopes: ["admin"], sites: ["docs"] };
+const team: AuthKey = { id: 3, name: "team", scopes: ["sites:read", "sites:write"], sites: null };
+
+const sites = {
+  docs: { name: "docs", owner_key_id: 1 },
+  other: { name: "other", owner_key_id: 1 },
+  blog: { name: "blog", owner_key_id: 3 },
+};
+
+// App authenticated as the given key, with scoped routes
+function createApp(key: AuthKey) {
+  const requireScope = createScopeGuard(name => sites[name as keyof typeof sites] ?? null);
+  const app = new Hono<{ Variables: AuthVariables }>();
+  app.use("*", async (c, next) => {
+    c.set("apiKey", key);
+    await next();
+  });
+  app.post("/sites/:name/files", requireScope("files:write"), c => c.json({ ok: true }));
+  app.delete("/sites/:name", requireScope("sites:write"), c => c.json({ ok: true }));
+  return app;
+}
+
+describe("generateApiKey", () => {
+  test("creates unique prefixed keys with stable hashes", () => {
+    const key = generateApiKey();
+    expect(key).toMatch(/^sk_[\w-]{32}$/);
+    expect(generateApiKey()).not.toBe(key);
+    expect(hashApiKey(key)).toBe(hashApiKey(key));
+    expect(hashApiKey(key)).toHaveLength(64);
+  });
+});
+
+describe("parseScopes", () => {
+  test("accepts comma and space separated lists", () => {
+    expect(parseScopes("sites:read, files:write files:write")).toEqual(["sites:read", "files:write"]);
+  });
+
+  test("rejects unknown scopes", () => {
+    expect(() => parseScopes("sites:read files:delete")).toThrow("Unknown scope: files:delete");
+  });
+});
+
+describe("toAuthKey", () => {
+  test("parses the stored columns", () => {
+    const key = toAuthKey({ id: 1, name: "ci", scopes: "sites:read files:write", sites: "docs blog" });
+    expect(key.scopes).toEqual(["sites:read", "files:write"]);
+    expect(key.sites).toEqual(["docs", "blog"]);
+    expect(parseSites(null)).toBeNull();
+  });
+});
+
+describe("permissions", () => {
+  test("admin implies every scope and site", () => {
+    expect(hasScope(admin, "stats:read")).toBe(true);
+    expect(canAccessSite(admin, sites.blog)).toBe(true);
+  });
+
+  test("site allowlist grants exactly the listed sites", () => {
+    expect(canAccessSite(ci, sites.docs)).toBe(true);
+    expect(canAccessSite(ci, sites.other)).toBe(false);
+  });
+
+  test("keys without an allowlist only access their own sites", () => {
+    expect(canAccessSite(team, sites.blog)).toBe(true);
+    expect(canAccessSite(team, sites.docs)).toBe(false);
+    expect(canAccessSite(team, { name: "unowned", owner_key_id: null })).toBe(false);
+  });
+});
+
+describe("requireScope", () => {
+  test("allows granted scopes on allowed sites", async () => {
+    const res = await createApp(ci).request("/sites/docs/files", { method: "POST" });
+    expect(res.status).toBe(200);
+  });
+
+  test("names the missing scope", async () => {
+    const res = await createApp(ci).request("/sites/docs", { method: "DELETE" });
+    expect(res.status).toBe(403);
+    expect((await res.json()).error).toBe("Missing scope: sites:write");
+  });
+
+  test("rejects sites outside the allowlist", async () => {
+    const res = await createApp(ci).request("/sites/other/files", { method: "POST" });
+    expect(res.status).toBe(403);
+    expect((await res.json()).error).toContain("other");
+  });
+
+  test("rejects sites owned by another key", async () => {
+    const res = await createApp(team).request("/sites/docs", { method: "DELETE" });
+    expect(res.status).toBe(403);
+    expect((await createApp(team).request("/sites/blog", { method: "DELETE" })).status).toBe(200);
+  });
+
+  test("lets unknown sites through for the route to 404", async () => {
+    const res = await createApp(team).request("/sites/missing", { method: "DELETE" });
+    expect(res.status).toBe(200);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, test, expect } from "bun:test";
+import { renderBarChart, chartInterval, parseSince } from "../cli/commands";
+
+describe("renderBarChart", () => {
+  test("scales bars to the largest value", () => {
+    const lines = renderBarChart([
+      { label: "01-30", value: 10 },
+      { label: "01-31", value: 5 },
+      { label: "02-01", value: 0 },
+    ], 10);
+
+    expect(lines).toEqual([
+      "01-30  ██████████  10",
+      "01-31  █████       5",
+      "02-01              0",
+    ]);
+  });
+
+  test("shows a sliver for tiny non-zero values", () => {
+    const [, small] = renderBarChart([{ label: "a", value: 1000 }, { label: "b", value: 1 }], 10);
+    expect(small).toBe("b  ▏           1");
+  });
+});
+
+describe("chartInterval", () => {
+  const now = Date.parse("2024-02-10T12:00:00Z");
+
+  test("uses hours for up to two days, days beyond", () => {
+    expect(chartInterval(parseSince("48h", now), now)).toBe("hour");
+    expect(chartInterval(parseSince("3d", now), now)).toBe("day");
+  });
+
+  test("works from a date as well as a duration", () => {
+    expect(chartInterval(parseSince("2024-01-31", now), now)).toBe("day");
+    expect(chartInterval(parseSince("2024-02-10T00:00:00Z", now), now)).toBe("hour");
+  });
+});
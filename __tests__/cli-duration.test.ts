@@ -0,0 +1,47 @@
+import { describe, test, expect } from "bun:test";
+import { parseDuration, parseSince, parseSize } from "../cli/commands";
+
+describe("parseDuration", () => {
+  test("converts units to seconds", () => {
+    expect(parseDuration("90s")).toBe(90);
+    expect(parseDuration("30m")).toBe(1800);
+    expect(parseDuration("24h")).toBe(86400);
+    expect(parseDuration("7d")).toBe(604800);
+    expect(parseDuration("2w")).toBe(1209600);
+  });
+
+  test("rejects invalid durations", () => {
+    expect(() => parseDuration("24")).toThrow("Invalid duration");
+    expect(() => parseDuration("0h")).toThrow("Invalid duration");
+    expect(() => parseDuration("1y")).toThrow("Invalid duration");
+  });
+});
+
+describe("parseSince", () => {
+  const now = Date.parse("2024-01-31T12:00:00Z");
+
+  test("converts durations to a time in the past", () => {
+    expect(parseSince("24h", now)).toBe("2024-01-30T12:00:00.000Z");
+    expect(parseSince("7d", now)).toBe("2024-01-24T12:00:00.000Z");
+  });
+
+  test("accepts dates and rejects garbage", () => {
+    expect(parseSince("2024-01-01T00:00:00Z", now)).toBe("2024-01-01T00:00:00.000Z");
+    expect(() => parseSince("yesterday", now)).toThrow("Invalid --since");
+  });
+});
+
+describe("parseSize", () => {
+  test("accepts binary units with or without B", () => {
+    expect(parseSize("500MB")).toBe(500 * 1024 * 1024);
+    expect(parseSize("1.5G")).toBe(1.5 * 1024 ** 3);
+    expect(parseSize("64kb")).toBe(65536);
+    expect(parseSize("2 GiB")).toBe(2 * 1024 ** 3);
+    expect(parseSize("2048")).toBe(2048);
+  });
+
+  test("rejects zero and unknown units", () => {
+    expect(() => parseSize("0MB")).toThrow("Invalid size");
+    expect(() => parseSize("5 parsecs")).toThrow("Invalid size");
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, test, expect } from "bun:test";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { api, createSite, uploadFile, db, reapers, SITES_ROOT } from "./helpers/api";
+
+const deploymentPath = (site: string, id: number) => join(SITES_ROOT, ".deployments", site, String(id));
+
+describe("atomic uploads", () => {
+  test("replace files copied from the live content when overwriting", async () => {
+    await createSite("atomic");
+    expect((await uploadFile("atomic", "index.html", "v1")).status).toBe(201);
+
+    const { data: deployment } = await api("POST", "/sites/atomic/deployments", { copy_current: true });
+    const id = String(deployment.id);
+
+    expect((await uploadFile("atomic", "index.html", "v2", { deployment: id })).status).toBe(409);
+    expect((await uploadFile("atomic", "index.html", "v2", { deployment: id, overwrite: "true" })).status).toBe(201);
+    expect((await api("POST", `/sites/atomic/deployments/${id}/finalize`)).status).toBe(200);
+
+    expect(readFileSync(join(SITES_ROOT, "atomic", "index.html"), "utf-8")).toBe("v2");
+  });
+});
+
+describe("abandoned staging deployments", () => {
+  const age = (id: number) => db.db.run(`UPDATE deployments SET created_at = datetime('now', '-2 days') WHERE id = ?`, [id]);
+
+  test("are removed once older than the upload expiry", async () => {
+    await createSite("stale");
+    const { data: fresh } = await api("POST", "/sites/stale/deployments", {});
+    const { data: stale } = await api("POST", "/sites/stale/deployments", {});
+    age(stale.id);
+
+    reapers.reapStaleDeployments(24);
+
+    const { data: list } = await api("GET", "/sites/stale/deployments");
+    expect(list.map((d: any) => d.id)).toEqual([fresh.id]);
+    expect(existsSync(deploymentPath("stale", stale.id))).toBe(false);
+    expect(existsSync(deploymentPath("stale", fresh.id))).toBe(true);
+  });
+
+  test("are kept while a resumable upload into them is active", async () => {
+    await createSite("resuming");
+    const { data: deployment } = await api("POST", "/sites/resuming/deployments", {});
+    const upload = await api("POST", `/sites/resuming/uploads?deployment=${deployment.id}`, { path: "big.bin", size: 10 });
+    expect(upload.status).toBe(201);
+    age(deployment.id);
+
+    reapers.reapStaleDeployments(24);
+
+    expect(existsSync(deploymentPath("resuming", deployment.id))).toBe(true);
+  });
+});
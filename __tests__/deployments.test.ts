@@ -0,0 +1,99 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, lstatSync, existsSync, rmSync, readdirSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getDeploymentsDir,
+  getDeploymentPath,
+  hasLegacyContent,
+  adoptLegacyContent,
+  activateDeployment,
+  removeAllDeployments,
+} from "../server/deployments";
+
+describe("deployments", () => {
+  let root: string;
+  let sitePath: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "sf-deployments-"));
+    sitePath = join(root, "docs");
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function makeDeployment(id: number, content: string): string {
+    const dir = getDeploymentPath(sitePath, id);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, "index.html"), content);
+    return dir;
+  }
+
+  test("stores deployments in a dot directory next to the site", () => {
+    expect(getDeploymentsDir(sitePath)).toBe(join(root, ".deployments", "docs"));
+    expect(getDeploymentPath(sitePath, 7)).toBe(join(root, ".deployments", "docs", "7"));
+  });
+
+  test("detects legacy content only in non-empty regular directories", () => {
+    expect(hasLegacyContent(sitePath)).toBe(false);
+
+    mkdirSync(sitePath);
+    expect(hasLegacyContent(sitePath)).toBe(false);
+
+    writeFileSync(join(sitePath, "index.html"), "legacy");
+    expect(hasLegacyContent(sitePath)).toBe(true);
+  });
+
+  test("activates a deployment over an empty site directory", () => {
+    mkdirSync(sitePath);
+    makeDeployment(1, "v1");
+
+    activateDeployment(sitePath, getDeploymentPath(sitePath, 1));
+
+    expect(lstatSync(sitePath).isSymbolicLink()).toBe(true);
+    expect(readFileSync(join(sitePath, "index.html"), "utf8")).toBe("v1");
+  });
+
+  test("swaps between deployments without leaving temp links behind", () => {
+    makeDeployment(1, "v1");
+    makeDeployment(2, "v2");
+
+    activateDeployment(sitePath, getDeploymentPath(sitePath, 1));
+    activateDeployment(sitePath, getDeploymentPath(sitePath, 2));
+    expect(readFileSync(join(sitePath, "index.html"), "utf8")).toBe("v2");
+
+    activateDeployment(sitePath, getDeploymentPath(sitePath, 1));
+    expect(readFileSync(join(sitePath, "index.html"), "utf8")).toBe("v1");
+
+    expect(readdirSync(root).sort()).toEqual([".deployments", "docs"]);
+  });
+
+  test("refuses to replace legacy content that was not adopted", () => {
+    mkdirSync(sitePath);
+    writeFileSync(join(sitePath, "index.html"), "legacy");
+    makeDeployment(1, "v1");
+
+    expect(() => activateDeployment(sitePath, getDeploymentPath(sitePath, 1))).toThrow();
+    expect(readFileSync(join(sitePath, "index.html"), "utf8")).toBe("legacy");
+  });
+
+  test("adopts legacy content as a deployment", () => {
+    mkdirSync(sitePath);
+    writeFileSync(join(sitePath, "index.html"), "legacy");
+
+    const target = getDeploymentPath(sitePath, 1);
+    adoptLegacyContent(sitePath, target);
+    activateDeployment(sitePath, target);
+
+    expect(lstatSync(sitePath).isSymbolicLink()).toBe(true);
+    expect(readFileSync(join(sitePath, "index.html"), "utf8")).toBe("legacy");
+  });
+
+  test("removes all deployments of a site", () => {
+    makeDeployment(1, "v1");
+    removeAllDeployments(sitePath);
+    expect(existsSync(getDeploymentsDir(sitePath))).toBe(false);
+  });
+});
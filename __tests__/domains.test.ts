@@ -0,0 +1,39 @@
+import { describe, test, expect } from "bun:test";
+import { verifyDomain, getVerificationInstructions, type VerifyDeps } from "../server/domains";
+
+const token = "abc123";
+
+function deps(txt: Record<string, string[][]>, http: Record<string, string>): VerifyDeps {
+  return {
+    resolveTxt: async (hostname) => {
+      if (!txt[hostname]) throw Object.assign(new Error("not found"), { code: "ENOTFOUND" });
+      return txt[hostname];
+    },
+    fetch: async (url) => {
+      if (!(url in http)) throw new Error("connection refused");
+      return new Response(http[url]);
+    },
+  };
+}
+
+describe("verifyDomain", () => {
+  test("accepts a matching TXT record, also when split into chunks", async () => {
+    const split = deps({ "_sf-verify.docs.client.com": [["other"], ["sf-verify=", "abc123"]] }, {});
+    expect(await verifyDomain("docs.client.com", token, split)).toEqual({ verified: true, method: "txt" });
+  });
+
+  test("falls back to the well-known file", async () => {
+    const { http_url } = getVerificationInstructions("docs.client.com", token);
+    const result = await verifyDomain("docs.client.com", token, deps({}, { [http_url]: "abc123\n" }));
+
+    expect(result).toEqual({ verified: true, method: "http" });
+  });
+
+  test("rejects wrong or missing tokens", async () => {
+    const { http_url } = getVerificationInstructions("docs.client.com", token);
+    const wrong = deps({ "_sf-verify.docs.client.com": [["sf-verify=nope"]] }, { [http_url]: "nope" });
+
+    expect((await verifyDomain("docs.client.com", token, wrong)).verified).toBe(false);
+    expect((await verifyDomain("docs.client.com", token, deps({}, {}))).verified).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { createHash } from "crypto";
+import { mkdtempSync, writeFileSync, rmSync, utimesSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { hashFile } from "../server/utils/file-hash";
+
+function sha256(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+describe("hashFile", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "sf-hash-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("returns the SHA-256 hex digest", () => {
+    const path = join(dir, "index.html");
+    writeFileSync(path, "<h1>hello</h1>");
+
+    expect(hashFile(path)).toBe(sha256("<h1>hello</h1>"));
+  });
+
+  test("recomputes when the file changes", () => {
+    const path = join(dir, "data.txt");
+    writeFileSync(path, "one");
+    expect(hashFile(path)).toBe(sha256("one"));
+
+    writeFileSync(path, "three");
+    expect(hashFile(path)).toBe(sha256("three"));
+  });
+
+  test("recomputes when only the mtime changes", () => {
+    const path = join(dir, "same-size.txt");
+    writeFileSync(path, "aaa");
+    utimesSync(path, new Date(1000), new Date(1000));
+    expect(hashFile(path)).toBe(sha256("aaa"));
+
+    writeFileSync(path, "bbb");
+    utimesSync(path, new Date(2000), new Date(2000));
+    expect(hashFile(path)).toBe(sha256("bbb"));
+  });
+
+  test("throws for missing files", () => {
+    expect(() => hashFile(join(dir, "missing.txt"))).toThrow();
+  });
+});
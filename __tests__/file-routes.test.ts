@@ -0,0 +1,130 @@
+import { describe, test, expect } from "bun:test";
+import { createHash } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { api, createSite, uploadFile, db, SITES_ROOT } from "./helpers/api";
+
+const sha256 = (content: string) => createHash("sha256").update(content).digest("hex");
+const sitePath = (site: string, path: string) => join(SITES_ROOT, site, path);
+const usedBytes = (site: string) => db.getSite.get(site).used_bytes;
+
+async function createTree(site: string) {
+  await createSite(site);
+  await uploadFile(site, "dir/a.txt", "aaaa");
+  await uploadFile(site, "dir/sub/b.txt", "bb");
+}
+
+describe("file listing and sync", () => {
+  test("lists files with their hashes", async () => {
+    await createSite("listing");
+    await uploadFile("listing", "docs/a.txt", "a");
+
+    const { status, data } = await api("GET", "/sites/listing/files");
+
+    expect(status).toBe(200);
+    expect(data).toHaveLength(1);
+    expect(data[0]).toMatchObject({ name: "a.txt", path: "docs/a.txt", size: 1 });
+    expect(data[0].sha256).toBe(sha256("a"));
+  });
+
+  test("sync compares hashes of files with the same size", async () => {
+    await createSite("syncing");
+    await uploadFile("syncing", "same.txt", "same");
+    await uploadFile("syncing", "edited.txt", "old!");
+    await uploadFile("syncing", "gone.txt", "gone");
+
+    const { status, data } = await api("POST", "/sites/syncing/sync", {
+      files: [
+        { path: "same.txt", size: 4, sha256: sha256("same") },
+        { path: "edited.txt", size: 4, sha256: sha256("new!") },
+        { path: "new.txt", size: 3, sha256: sha256("new") },
+      ],
+    });
+
+    expect(status).toBe(200);
+    expect(data).toMatchObject({ missing: ["new.txt"], changed: ["edited.txt"], deleted: ["gone.txt"], unchanged: 1 });
+  });
+});
+
+describe("POST /sites/{name}/files/move", () => {
+  test("moves a directory", async () => {
+    await createTree("move-dir");
+
+    const res = await api("POST", "/sites/move-dir/files/move", { from: "dir/sub", to: "moved" });
+
+    expect(res.status).toBe(200);
+    expect(res.data).toMatchObject({ from: "dir/sub", to: "moved", files: 1, size: 2 });
+    expect(readFileSync(sitePath("move-dir", "moved/b.txt"), "utf-8")).toBe("bb");
+    expect(existsSync(sitePath("move-dir", "dir/sub"))).toBe(false);
+    expect(usedBytes("move-dir")).toBe(6);
+  });
+
+  test("needs overwrite to replace the destination", async () => {
+    await createTree("move-over");
+    await uploadFile("move-over", "other.txt", "o");
+
+    expect((await api("POST", "/sites/move-over/files/move", { from: "other.txt", to: "dir/a.txt" })).status).toBe(409);
+
+    const res = await api("POST", "/sites/move-over/files/move", { from: "other.txt", to: "dir/a.txt", overwrite: true });
+    expect(res.status).toBe(200);
+    expect(readFileSync(sitePath("move-over", "dir/a.txt"), "utf-8")).toBe("o");
+    expect(usedBytes("move-over")).toBe(3);
+  });
+
+  test("refuses to move into the source or onto a directory containing it", async () => {
+    await createTree("move-nested");
+
+    const into = await api("POST", "/sites/move-nested/files/move", { from: "dir", to: "dir/sub/dir" });
+    const onto = await api("POST", "/sites/move-nested/files/move", { from: "dir/sub", to: "dir", overwrite: true });
+
+    expect(into.status).toBe(400);
+    expect(onto.status).toBe(400);
+    expect(onto.data.error).toBe("Destination contains the source");
+    expect(readFileSync(sitePath("move-nested", "dir/sub/b.txt"), "utf-8")).toBe("bb");
+    expect(usedBytes("move-nested")).toBe(6);
+  });
+});
+
+describe("POST /sites/{name}/files/copy", () => {
+  test("copies a directory and counts it against the quota", async () => {
+    await createTree("copy-dir");
+
+    const res = await api("POST", "/sites/copy-dir/files/copy", { from: "dir", to: "copy" });
+
+    expect(res.status).toBe(201);
+    expect(res.data).toMatchObject({ files: 2, size: 6 });
+    expect(readFileSync(sitePath("copy-dir", "copy/sub/b.txt"), "utf-8")).toBe("bb");
+    expect(readFileSync(sitePath("copy-dir", "dir/sub/b.txt"), "utf-8")).toBe("bb");
+    expect(usedBytes("copy-dir")).toBe(12);
+  });
+
+  test("refuses to copy onto a directory containing the source", async () => {
+    await createTree("copy-nested");
+
+    const res = await api("POST", "/sites/copy-nested/files/copy", { from: "dir/sub/b.txt", to: "dir", overwrite: true });
+
+    expect(res.status).toBe(400);
+    expect(readFileSync(sitePath("copy-nested", "dir/a.txt"), "utf-8")).toBe("aaaa");
+  });
+});
+
+describe("DELETE /sites/{name}/files/{path}", () => {
+  test("deletes directories only with recursive", async () => {
+    await createTree("rm-dir");
+
+    expect((await api("DELETE", "/sites/rm-dir/files/dir")).status).toBe(400);
+    expect(existsSync(sitePath("rm-dir", "dir"))).toBe(true);
+
+    expect((await api("DELETE", "/sites/rm-dir/files/dir?recursive=true")).status).toBe(200);
+    expect(existsSync(sitePath("rm-dir", "dir"))).toBe(false);
+    expect(usedBytes("rm-dir")).toBe(0);
+  });
+
+  test("deletes nested files", async () => {
+    await createTree("rm-file");
+
+    expect((await api("DELETE", `/sites/rm-file/files/${encodeURIComponent("dir/sub/b.txt")}`)).status).toBe(200);
+    expect((await api("DELETE", `/sites/rm-file/files/${encodeURIComponent("dir/sub/b.txt")}`)).status).toBe(404);
+    expect(usedBytes("rm-file")).toBe(4);
+  });
+});
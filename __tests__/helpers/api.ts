@@ -0,0 +1,101 @@
+/**
+ * Runs the API in-process against a throwaway database and sites directory,
+ * for tests that go through the HTTP routes. Caddy syncs write to the temp
+ * directory and fail to reload, which the server tolerates.
+ */
+
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+export const TEST_DIR = mkdtempSync(join(tmpdir(), "sf-api-test-"));
+export const SITES_ROOT = join(TEST_DIR, "sites");
+
+Object.assign(process.env, {
+  SF_DB_PATH: join(TEST_DIR, "static-files.db"),
+  SF_SITES_ROOT: SITES_ROOT,
+  SF_CADDY_SNIPPET: join(TEST_DIR, "static-files.caddy"),
+  SF_CADDY_CONFIG: join(TEST_DIR, "Caddyfile"),
+  SF_ACCESS_LOG: join(TEST_DIR, "access.log"),
+  CADDY_ADMIN_URL: "http://127.0.0.1:9",
+  SF_RATE_LIMIT_MAX: "1000000",
+  SF_MAX_ARCHIVE_MB: "1",
+  SF_MAX_CHUNK_MB: "1",
+});
+
+export const db = await import("../../server/db");
+export const reapers = await import("../../server/reapers");
+const server = (await import("../../server/index")).default;
+const { generateApiKey, hashApiKey } = await import("../../server/middleware");
+
+/**
+ * Create an API key and return its secret.
+ */
+export function createKey(scopes = "admin", sites: string | null = null): string {
+  const key = generateApiKey();
+  db.insertApiKey.get(hashApiKey(key), `test-${scopes}`, scopes, sites, null);
+  return key;
+}
+
+export const ADMIN_KEY = createKey();
+
+/**
+ * Send a request to the API. Objects are sent as JSON; anything else
+ * (strings, streams, FormData) as is.
+ */
+export async function api(method: string, path: string, body?: unknown, key = ADMIN_KEY, headers: Record<string, string> = {}) {
+  const json = body !== undefined && body !== null && typeof body === "object"
+    && !(body instanceof FormData) && !(body instanceof ReadableStream) && !ArrayBuffer.isView(body);
+  const res = await server.fetch(new Request(`http://localhost${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${key}`,
+      ...(json ? { "Content-Type": "application/json" } : {}),
+      ...headers,
+    },
+    body: json ? JSON.stringify(body) : (body as BodyInit | undefined),
+  }));
+  const text = await res.text();
+  let data: any = text;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // Not JSON
+  }
+  return { status: res.status, data, headers: res.headers };
+}
+
+/**
+ * A request body that never ends and declares no length, like a chunked
+ * upload from a misbehaving client.
+ */
+export function endlessBody(): ReadableStream<Uint8Array> {
+  const chunk = new Uint8Array(64 * 1024);
+  return new ReadableStream({
+    pull(controller) {
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+/**
+ * Create a site, failing the test if the API refuses.
+ */
+export async function createSite(name: string, body: Record<string, unknown> = {}) {
+  const res = await api("POST", "/sites", { name, ...body });
+  if (res.status !== 201) throw new Error(`Creating ${name} failed: ${res.status} ${JSON.stringify(res.data)}`);
+  return res.data;
+}
+
+/**
+ * Upload a file through the multipart endpoint. `query` takes the endpoint's
+ * other options, e.g. { deployment: "3", overwrite: "true" }.
+ */
+export async function uploadFile(site: string, path: string, content: string, query: Record<string, string> = {}) {
+  const slash = path.lastIndexOf("/");
+  const form = new FormData();
+  form.append("file", new File([content], path.slice(slash + 1)));
+  const params = new URLSearchParams(query);
+  if (slash > 0) params.set("path", path.slice(0, slash));
+  return api("POST", `/sites/${site}/files?${params}`, form);
+}
@@ -0,0 +1,32 @@
+import { describe, test, expect } from "bun:test";
+import { parseRange } from "../server/utils/http-range";
+
+describe("parseRange", () => {
+  test("parses closed and open-ended ranges", () => {
+    expect(parseRange("bytes=0-99", 1000)).toEqual({ start: 0, end: 99 });
+    expect(parseRange("bytes=500-", 1000)).toEqual({ start: 500, end: 999 });
+  });
+
+  test("parses suffix ranges", () => {
+    expect(parseRange("bytes=-100", 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseRange("bytes=-5000", 1000)).toEqual({ start: 0, end: 999 });
+  });
+
+  test("clamps the end to the file size", () => {
+    expect(parseRange("bytes=900-5000", 1000)).toEqual({ start: 900, end: 999 });
+  });
+
+  test("ignores missing, malformed and multi-range headers", () => {
+    expect(parseRange(undefined, 1000)).toBeNull();
+    expect(parseRange("bytes=-", 1000)).toBeNull();
+    expect(parseRange("items=0-10", 1000)).toBeNull();
+    expect(parseRange("bytes=0-10,20-30", 1000)).toBeNull();
+    expect(parseRange("bytes=50-10", 1000)).toBeNull();
+  });
+
+  test("reports ranges past the end as unsatisfiable", () => {
+    expect(parseRange("bytes=1000-", 1000)).toBe("unsatisfiable");
+    expect(parseRange("bytes=0-", 0)).toBe("unsatisfiable");
+    expect(parseRange("bytes=-0", 1000)).toBe("unsatisfiable");
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, test, expect } from "bun:test";
+import { normalizeCidr, parseIpRules, splitIpRules } from "../server/ip-rules";
+
+describe("normalizeCidr", () => {
+  test("adds the prefix length to single addresses", () => {
+    expect(normalizeCidr("203.0.113.7")).toBe("203.0.113.7/32");
+    expect(normalizeCidr(" 2001:DB8::1 ")).toBe("2001:db8::1/128");
+  });
+
+  test("keeps valid ranges", () => {
+    expect(normalizeCidr("10.0.0.0/8")).toBe("10.0.0.0/8");
+    expect(normalizeCidr("2001:db8::/032")).toBe("2001:db8::/32");
+    expect(normalizeCidr("0.0.0.0/0")).toBe("0.0.0.0/0");
+  });
+
+  test("rejects anything else", () => {
+    expect(normalizeCidr("10.0.0.0/33")).toBeNull();
+    expect(normalizeCidr("2001:db8::/129")).toBeNull();
+    expect(normalizeCidr("10.0.0/8")).toBeNull();
+    expect(normalizeCidr("10.0.0.0/8/8")).toBeNull();
+    expect(normalizeCidr("10.0.0.0/x")).toBeNull();
+    expect(normalizeCidr("example.com")).toBeNull();
+    expect(normalizeCidr("")).toBeNull();
+  });
+});
+
+describe("parseIpRules", () => {
+  test("stores a deduplicated, space-separated list", () => {
+    expect(parseIpRules(["10.0.0.0/8", "203.0.113.7", "203.0.113.7/32"])).toBe("10.0.0.0/8 203.0.113.7/32");
+    expect(splitIpRules("10.0.0.0/8 203.0.113.7/32")).toEqual(["10.0.0.0/8", "203.0.113.7/32"]);
+  });
+
+  test("stores empty lists as null", () => {
+    expect(parseIpRules([])).toBeNull();
+    expect(parseIpRules(null)).toBeNull();
+    expect(splitIpRules(null)).toEqual([]);
+  });
+
+  test("names the invalid entry", () => {
+    expect(() => parseIpRules(["10.0.0.0/8", "office"])).toThrow("Invalid IP address or CIDR range: office");
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, test, expect } from "bun:test";
+import { api, db } from "./helpers/api";
+
+describe("POST /keys", () => {
+  test("sets expires_at from expires_in, at most ten years ahead", async () => {
+    const created = await api("POST", "/keys", { name: "expiring", scopes: ["sites:read"], expires_in: 3600 });
+    expect(created.status).toBe(201);
+    expect(created.data.expires_at).not.toBeNull();
+
+    for (const expires_in of [1e12, 11 * 365 * 86400]) {
+      const res = await api("POST", "/keys", { name: "expiry-bad", scopes: ["sites:read"], expires_in });
+      expect(res.status).toBe(400);
+    }
+    expect(db.db.query(`SELECT id FROM api_keys WHERE name = 'expiry-bad'`).all()).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, test, expect } from "bun:test";
+import { counter, histogram, gauge, renderMetrics } from "../server/metrics";
+
+describe("metrics", () => {
+  test("renders counters per label set", () => {
+    const requests = counter("test_requests_total", "Test requests");
+    requests.inc({ route: "/a" });
+    requests.inc({ route: "/a" }, 2);
+    requests.inc({ route: 'say "hi"' });
+
+    const text = renderMetrics();
+    expect(text).toContain("# HELP test_requests_total Test requests\n# TYPE test_requests_total counter\n");
+    expect(text).toContain('test_requests_total{route="/a"} 3\n');
+    expect(text).toContain('test_requests_total{route="say \\"hi\\""} 1\n');
+  });
+
+  test("renders cumulative histogram buckets", () => {
+    const latency = histogram("test_latency_seconds", "Test latency", [0.1, 1]);
+    latency.observe({}, 0.05);
+    latency.observe({}, 0.5);
+    latency.observe({}, 5);
+
+    const text = renderMetrics();
+    expect(text).toContain('test_latency_seconds_bucket{le="0.1"} 1\n');
+    expect(text).toContain('test_latency_seconds_bucket{le="1"} 2\n');
+    expect(text).toContain('test_latency_seconds_bucket{le="+Inf"} 3\n');
+    expect(text).toContain("test_latency_seconds_sum 5.55\n");
+    expect(text).toContain("test_latency_seconds_count 3\n");
+  });
+
+  test("collects gauges on render and skips failing ones", () => {
+    let used = 10;
+    gauge("test_used_bytes", "Test usage", () => [{ labels: { site: "docs" }, value: used }]);
+    gauge("test_broken", "Throws", () => {
+      throw new Error("db closed");
+    });
+
+    used = 20;
+    const text = renderMetrics();
+    expect(text).toContain('test_used_bytes{site="docs"} 20\n');
+    expect(text).not.toContain("test_broken");
+  });
+});
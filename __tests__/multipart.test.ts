@@ -0,0 +1,125 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { createHash } from "crypto";
+import { mkdtempSync, readFileSync, existsSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getBoundary, openMultipartFile } from "../server/utils/multipart";
+import { writeStreamToFile, StreamLimitError } from "../server/utils/stream-file";
+
+const encoder = new TextEncoder();
+const boundary = "----sftestboundary";
+
+function buildBody(parts: { name: string; filename?: string; data: string }[]): Uint8Array {
+  let body = "";
+  for (const part of parts) {
+    const filename = part.filename !== undefined ? `; filename="${part.filename}"` : "";
+    body += `--${boundary}\r\nContent-Disposition: form-data; name="${part.name}"${filename}\r\n\r\n${part.data}\r\n`;
+  }
+  return encoder.encode(`${body}--${boundary}--\r\n`);
+}
+
+// Feeds the body in fixed-size chunks to exercise boundaries split across reads
+function toStream(data: Uint8Array, chunkSize = data.length): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= data.length) return controller.close();
+      controller.enqueue(data.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+async function collect(stream: AsyncIterable<Uint8Array>): Promise<string> {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function* chunksOf(...chunks: string[]): AsyncGenerator<Uint8Array> {
+  for (const chunk of chunks) yield encoder.encode(chunk);
+}
+
+describe("getBoundary", () => {
+  test("reads plain and quoted boundaries", () => {
+    expect(getBoundary("multipart/form-data; boundary=abc123")).toBe("abc123");
+    expect(getBoundary('multipart/form-data; boundary="a b"; charset=utf-8')).toBe("a b");
+  });
+
+  test("rejects other content types", () => {
+    expect(getBoundary("application/json")).toBeNull();
+    expect(getBoundary(undefined)).toBeNull();
+  });
+});
+
+describe("openMultipartFile", () => {
+  test("streams the file content", async () => {
+    const body = buildBody([{ name: "file", filename: "index.html", data: "<h1>hello</h1>" }]);
+    const file = await openMultipartFile(toStream(body), boundary, "file");
+
+    expect(file?.filename).toBe("index.html");
+    expect(await collect(file!.stream)).toBe("<h1>hello</h1>");
+  });
+
+  test("handles delimiters split across chunks", async () => {
+    const content = `line\r\n--${boundary.slice(0, 5)} not a boundary\r\n`.repeat(20);
+    const body = buildBody([{ name: "file", filename: "a.txt", data: content }]);
+
+    for (const size of [1, 3, 7, 64]) {
+      const file = await openMultipartFile(toStream(body, size), boundary, "file");
+      expect(await collect(file!.stream)).toBe(content);
+    }
+  });
+
+  test("skips other fields", async () => {
+    const body = buildBody([
+      { name: "note", data: "ignored" },
+      { name: "other", filename: "x.txt", data: "also ignored" },
+      { name: "file", filename: "b.txt", data: "wanted" },
+    ]);
+    const file = await openMultipartFile(toStream(body, 5), boundary, "file");
+
+    expect(file?.filename).toBe("b.txt");
+    expect(await collect(file!.stream)).toBe("wanted");
+  });
+
+  test("returns null when the field is missing", async () => {
+    const body = buildBody([{ name: "note", data: "no file here" }]);
+    expect(await openMultipartFile(toStream(body), boundary, "file")).toBeNull();
+  });
+
+  test("fails on a truncated body", async () => {
+    const body = encoder.encode(`--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="a"\r\n\r\npartial`);
+    const file = await openMultipartFile(toStream(body), boundary, "file");
+
+    await expect(collect(file!.stream)).rejects.toThrow("Unexpected end");
+  });
+});
+
+describe("writeStreamToFile", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "sf-stream-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("writes the stream and returns size and hash", async () => {
+    const path = join(dir, "out");
+    const result = await writeStreamToFile(chunksOf("hello ", "world"), path, 100);
+
+    expect(result.size).toBe(11);
+    expect(result.sha256).toBe(createHash("sha256").update("hello world").digest("hex"));
+    expect(readFileSync(path, "utf8")).toBe("hello world");
+  });
+
+  test("aborts and removes the file past the limit", async () => {
+    const path = join(dir, "out");
+
+    await expect(writeStreamToFile(chunksOf("12345", "67890"), path, 8)).rejects.toBeInstanceOf(StreamLimitError);
+    expect(existsSync(path)).toBe(false);
+  });
+});
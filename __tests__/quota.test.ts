@@ -0,0 +1,108 @@
+import { describe, test, expect } from "bun:test";
+import {
+  parseThresholds, alertLevel, graceEndsAt, uploadLimit, quotaState, quotaWarnings, formatAlertEmail,
+  type QuotaUsage,
+} from "../server/quota";
+
+const MB = 1024 * 1024;
+const NO_GRACE = { percent: 0, seconds: 0 };
+const GRACE = { percent: 10, seconds: 3600 };
+
+function usage(used: number, overSince: string | null = null): QuotaUsage {
+  return { quota_bytes: 100 * MB, used_bytes: used, quota_warn_at: null, over_quota_since: overSince };
+}
+
+describe("parseThresholds", () => {
+  test("parses, dedupes and sorts percentages", () => {
+    expect(parseThresholds("95, 80 80%")).toEqual([80, 95]);
+    expect(parseThresholds("")).toEqual([]);
+  });
+
+  test("rejects values outside 1-99", () => {
+    expect(() => parseThresholds("0")).toThrow("Invalid quota threshold: 0");
+    expect(() => parseThresholds("100")).toThrow();
+    expect(() => parseThresholds("eighty")).toThrow();
+    expect(() => parseThresholds("12.5")).toThrow();
+  });
+});
+
+describe("alertLevel", () => {
+  test("returns the highest threshold crossed", () => {
+    expect(alertLevel(50 * MB, 100 * MB, [80, 95])).toBe(0);
+    expect(alertLevel(80 * MB, 100 * MB, [80, 95])).toBe(80);
+    expect(alertLevel(99 * MB, 100 * MB, [80, 95])).toBe(95);
+  });
+
+  test("returns 100 only when over the quota", () => {
+    expect(alertLevel(100 * MB, 100 * MB, [80, 95])).toBe(95);
+    expect(alertLevel(100 * MB + 1, 100 * MB, [])).toBe(100);
+  });
+});
+
+describe("grace period", () => {
+  const now = new Date("2026-03-01T12:30:00Z");
+
+  test("allows the margin before going over and during the grace period", () => {
+    expect(uploadLimit(usage(90 * MB), GRACE, now)).toBe(110 * MB);
+    expect(uploadLimit(usage(105 * MB, "2026-03-01 12:00:00"), GRACE, now)).toBe(110 * MB);
+    expect(graceEndsAt(usage(105 * MB, "2026-03-01 12:00:00"), GRACE)).toEqual(new Date("2026-03-01T13:00:00Z"));
+  });
+
+  test("falls back to the quota once the grace period is over", () => {
+    expect(uploadLimit(usage(105 * MB, "2026-03-01 11:00:00"), GRACE, now)).toBe(100 * MB);
+  });
+
+  test("is disabled without a margin", () => {
+    expect(uploadLimit(usage(90 * MB), NO_GRACE, now)).toBe(100 * MB);
+    expect(graceEndsAt(usage(105 * MB, "2026-03-01 12:00:00"), NO_GRACE)).toBeNull();
+  });
+});
+
+describe("quotaState", () => {
+  const now = new Date("2026-03-01T12:30:00Z");
+
+  test("goes from ok to warning to grace to exceeded", () => {
+    expect(quotaState(usage(10 * MB), [80, 95], GRACE, now)).toBe("ok");
+    expect(quotaState(usage(85 * MB), [80, 95], GRACE, now)).toBe("warning");
+    expect(quotaState(usage(105 * MB, "2026-03-01 12:00:00"), [80, 95], GRACE, now)).toBe("grace");
+    expect(quotaState(usage(105 * MB, "2026-03-01 11:00:00"), [80, 95], GRACE, now)).toBe("exceeded");
+    expect(quotaState(usage(120 * MB, "2026-03-01 12:00:00"), [80, 95], GRACE, now)).toBe("exceeded");
+  });
+
+  test("is exceeded as soon as usage is over quota without grace", () => {
+    expect(quotaState(usage(101 * MB), [], NO_GRACE, now)).toBe("exceeded");
+  });
+});
+
+describe("quotaWarnings", () => {
+  const now = new Date("2026-03-01T12:30:00Z");
+
+  test("is empty below every threshold", () => {
+    expect(quotaWarnings(usage(10 * MB), [80], NO_GRACE, now)).toEqual([]);
+  });
+
+  test("reports the percentage used", () => {
+    expect(quotaWarnings(usage(85 * MB), [80, 95], NO_GRACE, now)).toEqual([
+      "Storage at 85% of quota (85.0 MB / 100.0 MB)",
+    ]);
+  });
+
+  test("explains the grace period", () => {
+    const [warning] = quotaWarnings(usage(105 * MB, "2026-03-01 12:00:00"), [80], GRACE, now);
+    expect(warning).toContain("Over quota (105.0 MB / 100.0 MB)");
+    expect(warning).toContain("up to 110.0 MB until 2026-03-01T13:00:00.000Z");
+  });
+});
+
+describe("formatAlertEmail", () => {
+  test("writes an mbox message", () => {
+    const email = formatAlertEmail({
+      site: "docs", threshold: 80, state: "warning", used_bytes: 85 * MB, quota_bytes: 100 * MB, grace_ends_at: null,
+    }, "ops@example.com", new Date("2026-03-01T12:00:00Z"));
+
+    expect(email.startsWith("From static-files Sun, 01 Mar 2026 12:00:00 GMT\n")).toBe(true);
+    expect(email).toContain("To: ops@example.com\n");
+    expect(email).toContain("Subject: Site docs is at 80% of its storage quota\n");
+    expect(email.endsWith("\n\n")).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, mkdirSync, writeFileSync, existsSync, rmSync, readdirSync, symlinkSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { scanSites, findOrphanDirs, moveOrphan, ORPHANS_DIR } from "../server/reconcile";
+import { activateDeployment, getDeploymentPath } from "../server/deployments";
+
+describe("reconcile", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "sf-reconcile-"));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function makeSite(name: string, content = ""): string {
+    const dir = join(root, name);
+    mkdirSync(dir, { recursive: true });
+    if (content) writeFileSync(join(dir, "index.html"), content);
+    return dir;
+  }
+
+  const fileSize = (path: string) =>
+    readdirSync(path).reduce((sum, f) => sum + statSync(join(path, f)).size, 0);
+
+  test("reports usage drift against the size on disk", () => {
+    const docs = makeSite("docs", "hello");
+    const blog = makeSite("blog", "12345678");
+
+    const report = scanSites(root, [
+      { name: "docs", path: docs, used_bytes: 5 },
+      { name: "blog", path: blog, used_bytes: 100 },
+    ], fileSize);
+
+    expect(report.sites).toBe(2);
+    expect(report.drift).toEqual([{ site: "blog", recorded: 100, actual: 8 }]);
+    expect(report.orphans).toEqual([]);
+    expect(report.missing).toEqual([]);
+  });
+
+  test("finds orphan directories and sites without a directory", () => {
+    makeSite("docs");
+    makeSite("leftover");
+    makeSite("another");
+
+    const report = scanSites(root, [
+      { name: "docs", path: join(root, "docs"), used_bytes: 0 },
+      { name: "gone", path: join(root, "gone"), used_bytes: 42 },
+    ], () => 0);
+
+    expect(report.orphans).toEqual(["another", "leftover"]);
+    expect(report.missing).toEqual(["gone"]);
+    expect(report.drift).toEqual([]);
+  });
+
+  test("skips dot directories, swap links and stray files", () => {
+    mkdirSync(join(root, ".deployments", "old"), { recursive: true });
+    mkdirSync(join(root, ".uploads"));
+    mkdirSync(join(root, ORPHANS_DIR));
+    symlinkSync(root, join(root, "docs.swap-1-2"));
+    writeFileSync(join(root, "notes.txt"), "x");
+
+    expect(findOrphanDirs(root, [])).toEqual([]);
+  });
+
+  test("treats a symlink to a removed deployment as missing", () => {
+    const sitePath = join(root, "docs");
+    const deployment = getDeploymentPath(sitePath, 1);
+    mkdirSync(deployment, { recursive: true });
+    activateDeployment(sitePath, deployment);
+    rmSync(deployment, { recursive: true });
+
+    const report = scanSites(root, [{ name: "docs", path: sitePath, used_bytes: 10 }], () => 0);
+    expect(report.missing).toEqual(["docs"]);
+    expect(report.orphans).toEqual([]);
+  });
+
+  test("moves orphans aside instead of deleting them", () => {
+    makeSite("leftover", "keep me");
+
+    const dest = moveOrphan(root, "leftover", new Date("2026-01-02T03:04:05.678Z"));
+
+    expect(dest).toBe(join(root, ORPHANS_DIR, "leftover-2026-01-02T03-04-05-678Z"));
+    expect(existsSync(join(root, "leftover"))).toBe(false);
+    expect(existsSync(join(dest, "index.html"))).toBe(true);
+    expect(findOrphanDirs(root, [])).toEqual([]);
+  });
+
+  test("refuses to move a directory that doesn't exist", () => {
+    expect(() => moveOrphan(root, "nope")).toThrow("Not found");
+  });
+});
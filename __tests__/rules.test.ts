@@ -0,0 +1,116 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, writeFileSync, mkdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { parseRedirects, parseHeaders, compileRules, isRulesFile, loadSiteRules } from "../server/rules";
+
+describe("parseRedirects", () => {
+  test("parses paths, statuses, force and comments", () => {
+    const { rules, errors } = parseRedirects([
+      "# moved pages",
+      "/old /new",
+      "",
+      "/blog/:slug /news/:slug 302",
+      "/docs/* /v2/:splat 301!",
+      "/app/* /index.html 200",
+    ].join("\n"));
+
+    expect(errors).toEqual([]);
+    expect(rules).toEqual([
+      { line: 2, from: "/old", to: "/new", status: 301, force: false },
+      { line: 4, from: "/blog/:slug", to: "/news/:slug", status: 302, force: false },
+      { line: 5, from: "/docs/*", to: "/v2/:splat", status: 301, force: true },
+      { line: 6, from: "/app/*", to: "/index.html", status: 200, force: false },
+    ]);
+  });
+
+  test("reports errors with line numbers", () => {
+    const { errors } = parseRedirects([
+      "/ok /fine",
+      "/missing-destination",
+      "/a /b 404",
+      "/c/:id /d/:name",
+      "/q id=:id /r",
+      "/x https://example.com 200",
+    ].join("\n"));
+
+    expect(errors.map(e => e.line)).toEqual([2, 3, 4, 5, 6]);
+    expect(errors[1].message).toContain("Unsupported status 404");
+    expect(errors[2].message).toContain(":name");
+  });
+});
+
+describe("parseHeaders", () => {
+  test("groups indented headers under their path", () => {
+    const { rules, errors } = parseHeaders("/*\n  X-Frame-Options: DENY\n/assets/*\n  Cache-Control: max-age=31536000\n");
+
+    expect(errors).toEqual([]);
+    expect(rules).toEqual([
+      { line: 1, path: "/*", headers: [["X-Frame-Options", "DENY"]] },
+      { line: 3, path: "/assets/*", headers: [["Cache-Control", "max-age=31536000"]] },
+    ]);
+  });
+
+  test("reports errors with line numbers", () => {
+    const { errors } = parseHeaders("  X-Orphan: 1\n/ok\n  not a header\n/empty\n");
+    expect(errors.map(e => e.line)).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe("compileRules", () => {
+  test("compiles redirects in order inside a route", () => {
+    const { rules: redirects } = parseRedirects("/old /new\n/blog/:slug /news/:slug 302\n/app/* /index.html 200!");
+    const config = compileRules({ redirects, headers: [] }).join("\n");
+
+    expect(config).toStartWith("route {");
+    expect(config).toContain("path /old /old/");
+    expect(config).toContain("redir @redirect1 /new 301");
+    expect(config).toContain("path_regexp redirect2 ^/blog/([^/]+)/?$");
+    expect(config).toContain("redir @redirect2 /news/{re.redirect2.1} 302");
+    expect(config).toContain("rewrite @redirect3 /index.html");
+    // Only the forced rule applies over existing files
+    expect(config.match(/not file/g)?.length).toBe(2);
+  });
+
+  test("compiles headers with quoted values", () => {
+    const { rules: headers } = parseHeaders('/*\n  Content-Security-Policy: default-src "self"');
+    const config = compileRules({ redirects: [], headers }).join("\n");
+
+    expect(config).toContain("@headers1 path /*");
+    expect(config).toContain('Content-Security-Policy "default-src \\"self\\""');
+  });
+});
+
+describe("rule files", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "sf-rules-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("only root files count", () => {
+    expect(isRulesFile("_redirects")).toBe(true);
+    expect(isRulesFile("./_headers")).toBe(true);
+    expect(isRulesFile("docs/_redirects")).toBe(false);
+  });
+
+  test("loadSiteRules skips invalid files and reports them", () => {
+    writeFileSync(join(dir, "_redirects"), "/a /b\n/broken\n");
+    writeFileSync(join(dir, "_headers"), "/*\n  X-Test: 1\n");
+
+    const result = loadSiteRules(dir);
+
+    expect(result.redirects).toEqual([]);
+    expect(result.headers).toHaveLength(1);
+    expect(result.errors[0]).toContain("Invalid _redirects: line 2");
+  });
+
+  test("loadSiteRules ignores directories named like rule files", () => {
+    mkdirSync(join(dir, "_redirects"));
+    expect(loadSiteRules(dir).errors).toEqual([]);
+  });
+});
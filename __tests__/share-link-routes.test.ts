@@ -0,0 +1,22 @@
+import { describe, test, expect } from "bun:test";
+import { api, createSite } from "./helpers/api";
+
+describe("GET /share-links/verify", () => {
+  const verify = (host: string, uri: string) =>
+    api("GET", "/share-links/verify", undefined, "", { "X-Forwarded-Host": host, "X-Forwarded-Uri": uri });
+
+  test("follows aliases as they are added and removed", async () => {
+    await createSite("shared", { auth: { user: "owner", pass: "correct horse" } });
+    const { data: link } = await api("POST", "/sites/shared/share-links", {});
+    const uri = link.url.slice(new URL(link.url).origin.length);
+
+    expect((await verify("shared.498as.com", uri)).status).toBe(200);
+    expect((await verify("shared-pr.498as.com", uri)).status).toBe(401);
+
+    expect((await api("POST", "/sites/shared/aliases", { name: "shared-pr" })).status).toBe(201);
+    expect((await verify("shared-pr.498as.com", uri)).status).toBe(200);
+
+    expect((await api("DELETE", "/sites/shared/aliases/shared-pr")).status).toBe(200);
+    expect((await verify("shared-pr.498as.com", uri)).status).toBe(401);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, test, expect } from "bun:test";
+import {
+  signShareLink, parseShareToken, verifyShareToken, normalizePrefix, matchesPrefix, readShareToken, shareUrl,
+} from "../server/share-links";
+
+const SECRET = "test-secret";
+const link = { id: 7, site: "docs", path: "/reports/", expires_at: "2026-03-02 12:00:00" };
+
+describe("share tokens", () => {
+  test("round-trip through parse and verify", () => {
+    const token = signShareLink(SECRET, link);
+
+    expect(token.startsWith("7.")).toBe(true);
+    expect(parseShareToken(token)).toBe(7);
+    expect(verifyShareToken(SECRET, token, link)).toBe(true);
+  });
+
+  test("are bound to the secret and every scoped field", () => {
+    const token = signShareLink(SECRET, link);
+
+    expect(verifyShareToken("other-secret", token, link)).toBe(false);
+    expect(verifyShareToken(SECRET, token, { ...link, site: "blog" })).toBe(false);
+    expect(verifyShareToken(SECRET, token, { ...link, path: "/" })).toBe(false);
+    expect(verifyShareToken(SECRET, token, { ...link, expires_at: "2027-03-02 12:00:00" })).toBe(false);
+    expect(verifyShareToken(SECRET, token.replace(/^7\./, "8."), { ...link, id: 8 })).toBe(false);
+  });
+
+  test("rejects malformed tokens", () => {
+    expect(parseShareToken("")).toBeNull();
+    expect(parseShareToken("abc.def")).toBeNull();
+    expect(parseShareToken("7")).toBeNull();
+    expect(verifyShareToken(SECRET, "7.short", link)).toBe(false);
+  });
+});
+
+describe("path prefixes", () => {
+  test("normalizes to an absolute path inside the site", () => {
+    expect(normalizePrefix("/")).toBe("/");
+    expect(normalizePrefix("reports/q3/")).toBe("/reports/q3/");
+    expect(normalizePrefix("//reports//q3")).toBe("/reports/q3");
+    expect(normalizePrefix("../etc")).toBeNull();
+    expect(normalizePrefix("/reports/../../etc")).toBeNull();
+  });
+
+  test("match whole path segments", () => {
+    expect(matchesPrefix("/", "/anything.css")).toBe(true);
+    expect(matchesPrefix("/reports", "/reports")).toBe(true);
+    expect(matchesPrefix("/reports", "/reports/q3.html")).toBe(true);
+    expect(matchesPrefix("/reports", "/reports-old/")).toBe(false);
+    expect(matchesPrefix("/reports/", "/reports")).toBe(false);
+  });
+
+  test("decode and normalize the request path first", () => {
+    expect(matchesPrefix("/reports/", "/reports/q%203.pdf")).toBe(true);
+    expect(matchesPrefix("/reports/", "/reports/../secret.html")).toBe(false);
+    expect(matchesPrefix("/reports/", "/reports/%2e%2e/secret.html")).toBe(false);
+    expect(matchesPrefix("/reports/", "/reports/%E0%A4%A")).toBe(false);
+  });
+});
+
+describe("readShareToken", () => {
+  test("prefers the query parameter over the cookie", () => {
+    expect(readShareToken("/a.html?sf_token=7.abc", "sf_share=7.old")).toEqual({ token: "7.abc", source: "query" });
+    expect(readShareToken("/a.css", "theme=dark; sf_share=7.abc")).toEqual({ token: "7.abc", source: "cookie" });
+  });
+
+  test("returns null without a token", () => {
+    expect(readShareToken("/a.html?x=1", undefined)).toBeNull();
+    expect(readShareToken("/a.html", "sf_share=")).toBeNull();
+  });
+});
+
+test("shareUrl attaches the token to the prefix", () => {
+  expect(shareUrl("https://docs.example.com", link, "7.abc")).toBe("https://docs.example.com/reports/?sf_token=7.abc");
+});
@@ -0,0 +1,121 @@
+import { describe, test, expect } from "bun:test";
+import { existsSync } from "fs";
+import { join } from "path";
+import { api, createSite, db, reapers, SITES_ROOT } from "./helpers/api";
+
+const rowCount = (table: string, siteId: number) =>
+  (db.db.query(`SELECT COUNT(*) as count FROM ${table} WHERE site_id = ?`).get(siteId) as { count: number }).count;
+
+describe("DELETE /sites/{name}", () => {
+  test("deletes a site with access logs and their rollups", async () => {
+    const site = await createSite("logged");
+    const at = "2024-01-31 12:00:00";
+    db.recordAccessLog(join(SITES_ROOT, "access.log"), 1, 100, [
+      [site.id, "203.0.113.7", "/", 200, 512, null, "curl/8", at],
+      [site.id, "203.0.113.8", "/missing", 404, 0, null, "curl/8", at],
+    ]);
+    db.rollupAccessLog(at);
+    expect(rowCount("access_rollup_daily", site.id)).toBe(1);
+
+    const res = await api("DELETE", "/sites/logged");
+
+    expect(res.status).toBe(200);
+    expect(existsSync(join(SITES_ROOT, "logged"))).toBe(false);
+    for (const table of ["access_log", "access_rollup_hourly", "access_rollup_daily", "access_rollup_top"]) {
+      expect(rowCount(table, site.id)).toBe(0);
+    }
+  });
+});
+
+describe("basic auth users", () => {
+  test("are listed in order on the site", async () => {
+    await createSite("auth-order", { auth: { user: "zed", pass: "correct horse" } });
+    for (const user of ["mia", "alice"]) {
+      expect((await api("POST", "/sites/auth-order/users", { user, pass: "correct horse" })).status).toBe(201);
+    }
+
+    const { data: sites } = await api("GET", "/sites");
+    expect(sites.find((s: any) => s.name === "auth-order").auth_users).toEqual(["alice", "mia", "zed"]);
+  });
+});
+
+describe("site expiry", () => {
+  const secondsLeft = (expiresAt: string) => (Date.parse(`${expiresAt}Z`) - Date.now()) / 1000;
+
+  test("is set from expires_in or expires_at", async () => {
+    const inHour = await createSite("expiry-in", { expires_in: 3600 });
+    const atDay = await createSite("expiry-at", { expires_at: new Date(Date.now() + 86400_000).toISOString() });
+
+    expect(secondsLeft(inHour.expires_at)).toBeCloseTo(3600, -1);
+    expect(secondsLeft(atDay.expires_at)).toBeCloseTo(86400, -1);
+  });
+
+  test("rejects expiries in the past or more than a year ahead", async () => {
+    const inTwoYears = new Date(Date.now() + 2 * 365 * 86400_000).toISOString();
+    for (const body of [{ expires_in: 1e21 }, { expires_in: 400 * 86400 }, { expires_at: inTwoYears },
+      { expires_at: "2001-01-01T00:00:00Z" }, { expires_at: "soon" }]) {
+      const res = await api("POST", "/sites", { name: "expiry-bad", ...body });
+      expect(res.status).toBe(400);
+    }
+    expect(db.getSite.get("expiry-bad")).toBeNull();
+  });
+
+  test("extend adds to the current expiry or removes it", async () => {
+    const site = await createSite("expiry-extend", { expires_in: 3600 });
+
+    const extended = await api("POST", "/sites/expiry-extend/extend", { by: 7200 });
+    expect(extended.status).toBe(200);
+    expect(secondsLeft(extended.data.expires_at)).toBeCloseTo(secondsLeft(site.expires_at) + 7200, -1);
+
+    const tooFar = await api("POST", "/sites/expiry-extend/extend", { by: 1e21 });
+    expect(tooFar.status).toBe(400);
+    expect(db.getSite.get("expiry-extend").expires_at).toBe(extended.data.expires_at);
+
+    const kept = await api("POST", "/sites/expiry-extend/extend", { expires_at: null });
+    expect(kept.status).toBe(200);
+    expect(kept.data.expires_at).toBeNull();
+    expect((await api("POST", "/sites/expiry-extend/extend", { by: 60 })).status).toBe(409);
+  });
+
+  test("expired sites are deleted by the reaper", async () => {
+    const site = await createSite("expiry-reaped", { expires_in: 3600 });
+    await createSite("expiry-kept", { expires_in: 3600 });
+    db.db.run(`UPDATE sites SET expires_at = datetime('now', '-1 minute') WHERE id = ?`, [site.id]);
+
+    await reapers.reapExpiredSites();
+
+    expect(db.getSite.get("expiry-reaped")).toBeNull();
+    expect(db.getSite.get("expiry-kept")).not.toBeNull();
+    expect(existsSync(join(SITES_ROOT, "expiry-reaped"))).toBe(false);
+    const audit = db.db.query(`SELECT actor_key_id, action FROM audit_log WHERE site = ?`).all("expiry-reaped");
+    expect(audit).toContainEqual({ actor_key_id: null, action: "site.expire" });
+  });
+});
+
+describe("alias expiry", () => {
+  test("is set from expires_in, at most a year ahead", async () => {
+    await createSite("alias-expiry");
+
+    const alias = await api("POST", "/sites/alias-expiry/aliases", { name: "alias-expiry-pr", expires_in: 3600 });
+    expect(alias.status).toBe(201);
+    expect(alias.data.expires_at).not.toBeNull();
+
+    for (const expires_in of [1e12, 400 * 86400]) {
+      const res = await api("POST", "/sites/alias-expiry/aliases", { name: "alias-expiry-bad", expires_in });
+      expect(res.status).toBe(400);
+    }
+    expect(db.getAlias.get("alias-expiry-bad")).toBeNull();
+  });
+});
+
+describe("GET /stats/{name}/timeseries", () => {
+  test("rejects ranges with too many buckets", async () => {
+    await createSite("timeseries");
+
+    const day = await api("GET", "/stats/timeseries/timeseries?interval=hour&from=2024-01-01T00:00:00Z&to=2024-01-02T00:00:00Z");
+    expect(day.status).toBe(200);
+
+    const millennium = await api("GET", "/stats/timeseries/timeseries?interval=hour&from=1000-01-01T00:00:00Z&to=2999-01-01T00:00:00Z");
+    expect(millennium.status).toBe(400);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, test, expect } from "bun:test";
+import { generateCaddyConfig } from "../scripts/sync-caddy";
+
+const site = { name: "docs", path: "/srv/sites/docs" };
+const users = [{ username: "admin", password_hash: "$2b$hash" }];
+
+describe("generateCaddyConfig", () => {
+  test("emits one block per site", () => {
+    const config = generateCaddyConfig([site]);
+
+    expect(config).toContain("docs.498as.com {");
+    expect(config).toContain("root * /srv/sites/docs");
+    expect(config).not.toContain("basic_auth");
+    expect(config).not.toContain("forward_auth");
+  });
+
+  test("emits aliases as their own blocks with the parent's auth", () => {
+    const config = generateCaddyConfig(
+      [{ ...site, users }],
+      [{ name: "pr-42--docs", site: "docs", root: "/srv/sites/.deployments/docs/7", users }]
+    );
+
+    const aliasBlock = config.slice(config.indexOf("pr-42--docs.498as.com {"));
+    expect(aliasBlock).toContain("root * /srv/sites/.deployments/docs/7");
+    expect(aliasBlock).toContain("admin $2b$hash");
+  });
+
+  test("lets share links skip basic auth through forward_auth", () => {
+    const config = generateCaddyConfig([{ ...site, users }]);
+
+    expect(config).toContain("basic_auth @password {");
+    expect(config).toContain("forward_auth @share_link localhost:3000 {");
+    expect(config).toContain("uri /share-links/verify");
+    expect(config).toContain('header @share_link_opened Set-Cookie "sf_share={query.sf_token}; Path=/');
+  });
+
+  test("gives every user a line in the basic_auth block", () => {
+    const config = generateCaddyConfig([{
+      ...site,
+      users: [...users, { username: "bob", password_hash: "$2b$bob" }],
+    }]);
+
+    expect(config).toContain("    basic_auth @password {\n        admin $2b$hash\n        bob $2b$bob\n    }");
+  });
+
+  test("blocks denied and unlisted addresses before anything else", () => {
+    const config = generateCaddyConfig([{ ...site, users, ip_allow: "10.0.0.0/8 203.0.113.7/32", ip_deny: "10.6.6.0/24" }]);
+
+    expect(config).toContain("@ip_denied remote_ip 10.6.6.0/24\n    handle @ip_denied {\n        respond 403");
+    expect(config).toContain("@ip_not_allowed not remote_ip 10.0.0.0/8 203.0.113.7/32");
+    expect(config.indexOf("handle @ip_denied")).toBeLessThan(config.indexOf("handle @ip_not_allowed"));
+    expect(config.indexOf("handle @ip_not_allowed")).toBeLessThan(config.indexOf("    handle {"));
+    expect(config).toContain("        basic_auth @password {");
+    expect(config).toContain("        root * /srv/sites/docs");
+  });
+
+  test("serves verified custom domains from the site's block", () => {
+    const config = generateCaddyConfig([{ ...site, domains: ["docs.client.com", "www.client.com"] }]);
+
+    expect(config).toContain("docs.498as.com, docs.client.com, www.client.com {");
+  });
+
+  test("compiles site rules and hides rule files", () => {
+    const rules = {
+      redirects: [{ line: 1, from: "/old", to: "/new", status: 301, force: false }],
+      headers: [],
+    };
+    const config = generateCaddyConfig([{ ...site, rules }]);
+
+    expect(config).toContain("redir @redirect1 /new 301");
+    expect(config).toContain("hide _redirects _headers");
+  });
+
+  test("renders SPA fallback and custom error pages", () => {
+    const config = generateCaddyConfig([{ ...site, spa_fallback: 1, not_found_page: "/404.html", error_page: "/50x.html" }]);
+
+    expect(config).toContain("try_files {path} {path}/ /index.html");
+    expect(config).toContain("handle_errors 404 {");
+    expect(config).toContain("rewrite * /404.html");
+    expect(config).toContain("handle_errors 5xx {");
+  });
+
+  test("renders clean URLs without trailing slashes", () => {
+    const config = generateCaddyConfig([{ ...site, clean_urls: 1, trailing_slash: "never" }]);
+
+    expect(config).toContain("redir @slash {re.slash.1} 308");
+    expect(config).toContain("redir @html {re.html.1} 308");
+    expect(config).toContain("try_files {path} {path}/index.html {path}.html");
+    expect(config).toContain("disable_canonical_uris");
+  });
+
+  test("leaves Caddy's defaults alone without options", () => {
+    const config = generateCaddyConfig([site]);
+
+    expect(config).not.toContain("try_files");
+    expect(config).not.toContain("handle_errors");
+    expect(config).not.toContain("remote_ip");
+  });
+
+  test("notes when there are no sites", () => {
+    expect(generateCaddyConfig([])).toContain("# No sites configured");
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, test, expect } from "bun:test";
+import { createTarGz } from "../cli/archive";
+import { api, createSite, uploadFile, endlessBody, db, reapers } from "./helpers/api";
+
+describe("POST /sites/{name}/archive", () => {
+  test("extracts an archive", async () => {
+    await createSite("archive");
+    const archive = createTarGz([{ path: "index.html", data: new TextEncoder().encode("hi") }]);
+
+    const res = await api("POST", "/sites/archive/archive", archive, undefined, { "Content-Type": "application/octet-stream" });
+
+    expect(res.status).toBe(201);
+    expect(res.data.map((f: any) => f.path)).toEqual(["index.html"]);
+  });
+
+  test("stops reading a body without Content-Length at the size limit", async () => {
+    await createSite("archive-chunked");
+
+    const res = await api("POST", "/sites/archive-chunked/archive", endlessBody(), undefined, {
+      "Content-Type": "application/octet-stream",
+    });
+
+    expect(res.status).toBe(413);
+    expect(res.data.error).toContain("Archive too large");
+  });
+});
+
+describe("resumable uploads", () => {
+  const patch = (site: string, id: string, offset: number, body: BodyInit) =>
+    api("PATCH", `/sites/${site}/uploads/${id}`, body, undefined, {
+      "Content-Type": "application/offset+octet-stream",
+      "Upload-Offset": String(offset),
+    });
+
+  test("append chunks and finalize into a file", async () => {
+    await createSite("resumable");
+    const { data: upload } = await api("POST", "/sites/resumable/uploads", { path: "big.txt", size: 11 });
+
+    expect((await patch("resumable", upload.id, 0, "hello ")).status).toBe(200);
+    expect((await patch("resumable", upload.id, 0, "hello ")).status).toBe(409);
+    expect((await patch("resumable", upload.id, 6, "world")).data.offset).toBe(11);
+
+    const res = await api("POST", `/sites/resumable/uploads/${upload.id}/finalize`);
+    expect(res.status).toBe(201);
+    expect(res.data.size).toBe(11);
+  });
+
+  test("stop reading a chunk without Content-Length at the size limit", async () => {
+    await createSite("resumable-chunked");
+    const { data: upload } = await api("POST", "/sites/resumable-chunked/uploads", { path: "big.bin", size: 10 * 1024 * 1024 });
+
+    const res = await patch("resumable-chunked", upload.id, 0, endlessBody());
+
+    expect(res.status).toBe(413);
+    expect(res.data.error).toContain("Chunk too large");
+  });
+});
+
+describe("expired resumable uploads", () => {
+  test("are removed by the reaper, which logs failures instead of throwing", async () => {
+    await createSite("resumable-expired");
+    const { data: upload } = await api("POST", "/sites/resumable-expired/uploads", { path: "a.bin", size: 4 });
+    db.db.run(`UPDATE uploads SET expires_at = datetime('now', '-1 minute') WHERE id = ?`, [upload.id]);
+
+    reapers.reapExpiredUploads();
+    expect(db.db.query(`SELECT id FROM uploads WHERE id = ?`).get(upload.id)).toBeNull();
+
+    const broken = db.db.query(`SELECT id FROM sites WHERE name = ?`).get("resumable-expired") as { id: number };
+    db.db.run(`UPDATE sites SET path = ? WHERE id = ?`, ["/dev/null/not-a-dir", broken.id]);
+    db.db.run(
+      `INSERT INTO uploads (id, site_id, path, size, overwrite, expires_at) VALUES ('stuck', ?, 'b.bin', 1, 0, datetime('now', '-1 minute'))`,
+      [broken.id]
+    );
+    expect(() => reapers.reapExpiredUploads()).not.toThrow();
+  });
+});
+
+describe("uploading onto a directory", () => {
+  test("is refused with 409, even with overwrite", async () => {
+    await createSite("onto-dir");
+    await uploadFile("onto-dir", "docs/a.txt", "a");
+
+    const multipart = await uploadFile("onto-dir", "docs", "x", { overwrite: "true" });
+    expect(multipart.status).toBe(409);
+    expect(multipart.data.error).toBe("Cannot replace directory with file: docs");
+
+    const { data: upload } = await api("POST", "/sites/onto-dir/uploads", { path: "docs", size: 1, overwrite: true });
+    await api("PATCH", `/sites/onto-dir/uploads/${upload.id}`, "x", undefined, {
+      "Content-Type": "application/offset+octet-stream",
+      "Upload-Offset": "0",
+    });
+    const finalized = await api("POST", `/sites/onto-dir/uploads/${upload.id}/finalize`);
+    expect(finalized.status).toBe(409);
+    expect(finalized.data.error).toBe("Cannot replace directory with file: docs");
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, readFileSync, existsSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getUploadsDir,
+  getUploadPath,
+  generateUploadId,
+  createUploadFile,
+  writeChunk,
+  completeUpload,
+  removeAllUploads,
+} from "../server/uploads";
+
+const encoder = new TextEncoder();
+
+describe("resumable uploads", () => {
+  let root: string;
+  let sitePath: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "sf-uploads-"));
+    sitePath = join(root, "docs");
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  test("keeps temp files in a dot directory next to the site", () => {
+    expect(getUploadsDir(sitePath)).toBe(join(root, ".uploads", "docs"));
+  });
+
+  test("generates distinct hex IDs", () => {
+    const a = generateUploadId();
+    const b = generateUploadId();
+    expect(a).toMatch(/^[a-f0-9]{32}$/);
+    expect(a).not.toBe(b);
+  });
+
+  test("writes chunks at their offsets", () => {
+    const id = generateUploadId();
+    createUploadFile(sitePath, id);
+
+    writeChunk(sitePath, id, 0, encoder.encode("hello "));
+    writeChunk(sitePath, id, 6, encoder.encode("world"));
+
+    expect(readFileSync(getUploadPath(sitePath, id), "utf8")).toBe("hello world");
+  });
+
+  test("rewriting a chunk after a retry does not duplicate data", () => {
+    const id = generateUploadId();
+    createUploadFile(sitePath, id);
+
+    writeChunk(sitePath, id, 0, encoder.encode("abc"));
+    writeChunk(sitePath, id, 0, encoder.encode("abc"));
+    writeChunk(sitePath, id, 3, encoder.encode("def"));
+
+    expect(readFileSync(getUploadPath(sitePath, id), "utf8")).toBe("abcdef");
+  });
+
+  test("moves the completed file into place", () => {
+    const id = generateUploadId();
+    createUploadFile(sitePath, id);
+    writeChunk(sitePath, id, 0, encoder.encode("done"));
+
+    const target = join(sitePath, "media", "file.bin");
+    completeUpload(sitePath, id, target);
+
+    expect(readFileSync(target, "utf8")).toBe("done");
+    expect(existsSync(getUploadPath(sitePath, id))).toBe(false);
+  });
+
+  test("removes all uploads of a site", () => {
+    createUploadFile(sitePath, generateUploadId());
+    removeAllUploads(sitePath);
+    expect(existsSync(getUploadsDir(sitePath))).toBe(false);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, test, expect } from "bun:test";
+import { api, createKey } from "./helpers/api";
+
+describe("POST /webhooks", () => {
+  const tenant = createKey("sites:read sites:write");
+
+  test("refuses URLs on loopback and private addresses", async () => {
+    for (const url of ["http://127.0.0.1:2019/config/", "http://localhost:3000/", "http://169.254.169.254/latest"]) {
+      const res = await api("POST", "/webhooks", { url, events: ["*"] }, tenant);
+      expect(res.status).toBe(400);
+      expect(res.data.error).toContain("Webhooks must point to a public host");
+    }
+  });
+
+  test("creates webhooks for public addresses", async () => {
+    const res = await api("POST", "/webhooks", { url: "https://203.0.113.7/hook", events: ["site.created"] }, tenant);
+
+    expect(res.status).toBe(201);
+    expect(res.data.secret).toStartWith("whsec_");
+  });
+});
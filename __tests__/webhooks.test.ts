@@ -0,0 +1,121 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createHmac } from "crypto";
+import {
+  matchesWebhook, signPayload, retryDelay, deliver, isPrivateAddress, checkWebhookTarget,
+} from "../server/webhooks";
+
+describe("matchesWebhook", () => {
+  test("filters by event and site", () => {
+    const hook = { events: "site.created upload.completed", sites: "docs blog" };
+    expect(matchesWebhook(hook, "upload.completed", "docs")).toBe(true);
+    expect(matchesWebhook(hook, "site.deleted", "docs")).toBe(false);
+    expect(matchesWebhook(hook, "upload.completed", "other")).toBe(false);
+  });
+
+  test("* and a NULL site list match everything", () => {
+    expect(matchesWebhook({ events: "*", sites: null }, "site.deleted", "any")).toBe(true);
+  });
+});
+
+describe("retryDelay", () => {
+  test("doubles after each failed attempt", () => {
+    expect([1, 2, 3, 4].map(retryDelay)).toEqual([30, 60, 120, 240]);
+  });
+});
+
+describe("isPrivateAddress", () => {
+  test("flags loopback, private, link-local and reserved IPv4", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "172.31.255.255", "192.168.1.1",
+      "169.254.169.254", "100.64.0.1", "0.0.0.0", "224.0.0.1", "255.255.255.255"]) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ["8.8.8.8", "172.32.0.1", "100.128.0.1", "203.0.113.7"]) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+
+  test("flags local IPv6 and IPv4 embedded in IPv6", () => {
+    for (const address of ["::1", "::", "fd00::1", "fe80::1%eth0", "ff02::1", "::ffff:127.0.0.1",
+      "::ffff:7f00:1", "64:ff9b::a00:1"]) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ["2606:4700::1111", "::ffff:8.8.8.8", "64:ff9b::808:808"]) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe("checkWebhookTarget", () => {
+  const resolver = (addresses: Record<string, string[]>) => async (host: string) => {
+    if (!addresses[host]) throw new Error("ENOTFOUND");
+    return addresses[host];
+  };
+
+  test("allows hosts that only resolve to public addresses", async () => {
+    const resolve = resolver({ "hooks.example.com": ["203.0.113.7", "2001:4860::1"] });
+    expect(await checkWebhookTarget("https://hooks.example.com/x", [], resolve)).toBeNull();
+  });
+
+  test("refuses private addresses and hosts resolving to one", async () => {
+    const resolve = resolver({ "internal.example.com": ["203.0.113.7", "10.0.0.5"] });
+    expect(await checkWebhookTarget("http://127.0.0.1:2019/config", [], resolve)).toContain("private");
+    expect(await checkWebhookTarget("http://[::1]/", [], resolve)).toContain("private");
+    expect(await checkWebhookTarget("https://internal.example.com/", [], resolve)).toContain("private");
+    expect(await checkWebhookTarget("https://missing.example.com/", [], resolve)).toBe("Cannot resolve missing.example.com");
+  });
+
+  test("skips the check for allowed hosts", async () => {
+    const resolve = resolver({ "ci.internal": ["10.0.0.5"] });
+    expect(await checkWebhookTarget("https://CI.internal/hook", ["ci.internal"], resolve)).toBeNull();
+  });
+});
+
+describe("deliver", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let received: { headers: Headers; body: string }[] = [];
+  let status = 200;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        received.push({ headers: req.headers, body: await req.text() });
+        return new Response("ok", { status });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const delivery = { id: 7, event: "site.created", payload: JSON.stringify({ event: "site.created", site: "docs" }) };
+
+  test("POSTs the payload with a verifiable signature", async () => {
+    received = [];
+    status = 200;
+    const result = await deliver(`http://localhost:${server.port}/hook`, "s3cret-s3cret-s3cret", delivery);
+
+    expect(result).toEqual({ ok: true, status: 200, error: null });
+    const [req] = received;
+    expect(req.body).toBe(delivery.payload);
+    expect(req.headers.get("x-sf-event")).toBe("site.created");
+    expect(req.headers.get("x-sf-delivery")).toBe("7");
+
+    const expected = createHmac("sha256", "s3cret-s3cret-s3cret").update(req.body).digest("hex");
+    expect(req.headers.get("x-sf-signature-256")).toBe(`sha256=${expected}`);
+    expect(signPayload("s3cret-s3cret-s3cret", req.body)).toBe(`sha256=${expected}`);
+  });
+
+  test("reports non-2xx responses and connection errors", async () => {
+    status = 500;
+    expect(await deliver(`http://localhost:${server.port}/hook`, "secret", delivery)).toEqual({
+      ok: false, status: 500, error: "HTTP 500",
+    });
+
+    const unreachable = await deliver("http://127.0.0.1:9/hook", "secret", delivery);
+    expect(unreachable.ok).toBe(false);
+    expect(unreachable.status).toBeNull();
+    expect(unreachable.error).toBeTruthy();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Minimal tar.gz writer used for bulk directory uploads.
+ *
+ * Produces POSIX ustar archives with regular files only. Paths longer than
+ * the 100-byte name field use a pax extended header.
+ */
+
+import { gzipSync } from "zlib";
+
+export interface TarFile {
+  path: string;
+  data: Uint8Array;
+  mtime?: Date;
+}
+
+const encoder = new TextEncoder();
+
+function writeString(header: Uint8Array, offset: number, length: number, value: string) {
+  header.set(encoder.encode(value).subarray(0, length), offset);
+}
+
+function writeOctal(header: Uint8Array, offset: number, length: number, value: number) {
+  writeString(header, offset, length, value.toString(8).padStart(length - 1, "0"));
+}
+
+function createHeader(name: string, size: number, type: string, mtime: Date): Uint8Array {
+  const header = new Uint8Array(512);
+
+  writeString(header, 0, 100, name);
+  writeOctal(header, 100, 8, 0o644);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, Math.floor(mtime.getTime() / 1000));
+  writeString(header, 156, 1, type);
+  writeString(header, 257, 6, "ustar");
+  writeString(header, 263, 2, "00");
+
+  // Checksum is computed with the checksum field filled with spaces
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, b) => sum + b, 0);
+  writeString(header, 148, 8, `${checksum.toString(8).padStart(6, "0")}\0 `);
+
+  return header;
+}
+
+function paxRecord(key: string, value: string): string {
+  // The length prefix counts itself, so grow it until it is stable
+  const body = ` ${key}=${value}\n`;
+  let length = encoder.encode(body).length + 1;
+  while (String(length).length + encoder.encode(body).length !== length) {
+    length = String(length).length + encoder.encode(body).length;
+  }
+  return `${length}${body}`;
+}
+
+function padding(size: number): Uint8Array {
+  return new Uint8Array((512 - (size % 512)) % 512);
+}
+
+/**
+ * Build an uncompressed tar archive.
+ */
+export function createTar(files: TarFile[]): Uint8Array {
+  const chunks: Uint8Array[] = [];
+
+  for (const file of files) {
+    const mtime = file.mtime || new Date();
+
+    if (encoder.encode(file.path).length > 100) {
+      const pax = encoder.encode(paxRecord("path", file.path));
+      chunks.push(createHeader("PaxHeader", pax.length, "x", mtime), pax, padding(pax.length));
+    }
+
+    chunks.push(createHeader(file.path, file.data.length, "0", mtime), file.data, padding(file.data.length));
+  }
+
+  // End of archive: two zero blocks
+  chunks.push(new Uint8Array(1024));
+
+  const total = chunks.reduce((sum, c) => sum + c.length, 0);
+  const tar = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    tar.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return tar;
+}
+
+/**
+ * Build a gzip-compressed tar archive.
+ */
+export function createTarGz(files: TarFile[]): Uint8Array {
+  return gzipSync(createTar(files));
+}
@@ -1,4 +1,12 @@
-import type { Site, CreateSite, UpdateSiteAuth, FileInfo, UploadResult, Stats, SiteStats } from "../server/schema";
+import type {
+  Site, CreateSite, UpdateSite, UpdateQuota, SiteUser, CreateSiteUser, TransferSite, ExtendSite, FileInfo, UploadResult, FileOperation, FileOperationResult,
+  ManifestEntry, SyncRequest, SyncResult, Deployment, CreateDeployment, Alias, CreateAlias,
+  ShareLink, ShareLinkSecret, CreateShareLink,
+  Domain, CreateDomain, ApiKey, CreateApiKey, ApiKeySecret, AuditPage, Timeseries, ReconcileReport,
+  Webhook, CreateWebhook, WebhookSecret, WebhookDelivery,
+  CreateUpload, UploadSession,
+  Stats, SiteStats
+} from "../server/schema";
 
 const API_URL = process.env.SF_API_URL || "http://localhost:3000";
 const API_KEY = process.env.SF_API_KEY || "";
@@ -28,7 +36,18 @@ export function validateConfig(): { valid: boolean; errors: string[]; warnings:
   };
 }
 
-async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
+/**
+ * Raised when the server could not be reached at all.
+ * Safe to retry, unlike errors returned by the API.
+ */
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NetworkError";
+  }
+}
+
+async function send(path: string, options: RequestInit = {}): Promise<Response> {
   let res: Response;
   
   try {
@@ -42,20 +61,56 @@ async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
   } catch (e: any) {
     // Handle connection errors with friendly messages
     if (e.code === "ECONNREFUSED" || e.message?.includes("ECONNREFUSED")) {
-      throw new Error(`Cannot connect to ${API_URL}. Is the server running?`);
+      throw new NetworkError(`Cannot connect to ${API_URL}. Is the server running?`);
     }
     if (e.code === "ENOTFOUND" || e.message?.includes("ENOTFOUND")) {
-      throw new Error(`Cannot resolve ${API_URL}. Check SF_API_URL is correct.`);
+      throw new NetworkError(`Cannot resolve ${API_URL}. Check SF_API_URL is correct.`);
     }
     if (e.code === "ETIMEDOUT" || e.message?.includes("timed out")) {
-      throw new Error(`Connection to ${API_URL} timed out. Server may be overloaded.`);
+      throw new NetworkError(`Connection to ${API_URL} timed out. Server may be overloaded.`);
+    }
+    if (e.code === "ECONNRESET" || e.message?.includes("socket connection was closed")) {
+      throw new NetworkError(`Connection to ${API_URL} was interrupted.`);
     }
     if (e.name === "TypeError" && e.message?.includes("fetch")) {
-      throw new Error(`Network error connecting to ${API_URL}: ${e.message}`);
+      throw new NetworkError(`Network error connecting to ${API_URL}: ${e.message}`);
     }
     throw e;
   }
 
+  return res;
+}
+
+function apiError(res: Response, data: any): Error {
+  // Provide more context for common errors
+  const msg = data.error || `HTTP ${res.status}`;
+  
+  if (res.status === 401) {
+    return new Error(`Authentication failed: ${msg}. Check your SF_API_KEY.`);
+  }
+  if (res.status === 403) {
+    return new Error(`Access denied: ${msg}`);
+  }
+  if (res.status === 404) {
+    return new Error(`Not found: ${msg}`);
+  }
+  if (res.status === 429) {
+    const retryAfter = data.retryAfter || res.headers.get("Retry-After");
+    return new Error(`Rate limit exceeded. ${retryAfter ? `Try again in ${retryAfter}s.` : ""}`);
+  }
+  if (res.status === 413) {
+    return new Error(`Upload rejected: ${msg}`);
+  }
+  if (res.status >= 500) {
+    return new Error(`Server error (${res.status}): ${msg}`);
+  }
+  
+  return new Error(msg);
+}
+
+async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
+  const res = await send(path, options);
+
   let data: any;
   try {
     data = await res.json();
@@ -68,30 +123,7 @@ async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
   }
 
   if (!res.ok) {
-    // Provide more context for common errors
-    const msg = data.error || `HTTP ${res.status}`;
-    
-    if (res.status === 401) {
-      throw new Error(`Authentication failed: ${msg}. Check your SF_API_KEY.`);
-    }
-    if (res.status === 403) {
-      throw new Error(`Access denied: ${msg}`);
-    }
-    if (res.status === 404) {
-      throw new Error(`Not found: ${msg}`);
-    }
-    if (res.status === 429) {
-      const retryAfter = data.retryAfter || res.headers.get("Retry-After");
-      throw new Error(`Rate limit exceeded. ${retryAfter ? `Try again in ${retryAfter}s.` : ""}`);
-    }
-    if (res.status === 413) {
-      throw new Error(`Upload rejected: ${msg}`);
-    }
-    if (res.status >= 500) {
-      throw new Error(`Server error (${res.status}): ${msg}`);
-    }
-    
-    throw new Error(msg);
+    throw apiError(res, data);
   }
 
   return data as T;
@@ -102,9 +134,14 @@ export async function listSites(): Promise<Site[]> {
   return request<Site[]>("/sites");
 }
 
-export async function createSite(name: string, auth?: { user: string; pass: string }): Promise<Site> {
+export async function createSite(
+  name: string,
+  auth?: { user: string; pass: string },
+  expiresIn?: number
+): Promise<Site> {
   const body: CreateSite = { name };
   if (auth) body.auth = auth;
+  if (expiresIn) body.expires_in = expiresIn;
 
   return request<Site>("/sites", {
     method: "POST",
@@ -117,8 +154,7 @@ export async function deleteSite(name: string): Promise<{ success: boolean; mess
   return request(`/sites/${name}`, { method: "DELETE" });
 }
 
-export async function updateAuth(name: string, auth: { user: string; pass: string } | null): Promise<Site> {
-  const body: UpdateSiteAuth = { auth };
+export async function updateSite(name: string, body: UpdateSite): Promise<Site> {
   return request<Site>(`/sites/${name}`, {
     method: "PATCH",
     headers: { "Content-Type": "application/json" },
@@ -126,34 +162,415 @@ export async function updateAuth(name: string, auth: { user: string; pass: strin
   });
 }
 
+export async function updateQuota(name: string, body: UpdateQuota): Promise<Site> {
+  return request<Site>(`/sites/${name}/quota`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+export async function transferSite(name: string, ownerKeyId: number): Promise<Site> {
+  const body: TransferSite = { owner_key_id: ownerKeyId };
+  return request<Site>(`/sites/${name}/transfer`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+export async function extendSite(name: string, body: ExtendSite): Promise<Site> {
+  return request<Site>(`/sites/${name}/extend`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+export async function updateAuth(name: string, auth: { user: string; pass: string } | null): Promise<Site> {
+  return updateSite(name, { auth });
+}
+
+export async function listSiteUsers(name: string): Promise<SiteUser[]> {
+  return request<SiteUser[]>(`/sites/${name}/users`);
+}
+
+export async function addSiteUser(name: string, user: CreateSiteUser): Promise<SiteUser> {
+  return request<SiteUser>(`/sites/${name}/users`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(user),
+  });
+}
+
+export async function removeSiteUser(name: string, user: string): Promise<{ success: boolean; message?: string }> {
+  return request(`/sites/${name}/users/${encodeURIComponent(user)}`, { method: "DELETE" });
+}
+
 // === Files ===
 export async function listFiles(site: string): Promise<FileInfo[]> {
   return request<FileInfo[]>(`/sites/${site}/files`);
 }
 
+/**
+ * Upload a file as multipart/form-data, streaming it from the blob
+ * (e.g. a Bun.file) instead of reading it into memory first.
+ */
 export async function uploadFile(
   site: string,
-  file: File,
+  file: Blob,
+  filename: string,
   subPath?: string,
-  overwrite?: boolean
+  overwrite?: boolean,
+  deployment?: number
 ): Promise<UploadResult> {
-  const formData = new FormData();
-  formData.append("file", file);
+  const boundary = `----sf${crypto.randomUUID().replace(/-/g, "")}`;
+  const encoder = new TextEncoder();
+  const head = encoder.encode(
+    `--${boundary}\r\n` +
+    `Content-Disposition: form-data; name="file"; filename="${filename.replace(/"/g, "%22")}"\r\n` +
+    `Content-Type: ${file.type || "application/octet-stream"}\r\n\r\n`
+  );
+  const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+  // Read the file one chunk per pull, so reading never runs ahead of the upload
+  const chunks = file.stream()[Symbol.asyncIterator]();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(head);
+    },
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) {
+        controller.enqueue(tail);
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel(reason) {
+      await chunks.return?.(reason);
+    },
+  }, { highWaterMark: 1 });
 
   const params = new URLSearchParams();
   if (subPath) params.set("path", subPath);
   if (overwrite) params.set("overwrite", "true");
+  if (deployment) params.set("deployment", String(deployment));
 
   const query = params.toString() ? `?${params}` : "";
 
   return request<UploadResult>(`/sites/${site}/files${query}`, {
     method: "POST",
-    body: formData,
+    headers: {
+      "Content-Type": `multipart/form-data; boundary=${boundary}`,
+      "Content-Length": String(head.length + file.size + tail.length),
+    },
+    body,
+  });
+}
+
+export async function uploadArchive(
+  site: string,
+  archive: Uint8Array,
+  subPath?: string,
+  overwrite?: boolean,
+  deployment?: number
+): Promise<UploadResult[]> {
+  const params = new URLSearchParams();
+  if (subPath) params.set("path", subPath);
+  if (overwrite) params.set("overwrite", "true");
+  if (deployment) params.set("deployment", String(deployment));
+
+  const query = params.toString() ? `?${params}` : "";
+
+  return request<UploadResult[]>(`/sites/${site}/archive${query}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: archive,
+  });
+}
+
+// === Resumable uploads ===
+export async function createUpload(
+  site: string,
+  path: string,
+  size: number,
+  overwrite?: boolean,
+  deployment?: number
+): Promise<UploadSession> {
+  const body: CreateUpload = { path, size };
+  if (overwrite) body.overwrite = true;
+  const query = deployment ? `?deployment=${deployment}` : "";
+
+  return request<UploadSession>(`/sites/${site}/uploads${query}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+export async function getUpload(site: string, id: string): Promise<UploadSession> {
+  return request<UploadSession>(`/sites/${site}/uploads/${id}`);
+}
+
+export async function appendUpload(site: string, id: string, offset: number, chunk: Uint8Array): Promise<UploadSession> {
+  return request<UploadSession>(`/sites/${site}/uploads/${id}`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/offset+octet-stream",
+      "Upload-Offset": String(offset),
+    },
+    body: chunk,
+  });
+}
+
+export async function finalizeUpload(site: string, id: string): Promise<UploadResult> {
+  return request<UploadResult>(`/sites/${site}/uploads/${id}/finalize`, { method: "POST" });
+}
+
+export async function deleteFile(
+  site: string,
+  path: string,
+  deployment?: number,
+  recursive?: boolean
+): Promise<{ success: boolean; message?: string }> {
+  const params = new URLSearchParams();
+  if (deployment) params.set("deployment", String(deployment));
+  if (recursive) params.set("recursive", "true");
+
+  const query = params.toString() ? `?${params}` : "";
+
+  // Encode slashes so nested paths stay a single route parameter
+  return request(`/sites/${site}/files/${encodeURIComponent(path)}${query}`, { method: "DELETE" });
+}
+
+export async function moveFile(site: string, from: string, to: string, overwrite?: boolean): Promise<FileOperationResult> {
+  const body: FileOperation = { from, to, overwrite };
+  return request<FileOperationResult>(`/sites/${site}/files/move`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+export async function copyFile(site: string, from: string, to: string, overwrite?: boolean): Promise<FileOperationResult> {
+  const body: FileOperation = { from, to, overwrite };
+  return request<FileOperationResult>(`/sites/${site}/files/copy`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+export interface FileMetadata {
+  path: string;
+  size: number;
+  contentType: string | null;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+/**
+ * Download a file. The returned response body is not consumed, so callers
+ * can stream it to disk.
+ */
+export async function downloadFile(site: string, path: string, deployment?: number): Promise<Response> {
+  const query = deployment ? `?deployment=${deployment}` : "";
+  const res = await send(`/sites/${site}/files/${encodeURIComponent(path)}${query}`);
+
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw apiError(res, data);
+  }
+
+  return res;
+}
+
+/**
+ * Fetch a file's metadata without downloading it.
+ */
+export async function getFileInfo(site: string, path: string, deployment?: number): Promise<FileMetadata> {
+  const query = deployment ? `?deployment=${deployment}` : "";
+  const res = await send(`/sites/${site}/files/${encodeURIComponent(path)}${query}`, { method: "HEAD" });
+
+  if (!res.ok) {
+    throw apiError(res, {});
+  }
+
+  return {
+    path,
+    size: parseInt(res.headers.get("Content-Length") || "0"),
+    contentType: res.headers.get("Content-Type"),
+    etag: res.headers.get("ETag"),
+    lastModified: res.headers.get("Last-Modified"),
+  };
+}
+
+export async function syncManifest(site: string, files: ManifestEntry[], deployment?: number): Promise<SyncResult> {
+  const body: SyncRequest = { files };
+  const query = deployment ? `?deployment=${deployment}` : "";
+
+  return request<SyncResult>(`/sites/${site}/sync${query}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+// === Deployments ===
+export async function listDeployments(site: string): Promise<Deployment[]> {
+  return request<Deployment[]>(`/sites/${site}/deployments`);
+}
+
+export async function createDeployment(site: string, copyCurrent?: boolean): Promise<Deployment> {
+  const body: CreateDeployment = {};
+  if (copyCurrent) body.copy_current = true;
+
+  return request<Deployment>(`/sites/${site}/deployments`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+export async function finalizeDeployment(site: string, id: number): Promise<Deployment> {
+  return request<Deployment>(`/sites/${site}/deployments/${id}/finalize`, { method: "POST" });
+}
+
+export async function rollbackDeployment(site: string, id: number): Promise<Deployment> {
+  return request<Deployment>(`/sites/${site}/deployments/${id}/rollback`, { method: "POST" });
+}
+
+export async function deleteDeployment(site: string, id: number): Promise<{ success: boolean; message?: string }> {
+  return request(`/sites/${site}/deployments/${id}`, { method: "DELETE" });
+}
+
+// === Aliases ===
+export async function listAliases(site: string): Promise<Alias[]> {
+  return request<Alias[]>(`/sites/${site}/aliases`);
+}
+
+export async function createAlias(site: string, alias: CreateAlias): Promise<Alias> {
+  return request<Alias>(`/sites/${site}/aliases`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(alias),
+  });
+}
+
+export async function deleteAlias(site: string, name: string): Promise<{ success: boolean; message?: string }> {
+  return request(`/sites/${site}/aliases/${name}`, { method: "DELETE" });
+}
+
+// === Share links ===
+export async function listShareLinks(site: string): Promise<ShareLink[]> {
+  return request<ShareLink[]>(`/sites/${site}/share-links`);
+}
+
+export async function createShareLink(site: string, link: Partial<CreateShareLink>): Promise<ShareLinkSecret> {
+  return request<ShareLinkSecret>(`/sites/${site}/share-links`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(link),
+  });
+}
+
+export async function revokeShareLink(site: string, id: number): Promise<{ success: boolean; message?: string }> {
+  return request(`/sites/${site}/share-links/${id}`, { method: "DELETE" });
+}
+
+// === Custom domains ===
+export async function listDomains(site: string): Promise<Domain[]> {
+  return request<Domain[]>(`/sites/${site}/domains`);
+}
+
+export async function addDomain(site: string, domain: string): Promise<Domain> {
+  const body: CreateDomain = { domain: domain.toLowerCase() };
+  return request<Domain>(`/sites/${site}/domains`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+export async function verifyDomain(site: string, domain: string): Promise<Domain> {
+  return request<Domain>(`/sites/${site}/domains/${domain}/verify`, { method: "POST" });
+}
+
+export async function setPrimaryDomain(site: string, domain: string): Promise<Domain> {
+  return request<Domain>(`/sites/${site}/domains/${domain}/primary`, { method: "POST" });
+}
+
+export async function removeDomain(site: string, domain: string): Promise<{ success: boolean; message?: string }> {
+  return request(`/sites/${site}/domains/${domain}`, { method: "DELETE" });
+}
+
+// === API keys ===
+export async function listKeys(): Promise<ApiKey[]> {
+  return request<ApiKey[]>("/keys");
+}
+
+export async function createKey(key: CreateApiKey): Promise<ApiKeySecret> {
+  return request<ApiKeySecret>("/keys", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(key),
+  });
+}
+
+export async function revokeKey(id: number): Promise<ApiKey> {
+  return request<ApiKey>(`/keys/${id}`, { method: "DELETE" });
+}
+
+export async function rotateKey(id: number): Promise<ApiKeySecret> {
+  return request<ApiKeySecret>(`/keys/${id}/rotate`, { method: "POST" });
+}
+
+// === Webhooks ===
+export async function listWebhooks(): Promise<Webhook[]> {
+  return request<Webhook[]>("/webhooks");
+}
+
+export async function createWebhook(webhook: CreateWebhook): Promise<WebhookSecret> {
+  return request<WebhookSecret>("/webhooks", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(webhook),
   });
 }
 
-export async function deleteFile(site: string, path: string): Promise<{ success: boolean; message?: string }> {
-  return request(`/sites/${site}/files/${path}`, { method: "DELETE" });
+export async function deleteWebhook(id: number): Promise<void> {
+  await request(`/webhooks/${id}`, { method: "DELETE" });
+}
+
+export async function listDeliveries(id: number): Promise<WebhookDelivery[]> {
+  return request<WebhookDelivery[]>(`/webhooks/${id}/deliveries`);
+}
+
+// === Audit log ===
+export async function getAuditLog(filters: {
+  site?: string;
+  actor?: number;
+  since?: string;
+  before?: number;
+  limit?: number;
+}): Promise<AuditPage> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const query = params.toString();
+  return request<AuditPage>(`/audit${query ? `?${query}` : ""}`);
+}
+
+// === Admin ===
+export async function reconcile(fix: boolean): Promise<ReconcileReport> {
+  return request<ReconcileReport>("/admin/reconcile", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ fix }),
+  });
 }
 
 // === Stats ===
@@ -164,3 +581,14 @@ export async function getStats(): Promise<Stats> {
 export async function getSiteStats(site: string): Promise<SiteStats> {
   return request<SiteStats>(`/stats/${site}`);
 }
+
+export async function getTimeseries(
+  site: string,
+  range: { interval?: "hour" | "day"; from?: string; to?: string }
+): Promise<Timeseries> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(range)) {
+    if (value !== undefined) params.set(key, value);
+  }
+  return request<Timeseries>(`/stats/${site}/timeseries?${params}`);
+}
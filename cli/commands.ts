@@ -1,13 +1,43 @@
 import * as client from "./client";
 import { DOMAIN } from "./client";
-import { SITES_HELP, UPLOAD_HELP, FILES_HELP, STATS_HELP, DOCTOR_HELP } from "./help";
+import { createTarGz, type TarFile } from "./archive";
+import type { ApiKey, ApiKeySecret, CreateWebhook, Site, SyncResult, UpdateQuota, UpdateSite } from "../server/schema";
+import {
+  SITES_HELP, UPLOAD_HELP, FILES_HELP, STATS_HELP, DOCTOR_HELP,
+  DEPLOY_HELP, DEPLOYMENTS_HELP, ROLLBACK_HELP, ALIASES_HELP, SHARE_HELP, DOMAINS_HELP, KEYS_HELP, WEBHOOKS_HELP, AUDIT_HELP, ADMIN_HELP
+} from "./help";
 import { statSync, readdirSync } from "fs";
-import { join, basename } from "path";
+import { join, basename, dirname } from "path";
+
+// Directories with more files than this are sent as tar.gz archives
+const ARCHIVE_THRESHOLD = 20;
+// Max uncompressed bytes per archive request
+const ARCHIVE_BATCH_BYTES = 50 * 1024 * 1024;
+
+// Files larger than this use resumable chunked uploads
+const RESUMABLE_THRESHOLD = 8 * 1024 * 1024;
+const CHUNK_SIZE = 5 * 1024 * 1024;
+const MAX_RETRIES = 5;
 
 interface Options {
   json?: boolean;
   overwrite?: boolean;
   remove?: boolean;
+  atomic?: boolean;
+  delete?: boolean;
+  output?: string;
+  recursive?: boolean;
+  deployment?: string;
+  path?: string;
+  ttl?: string;
+  scopes?: string;
+  sites?: string;
+  actor?: string;
+  since?: string;
+  before?: string;
+  events?: string;
+  fix?: boolean;
+  maxUses?: string;
 }
 
 function formatBytes(bytes: number): string {
@@ -22,6 +52,34 @@ function formatDate(iso: string): string {
   return new Date(iso).toLocaleDateString();
 }
 
+const SIZE_UNITS: Record<string, number> = { b: 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 };
+
+/**
+ * Parse a size like "500MB", "1.5G" or "2048" (bytes) into bytes. Units are
+ * binary, so 1MB is 1024 KB as everywhere else in sf.
+ */
+export function parseSize(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(?:([kmgt])i?b?|(b))?$/i);
+  const bytes = match ? Math.round(parseFloat(match[1]) * SIZE_UNITS[(match[2] || match[3] || "b").toLowerCase()]) : 0;
+  if (!bytes) {
+    throw new Error(`Invalid size: ${value}. Use e.g. 500MB or 2GB`);
+  }
+  return bytes;
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+
+/**
+ * Parse a duration like "90s", "30m", "24h", "7d" or "2w" into seconds.
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+)([smhdw])$/);
+  if (!match || parseInt(match[1]) === 0) {
+    throw new Error(`Invalid duration: ${value}. Use e.g. 30m, 24h or 7d`);
+  }
+  return parseInt(match[1]) * DURATION_UNITS[match[2]];
+}
+
 function output(data: any, opts: Options) {
   if (opts.json) {
     console.log(JSON.stringify(data, null, 2));
@@ -44,8 +102,20 @@ export async function sites(args: string[], opts: Options) {
 
     console.log("Sites:\n");
     for (const site of sites) {
-      const auth = site.auth_user ? ` (auth: ${site.auth_user})` : "";
-      console.log(`  ${site.name}.${DOMAIN}${auth}`);
+      const auth = site.auth_users.length > 0 ? ` (auth: ${site.auth_users.join(", ")})` : "";
+      console.log(`  ${site.primary_domain || `${site.name}.${DOMAIN}`}${auth}`);
+      if (site.primary_domain) {
+        console.log(`    Also:    ${site.name}.${DOMAIN}`);
+      }
+      if (site.owner_key_id !== null) {
+        console.log(`    Owner:   key ${site.owner_key_id}`);
+      }
+      const files = site.max_files ? `, max ${site.max_files} files` : "";
+      const state = site.quota_state === "ok" ? "" : ` (${site.quota_state})`;
+      console.log(`    Storage: ${formatBytes(site.used_bytes)} / ${formatBytes(site.quota_bytes)}${files}${state}`);
+      if (site.expires_at) {
+        console.log(`    Expires: ${site.expires_at} UTC`);
+      }
       console.log(`    Created: ${formatDate(site.created_at)}\n`);
     }
     return;
@@ -54,15 +124,18 @@ export async function sites(args: string[], opts: Options) {
   if (action === "create") {
     const name = rest[0];
     if (!name) {
-      console.error("Usage: sf sites create <name>");
+      console.error("Usage: sf sites create <name> [--ttl 7d]");
       process.exit(1);
     }
 
-    const site = await client.createSite(name);
+    const site = await client.createSite(name, undefined, opts.ttl ? parseDuration(opts.ttl) : undefined);
 
     if (opts.json) return output(site, opts);
 
     console.log(`Created site: ${site.name}.${DOMAIN}`);
+    if (site.expires_at) {
+      console.log(`Expires: ${site.expires_at} UTC`);
+    }
     console.log(`\nUpload files with: sf upload <file> ${site.name}`);
     return;
   }
@@ -83,16 +156,78 @@ export async function sites(args: string[], opts: Options) {
   }
 
   if (action === "auth") {
-    const name = rest[0];
+    const [sub, site, user] = rest;
+
+    if (sub === "list") {
+      if (!site) {
+        console.error("Usage: sf sites auth list <name>");
+        process.exit(1);
+      }
+
+      const users = await client.listSiteUsers(site);
+      const found = (await client.listSites()).find(s => s.name === site)!;
+
+      if (opts.json) return output({ users, ip_allow: found.ip_allow, ip_deny: found.ip_deny }, opts);
+
+      if (users.length === 0) {
+        console.log(`${site}.${DOMAIN} is public. Add a user with: sf sites auth add ${site} <user:pass>`);
+      } else {
+        console.log(`Users of ${site}.${DOMAIN}:\n`);
+        for (const u of users) {
+          const changed = u.updated_at !== u.created_at ? `, password changed ${formatDate(u.updated_at)}` : "";
+          console.log(`  ${u.username.padEnd(24)} added ${formatDate(u.created_at)}${changed}`);
+        }
+      }
+      if (found.ip_allow.length > 0 || found.ip_deny.length > 0) console.log("");
+      if (found.ip_allow.length > 0) console.log(`Allowed IPs: ${found.ip_allow.join(", ")}`);
+      if (found.ip_deny.length > 0) console.log(`Denied IPs:  ${found.ip_deny.join(", ")}`);
+      return;
+    }
+
+    if (sub === "add") {
+      if (!site || !user || !user.includes(":")) {
+        console.error("Usage: sf sites auth add <name> <user:pass>");
+        process.exit(1);
+      }
+
+      const { user: username, pass } = parseCredentials(user);
+      const added = await client.addSiteUser(site, { user: username, pass });
+
+      if (opts.json) return output(added, opts);
+
+      if (added.updated_at !== added.created_at) {
+        console.log(`Changed password of ${username} on ${site}.${DOMAIN}`);
+      } else {
+        console.log(`Added ${username} to ${site}.${DOMAIN}`);
+      }
+      return;
+    }
+
+    if (sub === "remove") {
+      if (!site || !user) {
+        console.error("Usage: sf sites auth remove <name> <user>");
+        process.exit(1);
+      }
+
+      const result = await client.removeSiteUser(site, user);
+
+      if (opts.json) return output(result, opts);
+
+      console.log(result.message);
+      return;
+    }
+
+    // sf sites auth <name> <user:pass> | --remove replaces every user
+    const name = sub;
     if (!name) {
       console.error("Usage: sf sites auth <name> <user:pass> | --remove");
       process.exit(1);
     }
 
     if (opts.remove) {
-      const site = await client.updateAuth(name, null);
+      const updated = await client.updateAuth(name, null);
 
-      if (opts.json) return output(site, opts);
+      if (opts.json) return output(updated, opts);
 
       console.log(`Removed auth from ${name}.${DOMAIN}`);
       return;
@@ -104,31 +239,283 @@ export async function sites(args: string[], opts: Options) {
       process.exit(1);
     }
 
-    const [user, ...passParts] = credentials.split(":");
-    const pass = passParts.join(":");
+    const { user: username, pass } = parseCredentials(credentials);
+    const updated = await client.updateAuth(name, { user: username, pass });
+
+    if (opts.json) return output(updated, opts);
+
+    console.log(`Set auth for ${name}.${DOMAIN} (user: ${username})`);
+    return;
+  }
+
+  if (action === "transfer") {
+    const [name, keyId] = rest;
+    if (!name || !keyId || isNaN(parseInt(keyId))) {
+      console.error("Usage: sf sites transfer <name> <key-id>");
+      process.exit(1);
+    }
+
+    const site = await client.transferSite(name, parseInt(keyId));
+
+    if (opts.json) return output(site, opts);
+
+    console.log(`Transferred ${name}.${DOMAIN} to key ${site.owner_key_id}`);
+    return;
+  }
 
-    const site = await client.updateAuth(name, { user, pass });
+  if (action === "extend") {
+    const [name, value] = rest;
+    if (!name || !value) {
+      console.error("Usage: sf sites extend <name> <duration>|never");
+      process.exit(1);
+    }
+
+    const site = await client.extendSite(name, value === "never" ? { expires_at: null } : { by: parseDuration(value) });
 
     if (opts.json) return output(site, opts);
 
-    console.log(`Set auth for ${name}.${DOMAIN} (user: ${user})`);
+    console.log(site.expires_at
+      ? `${name}.${DOMAIN} now expires ${site.expires_at} UTC`
+      : `${name}.${DOMAIN} no longer expires`);
+    return;
+  }
+
+  if (action === "quota") {
+    const [name, ...settings] = rest;
+    if (!name) {
+      console.error("Usage: sf sites quota <name> [<size>|default] [files=<n>|none] [warn=<list>|none|default]");
+      process.exit(1);
+    }
+
+    const body: UpdateQuota = {};
+    for (const setting of settings) {
+      if (setting.startsWith("files=")) {
+        const value = setting.slice("files=".length);
+        body.max_files = value === "none" ? null : parseInt(value);
+        if (Number.isNaN(body.max_files)) throw new Error(`Invalid file limit: ${value}`);
+      } else if (setting.startsWith("warn=")) {
+        const value = setting.slice("warn=".length);
+        if (value === "default") {
+          body.warn_at = null;
+        } else {
+          body.warn_at = value === "none" ? [] : value.split(",").map(v => Number(v.replace(/%$/, "")));
+          if (body.warn_at.some(t => !Number.isInteger(t) || t < 1 || t > 99)) {
+            throw new Error(`Invalid thresholds: ${value}. Use percentages from 1 to 99, e.g. warn=80,95`);
+          }
+        }
+      } else {
+        body.quota_bytes = setting === "default" ? null : parseSize(setting);
+      }
+    }
+
+    const site = settings.length > 0
+      ? await client.updateQuota(name, body)
+      : (await client.listSites()).find(s => s.name === name);
+    if (!site) throw new Error(`Site not found: ${name}`);
+
+    if (opts.json) return output(site, opts);
+
+    console.log(`Storage for ${name}.${DOMAIN}:\n`);
+    console.log(`  Used:      ${formatBytes(site.used_bytes)} / ${formatBytes(site.quota_bytes)}`);
+    console.log(`  Max files: ${site.max_files ?? "no limit"}`);
+    console.log(`  Warn at:   ${site.quota_warn_at.length > 0 ? site.quota_warn_at.map(t => `${t}%`).join(", ") : "never"}`);
+    console.log(`  State:     ${site.quota_state}${site.grace_ends_at ? ` until ${formatDate(site.grace_ends_at)}` : ""}`);
+    return;
+  }
+
+  if (action === "config") {
+    const [name, ...settings] = rest;
+    if (!name) {
+      console.error("Usage: sf sites config <name> [key=value ...]");
+      process.exit(1);
+    }
+
+    let site: Site;
+    if (settings.length === 0) {
+      const found = (await client.listSites()).find(s => s.name === name);
+      if (!found) {
+        console.error(`Error: Site not found: ${name}`);
+        process.exit(1);
+      }
+      site = found;
+    } else {
+      site = await client.updateSite(name, parseSiteConfig(settings));
+    }
+
+    if (opts.json) return output(site, opts);
+
+    console.log(`Config for ${name}.${DOMAIN}:\n`);
+    console.log(`  spa:            ${site.spa_fallback ? "on" : "off"}`);
+    console.log(`  404:            ${site.not_found_page || "-"}`);
+    console.log(`  50x:            ${site.error_page || "-"}`);
+    console.log(`  clean-urls:     ${site.clean_urls ? "on" : "off"}`);
+    console.log(`  trailing-slash: ${site.trailing_slash}`);
+    console.log(`  allow:          ${site.ip_allow.join(",") || "-"}`);
+    console.log(`  deny:           ${site.ip_deny.join(",") || "-"}`);
     return;
   }
 
   console.log(SITES_HELP);
 }
 
+/**
+ * Split "user:pass" (the password may contain colons).
+ */
+function parseCredentials(value: string): { user: string; pass: string } {
+  const [user, ...passParts] = value.split(":");
+  const pass = passParts.join(":");
+  if (!user || /[\s{}"\\]/.test(user)) {
+    throw new Error(`Invalid user name: "${user}". Use no spaces, braces, quotes or backslashes`);
+  }
+  if (pass.length < 8) {
+    throw new Error("Passwords must be at least 8 characters");
+  }
+  return { user, pass };
+}
+
+/**
+ * Parse `sf sites config` settings like "spa=on" or "404=404.html".
+ * "none" clears a page.
+ */
+export function parseSiteConfig(settings: string[]): UpdateSite {
+  const config: UpdateSite = {};
+
+  const toggle = (key: string, value: string) => {
+    if (["on", "true", "yes"].includes(value)) return true;
+    if (["off", "false", "no"].includes(value)) return false;
+    throw new Error(`Invalid value for ${key}: ${value} (use on or off)`);
+  };
+  const page = (value: string) => (value === "none" || value === "" ? null : value);
+  const ips = (value: string) => (value === "none" ? [] : value.split(",").map(v => v.trim()).filter(Boolean));
+
+  for (const setting of settings) {
+    const index = setting.indexOf("=");
+    if (index === -1) throw new Error(`Expected key=value: ${setting}`);
+    const key = setting.slice(0, index);
+    const value = setting.slice(index + 1);
+
+    switch (key) {
+      case "spa":
+        config.spa_fallback = toggle(key, value);
+        break;
+      case "404":
+        config.not_found_page = page(value);
+        break;
+      case "50x":
+        config.error_page = page(value);
+        break;
+      case "clean-urls":
+        config.clean_urls = toggle(key, value);
+        break;
+      case "trailing-slash":
+        if (value !== "auto" && value !== "always" && value !== "never") {
+          throw new Error(`Invalid value for trailing-slash: ${value} (use auto, always or never)`);
+        }
+        config.trailing_slash = value;
+        break;
+      case "allow":
+        config.ip_allow = ips(value);
+        break;
+      case "deny":
+        config.ip_deny = ips(value);
+        break;
+      default:
+        throw new Error(`Unknown setting: ${key} (use spa, 404, 50x, clean-urls, trailing-slash, allow or deny)`);
+    }
+  }
+
+  return config;
+}
+
 // === Upload ===
-async function uploadSingleFile(filePath: string, site: string, subPath: string | undefined, opts: Options) {
+/**
+ * Upload a large file in chunks. After a network error the upload resumes
+ * from the offset the server reports, with exponential backoff.
+ */
+async function uploadResumable(
+  filePath: string,
+  site: string,
+  targetPath: string,
+  overwrite: boolean | undefined,
+  deployment?: number
+) {
   const bunFile = Bun.file(filePath);
-  
+  const upload = await client.createUpload(site, targetPath, bunFile.size, overwrite, deployment);
+
+  let offset = upload.offset;
+  let failures = 0;
+  let resync = false;
+
+  while (true) {
+    try {
+      if (resync) {
+        offset = (await client.getUpload(site, upload.id)).offset;
+        resync = false;
+      }
+      if (offset >= bunFile.size) break;
+
+      const chunk = new Uint8Array(await bunFile.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+      offset = (await client.appendUpload(site, upload.id, offset, chunk)).offset;
+      failures = 0;
+    } catch (e) {
+      if (!(e instanceof client.NetworkError) || ++failures > MAX_RETRIES) throw e;
+
+      const delay = 2 ** (failures - 1);
+      console.error(`${e.message} Retrying in ${delay}s...`);
+      await Bun.sleep(delay * 1000);
+      resync = true;
+    }
+  }
+
+  return client.finalizeUpload(site, upload.id);
+}
+
+// Quota warnings from the latest upload response, shown once at the end
+let quotaWarnings: string[] = [];
+
+function noteQuotaWarnings<T extends { warnings?: string[] }>(result: T): T {
+  quotaWarnings = result.warnings ?? [];
+  return result;
+}
+
+function printQuotaWarnings() {
+  for (const warning of quotaWarnings) {
+    console.error(`Warning: ${warning}`);
+  }
+}
+
+/**
+ * Upload one local file, switching to a resumable upload for large files.
+ */
+async function uploadLocalFile(
+  filePath: string,
+  site: string,
+  subPath: string | undefined,
+  overwrite: boolean | undefined,
+  deployment?: number
+) {
+  const bunFile = Bun.file(filePath);
+
   // Bun.file() uses full path as name (e.g., /tmp/test.html)
   // We need to extract just the filename for the server
   const filename = basename(filePath);
-  const blob = await bunFile.arrayBuffer();
-  const file = new File([blob], filename, { type: bunFile.type });
-  
-  const result = await client.uploadFile(site, file, subPath, opts.overwrite);
+
+  if (bunFile.size > RESUMABLE_THRESHOLD) {
+    const targetPath = subPath ? join(subPath, filename) : filename;
+    return noteQuotaWarnings(await uploadResumable(filePath, site, targetPath, overwrite, deployment));
+  }
+
+  return noteQuotaWarnings(await client.uploadFile(site, bunFile, filename, subPath, overwrite, deployment));
+}
+
+async function uploadSingleFile(
+  filePath: string,
+  site: string,
+  subPath: string | undefined,
+  opts: Options,
+  deployment?: number
+) {
+  const result = await uploadLocalFile(filePath, site, subPath, opts.overwrite, deployment);
 
   if (opts.json) {
     output(result, opts);
@@ -139,7 +526,13 @@ async function uploadSingleFile(filePath: string, site: string, subPath: string
   return result;
 }
 
-async function uploadDirectory(dirPath: string, site: string, basePath: string, opts: Options) {
+async function uploadDirectory(
+  dirPath: string,
+  site: string,
+  basePath: string,
+  opts: Options,
+  deployment?: number
+) {
   const entries = readdirSync(dirPath, { withFileTypes: true });
   const results: any[] = [];
 
@@ -148,15 +541,10 @@ async function uploadDirectory(dirPath: string, site: string, basePath: string,
     const targetPath = basePath ? join(basePath, entry.name) : entry.name;
 
     if (entry.isDirectory()) {
-      results.push(...await uploadDirectory(fullPath, site, targetPath, opts));
+      results.push(...await uploadDirectory(fullPath, site, targetPath, opts, deployment));
     } else {
-      // Bun.file() uses full path as name - extract just the filename
-      const bunFile = Bun.file(fullPath);
-      const blob = await bunFile.arrayBuffer();
-      const file = new File([blob], entry.name, { type: bunFile.type });
-      
       const subDir = basePath || undefined;
-      const result = await client.uploadFile(site, file, subDir, opts.overwrite);
+      const result = await uploadLocalFile(fullPath, site, subDir, opts.overwrite, deployment);
       results.push(result);
 
       if (!opts.json) {
@@ -168,6 +556,80 @@ async function uploadDirectory(dirPath: string, site: string, basePath: string,
   return results;
 }
 
+function listLocalFiles(dirPath: string, base: string = ""): string[] {
+  const files: string[] = [];
+
+  for (const entry of readdirSync(dirPath, { withFileTypes: true })) {
+    const relativePath = base ? `${base}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listLocalFiles(join(dirPath, entry.name), relativePath));
+    } else {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+async function uploadDirectoryArchive(
+  dirPath: string,
+  site: string,
+  basePath: string,
+  files: string[],
+  opts: Options,
+  deployment?: number
+) {
+  const results: any[] = [];
+  let batch: TarFile[] = [];
+  let batchBytes = 0;
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+
+    const archive = createTarGz(batch);
+    const uploaded = await client.uploadArchive(site, archive, basePath || undefined, opts.overwrite, deployment);
+    results.push(...uploaded);
+    if (uploaded.length > 0) noteQuotaWarnings(uploaded[uploaded.length - 1]);
+
+    if (!opts.json) {
+      for (const result of uploaded) {
+        console.log(`Uploaded: ${result.url}`);
+      }
+    }
+
+    batch = [];
+    batchBytes = 0;
+  };
+
+  for (const relativePath of files) {
+    const fullPath = join(dirPath, relativePath);
+
+    // Large files don't belong in an archive batch
+    if (statSync(fullPath).size > RESUMABLE_THRESHOLD) {
+      const result = noteQuotaWarnings(
+        await uploadResumable(fullPath, site, join(basePath, relativePath), opts.overwrite, deployment)
+      );
+      results.push(result);
+      if (!opts.json) {
+        console.log(`Uploaded: ${result.url}`);
+      }
+      continue;
+    }
+
+    const data = new Uint8Array(await Bun.file(fullPath).arrayBuffer());
+
+    if (batchBytes + data.length > ARCHIVE_BATCH_BYTES) {
+      await flush();
+    }
+
+    batch.push({ path: relativePath, data, mtime: statSync(fullPath).mtime });
+    batchBytes += data.length;
+  }
+
+  await flush();
+  return results;
+}
+
 export async function upload(args: string[], opts: Options) {
   const [filePath, site, subPath] = args;
 
@@ -178,34 +640,711 @@ export async function upload(args: string[], opts: Options) {
 
   const stat = statSync(filePath);
 
-  if (stat.isDirectory()) {
-    const results = await uploadDirectory(filePath, site, subPath || "", opts);
-    if (opts.json) {
-      output(results, opts);
+  // Atomic uploads go into a copy of the live content and swap it in at the end,
+  // replacing the copied files they upload again
+  const deployment = opts.atomic ? await client.createDeployment(site, true) : undefined;
+  if (deployment) opts = { ...opts, overwrite: true };
+
+  try {
+    if (stat.isDirectory()) {
+      // Many small files go up as archives to save requests
+      const localFiles = listLocalFiles(filePath);
+      const results = localFiles.length > ARCHIVE_THRESHOLD
+        ? await uploadDirectoryArchive(filePath, site, subPath || "", localFiles, opts, deployment?.id)
+        : await uploadDirectory(filePath, site, subPath || "", opts, deployment?.id);
+      if (opts.json) {
+        output(results, opts);
+      } else {
+        console.log(`\nUploaded ${results.length} files`);
+      }
     } else {
-      console.log(`\nUploaded ${results.length} files`);
+      await uploadSingleFile(filePath, site, subPath, opts, deployment?.id);
+    }
+  } catch (e) {
+    if (deployment) await client.deleteDeployment(site, deployment.id).catch(() => {});
+    throw e;
+  }
+
+  if (deployment) {
+    await client.finalizeDeployment(site, deployment.id);
+    if (!opts.json) {
+      console.log(`Deployment ${deployment.id} is live`);
+    }
+  }
+  printQuotaWarnings();
+}
+
+// === Deploy ===
+async function hashLocalFile(fullPath: string): Promise<string> {
+  const hasher = new Bun.CryptoHasher("sha256");
+  for await (const chunk of Bun.file(fullPath).stream()) {
+    hasher.update(chunk);
+  }
+  return hasher.digest("hex");
+}
+
+export async function deploy(args: string[], opts: Options) {
+  const [dirPath, site] = args;
+
+  if (!dirPath || !site) {
+    console.log(DEPLOY_HELP);
+    process.exit(1);
+  }
+
+  if (!statSync(dirPath).isDirectory()) {
+    console.error(`Not a directory: ${dirPath}`);
+    process.exit(1);
+  }
+
+  const localFiles = listLocalFiles(dirPath);
+  const manifest = [];
+  for (const path of localFiles) {
+    const fullPath = join(dirPath, path);
+    manifest.push({ path, sha256: await hashLocalFile(fullPath), size: statSync(fullPath).size });
+  }
+
+  const deployment = opts.atomic ? await client.createDeployment(site, true) : undefined;
+  const uploadOpts = { ...opts, overwrite: true };
+  let diff: SyncResult;
+
+  try {
+    diff = await client.syncManifest(site, manifest, deployment?.id);
+    const toUpload = [...diff.missing, ...diff.changed];
+
+    if (toUpload.length > ARCHIVE_THRESHOLD) {
+      await uploadDirectoryArchive(dirPath, site, "", toUpload, uploadOpts, deployment?.id);
+    } else {
+      for (const path of toUpload) {
+        const subDir = dirname(path) === "." ? undefined : dirname(path);
+        const result = await uploadLocalFile(join(dirPath, path), site, subDir, true, deployment?.id);
+
+        if (!opts.json) {
+          console.log(`Uploaded: ${result.url}`);
+        }
+      }
+    }
+
+    if (opts.delete) {
+      for (const path of diff.deleted) {
+        await client.deleteFile(site, path, deployment?.id);
+
+        if (!opts.json) {
+          console.log(`Deleted: ${path}`);
+        }
+      }
+    }
+  } catch (e) {
+    if (deployment) await client.deleteDeployment(site, deployment.id).catch(() => {});
+    throw e;
+  }
+
+  if (deployment) {
+    await client.finalizeDeployment(site, deployment.id);
+  }
+
+  const summary = {
+    uploaded: [...diff.missing, ...diff.changed],
+    deleted: opts.delete ? diff.deleted : [],
+    unchanged: diff.unchanged,
+    deployment: deployment?.id ?? null,
+  };
+
+  printQuotaWarnings();
+  if (opts.json) return output(summary, opts);
+
+  console.log(`\nDeployed ${site}.${DOMAIN}: ${summary.uploaded.length} uploaded, ${summary.deleted.length} deleted, ${summary.unchanged} unchanged`);
+  if (!opts.delete && diff.deleted.length > 0) {
+    console.log(`${diff.deleted.length} remote files are not in ${dirPath} (use --delete to remove them)`);
+  }
+  if (deployment) {
+    console.log(`Deployment ${deployment.id} is live`);
+  }
+}
+
+// === Deployments ===
+export async function deployments(args: string[], opts: Options) {
+  const [site, action, id] = args;
+
+  if (!site) {
+    console.log(DEPLOYMENTS_HELP);
+    process.exit(1);
+  }
+
+  if (action === "delete") {
+    if (!id) {
+      console.error("Usage: sf deployments <site> delete <id>");
+      process.exit(1);
+    }
+
+    await client.deleteDeployment(site, parseInt(id));
+
+    if (opts.json) return output({ success: true }, opts);
+
+    console.log(`Deleted deployment ${id}`);
+    return;
+  }
+
+  if (action && action !== "list") {
+    console.log(DEPLOYMENTS_HELP);
+    process.exit(1);
+  }
+
+  const list = await client.listDeployments(site);
+
+  if (opts.json) return output(list, opts);
+
+  if (list.length === 0) {
+    console.log(`No deployments for ${site}. Deploy with: sf upload <dir> ${site} --atomic`);
+    return;
+  }
+
+  console.log(`Deployments of ${site}:\n`);
+  for (const d of list) {
+    const state = d.live ? "live" : d.status;
+    console.log(`  #${String(d.id).padEnd(6)} ${state.padEnd(8)} ${formatBytes(d.size_bytes).padStart(10)}  ${formatDate(d.created_at)}`);
+  }
+}
+
+// === Aliases ===
+export async function aliases(args: string[], opts: Options) {
+  const [site, action, name] = args;
+
+  if (!site) {
+    console.log(ALIASES_HELP);
+    process.exit(1);
+  }
+
+  if (action === "create") {
+    if (!name) {
+      console.error("Usage: sf aliases <site> create <alias> [--deployment <id>] [--path <dir>] [--ttl <duration>]");
+      process.exit(1);
+    }
+
+    const alias = await client.createAlias(site, {
+      name,
+      deployment: opts.deployment ? parseInt(opts.deployment) : undefined,
+      path: opts.path,
+      expires_in: opts.ttl ? parseDuration(opts.ttl) : undefined,
+    });
+
+    if (opts.json) return output(alias, opts);
+
+    console.log(`Created: ${alias.url}`);
+    if (alias.expires_at) {
+      console.log(`Expires: ${alias.expires_at} UTC`);
+    }
+    return;
+  }
+
+  if (action === "delete") {
+    if (!name) {
+      console.error("Usage: sf aliases <site> delete <alias>");
+      process.exit(1);
+    }
+
+    await client.deleteAlias(site, name);
+
+    if (opts.json) return output({ success: true }, opts);
+
+    console.log(`Deleted alias ${name}`);
+    return;
+  }
+
+  if (action && action !== "list") {
+    console.log(ALIASES_HELP);
+    process.exit(1);
+  }
+
+  const list = await client.listAliases(site);
+
+  if (opts.json) return output(list, opts);
+
+  if (list.length === 0) {
+    console.log(`No aliases for ${site}. Create one with: sf aliases ${site} create <alias>`);
+    return;
+  }
+
+  console.log(`Aliases of ${site}:\n`);
+  for (const a of list) {
+    const target = `${a.deployment_id ? `#${a.deployment_id}` : "live"}${a.path ? `:/${a.path}` : ""}`;
+    const expires = a.expires_at ? `expires ${a.expires_at}` : "";
+    console.log(`  ${a.url.padEnd(45)} ${target.padEnd(16)} ${expires}`);
+  }
+}
+
+// === Share links ===
+export async function share(args: string[], opts: Options) {
+  const [site, action, id] = args;
+
+  if (!site) {
+    console.log(SHARE_HELP);
+    process.exit(1);
+  }
+
+  if (action === "revoke") {
+    if (!id || !/^\d+$/.test(id)) {
+      console.error("Usage: sf share <site> revoke <id>");
+      process.exit(1);
+    }
+
+    await client.revokeShareLink(site, parseInt(id));
+
+    if (opts.json) return output({ success: true }, opts);
+
+    console.log(`Revoked share link ${id}`);
+    return;
+  }
+
+  if (action === "list") {
+    const list = await client.listShareLinks(site);
+
+    if (opts.json) return output(list, opts);
+
+    if (list.length === 0) {
+      console.log(`No share links for ${site}. Create one with: sf share ${site} [path] --ttl 24h`);
+      return;
+    }
+
+    console.log(`Share links of ${site}:\n`);
+    for (const link of list) {
+      const uses = `${link.uses}${link.max_uses !== null ? `/${link.max_uses}` : ""} uses`;
+      const status = link.status === "active" ? `expires ${link.expires_at} UTC` : link.status.replace("_", " ");
+      console.log(`  ${String(link.id).padEnd(5)} ${link.path.padEnd(30)} ${uses.padEnd(12)} ${status}`);
+    }
+    return;
+  }
+
+  let maxUses: number | undefined;
+  if (opts.maxUses !== undefined) {
+    maxUses = Number(opts.maxUses);
+    if (!Number.isInteger(maxUses) || maxUses < 1) {
+      throw new Error(`Invalid --max-uses: ${opts.maxUses}. Use a whole number of at least 1`);
+    }
+  }
+
+  const link = await client.createShareLink(site, {
+    path: action,
+    expires_in: parseDuration(opts.ttl || "24h"),
+    max_uses: maxUses,
+  });
+
+  if (opts.json) return output(link, opts);
+
+  console.log(link.url);
+  console.log(`\nOpens ${link.path} until ${link.expires_at} UTC`
+    + (link.max_uses !== null ? `, ${link.max_uses} time${link.max_uses === 1 ? "" : "s"}` : ""));
+  console.log(`Revoke with: sf share ${site} revoke ${link.id}`);
+}
+
+// === Custom domains ===
+export async function domains(args: string[], opts: Options) {
+  const [site, action, domain] = args;
+
+  if (!site) {
+    console.log(DOMAINS_HELP);
+    process.exit(1);
+  }
+
+  if (action === "add") {
+    if (!domain) {
+      console.error("Usage: sf domains <site> add <domain>");
+      process.exit(1);
     }
+
+    const d = await client.addDomain(site, domain);
+
+    if (opts.json) return output(d, opts);
+
+    console.log(`Added ${d.domain} (pending verification)\n`);
+    console.log("Prove ownership with one of:");
+    console.log(`  DNS:  TXT ${d.verification.txt_name} "${d.verification.txt_value}"`);
+    console.log(`  HTTP: ${d.verification.http_url} returning ${d.verification.http_body}`);
+    console.log(`\nThen run: sf domains ${site} verify ${d.domain}`);
+    return;
+  }
+
+  if (action === "verify" || action === "primary") {
+    if (!domain) {
+      console.error(`Usage: sf domains <site> ${action} <domain>`);
+      process.exit(1);
+    }
+
+    const d = action === "verify"
+      ? await client.verifyDomain(site, domain)
+      : await client.setPrimaryDomain(site, domain);
+
+    if (opts.json) return output(d, opts);
+
+    console.log(action === "verify" ? `Verified: https://${d.domain}` : `Primary domain: ${d.domain}`);
+    return;
+  }
+
+  if (action === "remove") {
+    if (!domain) {
+      console.error("Usage: sf domains <site> remove <domain>");
+      process.exit(1);
+    }
+
+    await client.removeDomain(site, domain);
+
+    if (opts.json) return output({ success: true }, opts);
+
+    console.log(`Removed ${domain}`);
+    return;
+  }
+
+  if (action && action !== "list") {
+    console.log(DOMAINS_HELP);
+    process.exit(1);
+  }
+
+  const list = await client.listDomains(site);
+
+  if (opts.json) return output(list, opts);
+
+  if (list.length === 0) {
+    console.log(`No custom domains for ${site}. Add one with: sf domains ${site} add <domain>`);
+    return;
+  }
+
+  console.log(`Domains of ${site}:\n`);
+  for (const d of list) {
+    const state = d.primary ? "primary" : d.verified ? "verified" : "pending";
+    console.log(`  ${d.domain.padEnd(40)} ${state}`);
+  }
+}
+
+// === API keys ===
+function splitList(value: string | undefined): string[] | undefined {
+  const items = (value || "").split(/[\s,]+/).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+function printSecret(key: ApiKeySecret) {
+  console.log(`  API Key: ${key.key}\n`);
+  console.log("Save this key now! It cannot be recovered.");
+}
+
+export async function keys(args: string[], opts: Options) {
+  const [action, arg] = args;
+
+  if (action === "create") {
+    if (!arg) {
+      console.error("Usage: sf keys create <name> --scopes <list> [--sites <list>] [--ttl 90d]");
+      process.exit(1);
+    }
+
+    const scopes = splitList(opts.scopes);
+    if (!scopes) {
+      console.error("Error: --scopes is required, e.g. --scopes sites:read,files:write");
+      process.exit(1);
+    }
+
+    const key = await client.createKey({
+      name: arg,
+      scopes: scopes as ApiKey["scopes"],
+      sites: splitList(opts.sites),
+      expires_in: opts.ttl ? parseDuration(opts.ttl) : undefined,
+    });
+
+    if (opts.json) return output(key, opts);
+
+    console.log(`Created key ${key.id} (${key.name})\n`);
+    printSecret(key);
+    return;
+  }
+
+  if (action === "revoke" || action === "rotate") {
+    const id = parseInt(arg);
+    if (!arg || isNaN(id)) {
+      console.error(`Usage: sf keys ${action} <id>`);
+      process.exit(1);
+    }
+
+    if (action === "revoke") {
+      const key = await client.revokeKey(id);
+      if (opts.json) return output(key, opts);
+      console.log(`Revoked key ${key.id} (${key.name})`);
+      return;
+    }
+
+    const key = await client.rotateKey(id);
+    if (opts.json) return output(key, opts);
+    console.log(`Rotated key ${key.id} (${key.name}). The old key no longer works.\n`);
+    printSecret(key);
+    return;
+  }
+
+  if (action && action !== "list") {
+    console.log(KEYS_HELP);
+    process.exit(1);
+  }
+
+  const list = await client.listKeys();
+
+  if (opts.json) return output(list, opts);
+
+  console.log("API keys:\n");
+  for (const key of list) {
+    const state = key.revoked_at ? "revoked"
+      : key.expires_at && new Date(`${key.expires_at}Z`) <= new Date() ? "expired"
+      : "active";
+    console.log(`  ${String(key.id).padStart(4)}  ${key.name.padEnd(24)} ${state}`);
+    console.log(`        Scopes:    ${key.scopes.join(" ")}`);
+    console.log(`        Sites:     ${key.sites ? key.sites.join(" ") : "all"}`);
+    if (key.expires_at) console.log(`        Expires:   ${key.expires_at} UTC`);
+    console.log(`        Last used: ${key.last_used_at ? `${key.last_used_at} UTC` : "never"}\n`);
+  }
+}
+
+// === Webhooks ===
+export async function webhooks(args: string[], opts: Options) {
+  const [action, arg] = args;
+
+  if (action === "create") {
+    const events = splitList(opts.events);
+    if (!arg || !events) {
+      console.error("Usage: sf webhooks create <url> --events <list> [--sites <list>]");
+      process.exit(1);
+    }
+
+    const hook = await client.createWebhook({
+      url: arg,
+      events: events as CreateWebhook["events"],
+      sites: splitList(opts.sites),
+    });
+
+    if (opts.json) return output(hook, opts);
+
+    console.log(`Created webhook ${hook.id} -> ${hook.url}\n`);
+    console.log(`  Secret: ${hook.secret}\n`);
+    console.log("Verify X-SF-Signature-256 (sha256=HMAC of the body) with this secret. It won't be shown again.");
+    return;
+  }
+
+  if (action === "delete" || action === "deliveries") {
+    const id = parseInt(arg);
+    if (!arg || isNaN(id)) {
+      console.error(`Usage: sf webhooks ${action} <id>`);
+      process.exit(1);
+    }
+
+    if (action === "delete") {
+      await client.deleteWebhook(id);
+      if (opts.json) return output({ success: true }, opts);
+      console.log(`Deleted webhook ${id}`);
+      return;
+    }
+
+    const deliveries = await client.listDeliveries(id);
+    if (opts.json) return output(deliveries, opts);
+
+    if (deliveries.length === 0) {
+      console.log("No deliveries yet.");
+      return;
+    }
+    for (const d of deliveries) {
+      const result = d.status === "delivered" ? `HTTP ${d.response_status}`
+        : d.status === "pending" ? `retry at ${d.next_attempt_at} UTC`
+        : d.error;
+      console.log(`  #${String(d.id).padEnd(6)} ${d.created_at}  ${d.event.padEnd(18)} ${(d.site ?? "").padEnd(16)} ${d.status.padEnd(9)} ${d.attempts}x  ${result ?? ""}`);
+    }
+    return;
+  }
+
+  if (action && action !== "list") {
+    console.log(WEBHOOKS_HELP);
+    process.exit(1);
+  }
+
+  const list = await client.listWebhooks();
+
+  if (opts.json) return output(list, opts);
+
+  if (list.length === 0) {
+    console.log("No webhooks. Create one with: sf webhooks create <url> --events <list>");
+    return;
+  }
+
+  console.log("Webhooks:\n");
+  for (const hook of list) {
+    console.log(`  ${String(hook.id).padStart(4)}  ${hook.url}`);
+    console.log(`        Events: ${hook.events.join(" ")}`);
+    console.log(`        Sites:  ${hook.sites ? hook.sites.join(" ") : "all"}\n`);
+  }
+}
+
+// === Audit log ===
+/**
+ * Turn a --since value into an ISO timestamp. Accepts durations ("7d" means
+ * seven days ago) and anything Date can parse.
+ */
+export function parseSince(value: string, now = Date.now()): string {
+  if (/^\d+[smhdw]$/.test(value.trim())) {
+    return new Date(now - parseDuration(value) * 1000).toISOString();
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid --since: ${value}. Use e.g. 7d or 2024-01-31`);
+  }
+  return date.toISOString();
+}
+
+export async function audit(args: string[], opts: Options) {
+  const [site] = args;
+
+  if (site === "help") {
+    console.log(AUDIT_HELP);
+    return;
+  }
+
+  const page = await client.getAuditLog({
+    site,
+    actor: opts.actor ? parseInt(opts.actor) : undefined,
+    since: opts.since ? parseSince(opts.since) : undefined,
+    before: opts.before ? parseInt(opts.before) : undefined,
+  });
+
+  if (opts.json) return output(page, opts);
+
+  if (page.entries.length === 0) {
+    console.log("No audit entries found.");
+    return;
+  }
+
+  for (const entry of page.entries) {
+    const actor = entry.actor_key_id === null ? "the server"
+      : entry.actor_name ? `${entry.actor_name} (${entry.actor_key_id})` : `key ${entry.actor_key_id}`;
+    const target = [entry.site, entry.target].filter(Boolean).join(" ");
+    console.log(`${entry.timestamp}  ${entry.action.padEnd(20)} ${target}`);
+    console.log(`  by ${actor}${entry.ip ? ` from ${entry.ip}` : ""}`);
+    if (entry.diff) {
+      console.log(`  ${JSON.stringify(entry.diff)}`);
+    }
+  }
+
+  if (page.next_cursor) {
+    console.log(`\nOlder entries: sf audit ${site ? `${site} ` : ""}--before ${page.next_cursor}`);
+  }
+}
+
+export async function admin(args: string[], opts: Options) {
+  const [action] = args;
+
+  if (action !== "fsck") {
+    console.log(ADMIN_HELP);
+    if (action && action !== "help") process.exit(1);
+    return;
+  }
+
+  const report = await client.reconcile(Boolean(opts.fix));
+
+  if (opts.json) return output(report, opts);
+
+  const fixed = (what: string) => (report.fixed ? ` (${what})` : "");
+  for (const { site, recorded, actual } of report.drift) {
+    console.log(`${site}: recorded ${formatBytes(recorded)}, on disk ${formatBytes(actual)}${fixed("corrected")}`);
+  }
+  for (const name of report.orphans) {
+    console.log(`${name}: directory has no site${fixed("moved to .orphaned/")}`);
+  }
+  for (const name of report.missing) {
+    console.log(`${name}: site directory is missing${fixed("recreated")}`);
+  }
+
+  const problems = report.drift.length + report.orphans.length + report.missing.length;
+  if (problems === 0) {
+    console.log(`Checked ${report.sites} sites, no problems found.`);
+  } else if (!report.fixed) {
+    console.log(`\nChecked ${report.sites} sites, ${problems} problems. Repair with: sf admin fsck --fix`);
   } else {
-    await uploadSingleFile(filePath, site, subPath, opts);
+    console.log(`\nChecked ${report.sites} sites, repaired ${problems} problems.`);
+  }
+}
+
+export async function rollback(args: string[], opts: Options) {
+  const [site, id] = args;
+
+  if (!site) {
+    console.log(ROLLBACK_HELP);
+    process.exit(1);
   }
+
+  let targetId = id ? parseInt(id) : undefined;
+
+  // Default to the newest ready deployment older than the live one
+  if (!targetId) {
+    const list = await client.listDeployments(site);
+    const live = list.find(d => d.live);
+    const previous = list.find(d => d.status === "ready" && !d.live && (!live || d.id < live.id));
+    if (!previous) {
+      throw new Error(`No previous deployment to roll back to for ${site}`);
+    }
+    targetId = previous.id;
+  }
+
+  const deployment = await client.rollbackDeployment(site, targetId);
+
+  if (opts.json) return output(deployment, opts);
+
+  console.log(`Rolled back ${site}.${DOMAIN} to deployment ${deployment.id}`);
 }
 
 // === Files ===
 export async function files(args: string[], opts: Options) {
-  const [site, action, filePath] = args;
+  const [site, action, filePath, destPath] = args;
 
   if (!site) {
     console.log(FILES_HELP);
     process.exit(1);
   }
 
-  if (action === "delete") {
+  if (action === "get") {
     if (!filePath) {
-      console.error("Usage: sf files <site> delete <path>");
+      console.error("Usage: sf files <site> get <path> [-o <file>]");
       process.exit(1);
     }
 
-    await client.deleteFile(site, filePath);
+    const res = await client.downloadFile(site, filePath);
+
+    // Without -o the content goes to stdout, so nothing else is printed
+    if (!opts.output) {
+      await Bun.write(Bun.stdout, res);
+      return;
+    }
+
+    const size = await Bun.write(opts.output, res);
+
+    if (opts.json) return output({ path: filePath, output: opts.output, size }, opts);
+
+    console.log(`Saved: ${opts.output} (${formatBytes(size)})`);
+    return;
+  }
+
+  if (action === "mv" || action === "cp") {
+    if (!filePath || !destPath) {
+      console.error(`Usage: sf files <site> ${action} <from> <to> [--overwrite]`);
+      process.exit(1);
+    }
+
+    const result = action === "mv"
+      ? await client.moveFile(site, filePath, destPath, opts.overwrite)
+      : await client.copyFile(site, filePath, destPath, opts.overwrite);
+
+    if (opts.json) return output(result, opts);
+
+    const verb = action === "mv" ? "Moved" : "Copied";
+    console.log(`${verb}: ${result.from} -> ${result.to} (${result.files} files, ${formatBytes(result.size)})`);
+    return;
+  }
+
+  if (action === "delete" || action === "rm") {
+    if (!filePath) {
+      console.error(`Usage: sf files <site> ${action} <path> [-r]`);
+      process.exit(1);
+    }
+
+    await client.deleteFile(site, filePath, undefined, opts.recursive);
 
     if (opts.json) return output({ success: true }, opts);
 
@@ -231,9 +1370,70 @@ export async function files(args: string[], opts: Options) {
 }
 
 // === Stats ===
+/**
+ * Render labelled values as horizontal bars scaled to the largest value.
+ */
+export function renderBarChart(rows: { label: string; value: number }[], width = 40): string[] {
+  const max = Math.max(0, ...rows.map(r => r.value));
+  const labelWidth = Math.max(0, ...rows.map(r => r.label.length));
+  return rows.map(({ label, value }) => {
+    const length = max > 0 ? Math.round((value / max) * width) : 0;
+    const bar = value > 0 && length === 0 ? "▏" : "█".repeat(length);
+    return `${label.padEnd(labelWidth)}  ${bar.padEnd(width)}  ${value}`;
+  });
+}
+
+/**
+ * Bucket size for a traffic chart starting at `from`: hourly for up to two days, daily beyond.
+ */
+export function chartInterval(from: string, now = Date.now()): "hour" | "day" {
+  return now - Date.parse(from) <= 48 * 60 * 60 * 1000 ? "hour" : "day";
+}
+
+async function trafficChart(site: string, opts: Options) {
+  const since = opts.since!.trim();
+  const from = parseSince(since);
+  const interval = chartInterval(from);
+  const ts = await client.getTimeseries(site, { interval, from });
+
+  if (opts.json) return output(ts, opts);
+
+  const period = /^\d+[smhdw]$/.test(since) ? `last ${since}` : `since ${since}`;
+  console.log(`Traffic for ${site}.${DOMAIN}, ${period} by ${interval} (UTC):\n`);
+  const rows = ts.buckets.map(b => ({
+    label: interval === "hour" ? b.time.slice(5, 16) : b.time.slice(0, 10),
+    value: b.requests,
+  }));
+  for (const line of renderBarChart(rows)) {
+    console.log(`  ${line}`);
+  }
+
+  const total = (key: "requests" | "bytes") => ts.buckets.reduce((sum, b) => sum + b[key], 0);
+  const status = (code: "2xx" | "3xx" | "4xx" | "5xx") => ts.buckets.reduce((sum, b) => sum + b.status[code], 0);
+  console.log(`\n  Requests:  ${total("requests")} (${formatBytes(total("bytes"))})`);
+  console.log(`  Status:    2xx ${status("2xx")}  3xx ${status("3xx")}  4xx ${status("4xx")}  5xx ${status("5xx")}`);
+
+  if (ts.top_referrers.length > 0) {
+    console.log(`\n  Top referrers:`);
+    for (const r of ts.top_referrers.slice(0, 5)) {
+      console.log(`    ${r.value.padEnd(40)} ${r.count}`);
+    }
+  }
+  if (ts.top_user_agents.length > 0) {
+    console.log(`\n  Top user agents:`);
+    for (const r of ts.top_user_agents.slice(0, 5)) {
+      console.log(`    ${r.value.slice(0, 40).padEnd(40)} ${r.count}`);
+    }
+  }
+}
+
 export async function stats(args: string[], opts: Options) {
   const [site] = args;
 
+  if (site && opts.since) {
+    return trafficChart(site, opts);
+  }
+
   if (site) {
     const s = await client.getSiteStats(site);
 
@@ -7,16 +7,29 @@ USAGE
   sf <command> [options]
 
 COMMANDS
-  sites     Manage hosted sites (subdomains)
-  upload    Upload files to a site
-  files     List or delete files from a site
-  stats     View access statistics
-  doctor    Diagnose env, API connectivity, and auth
+  sites        Manage hosted sites (subdomains)
+  upload       Upload files to a site
+  deploy       Sync a directory to a site, uploading only changes
+  files        List, download, move or delete files
+  deployments  List or discard deployments of a site
+  rollback     Restore a previous deployment
+  aliases      Preview hostnames for a deployment or directory
+  share        Expiring links to a password-protected site
+  domains      Serve a site on custom domains
+  keys         Create, revoke and rotate API keys (admin)
+  webhooks     Notify URLs about site and upload events
+  audit        Browse the log of changes made through the API (admin)
+  admin        Check storage against the database (admin)
+  stats        View access statistics
+  doctor       Diagnose env, API connectivity, and auth
 
 EXAMPLES
   sf sites create docs              # Create docs.${DOMAIN}
   sf upload ./api.pdf docs          # Upload to docs site
   sf upload ./img.png docs assets/  # Upload to docs/assets/
+  sf upload ./dist docs --atomic    # Publish all files at once
+  sf deploy ./dist docs --delete    # Upload changes, prune removed files
+  sf rollback docs                  # Restore the previous deployment
 
 CONFIG
   SF_API_URL    API endpoint (default: http://localhost:3000)
@@ -32,20 +45,53 @@ USAGE
 
 ACTIONS
   list                    List all sites
-  create <name>           Create new site at <name>.${DOMAIN}
+  create <name> [--ttl <duration>]
+                          Create new site at <name>.${DOMAIN}, deleted
+                          automatically after the duration if given
   delete <name>           Delete site and all its files
-  auth <name> <user:pass> Set basic auth for site
+  auth list <name>        List basic auth users and IP rules
+  auth add <name> <user:pass>
+                          Add a basic auth user, or change their password
+  auth remove <name> <user>
+                          Remove a user (the last one makes the site public)
+  auth <name> <user:pass> Replace all users with this one
   auth <name> --remove    Remove basic auth
+  config <name> [key=value ...]
+                          Show or change serving options
+  extend <name> <duration>|never
+                          Push back an expiring site's deletion, or keep it
+  transfer <name> <key-id>
+                          Give a site to another API key (admin)
+  quota <name> [<size>|default] [files=<n>|none] [warn=<list>|none|default]
+                          Show or change storage quota, file limit and
+                          warning thresholds in percent (admin)
 
 OPTIONS
   --json                  Output as JSON (for scripting)
 
+CONFIG
+  spa=on|off              Serve /index.html for paths with no file (SPAs)
+  404=<page>|none         Page served for 404s, e.g. 404.html
+  50x=<page>|none         Page served for server errors
+  clean-urls=on|off       Serve /about from about.html
+  trailing-slash=auto|always|never
+  allow=<cidr,...>|none   Only let these addresses in (others get 403)
+  deny=<cidr,...>|none    Addresses that get 403
+
 EXAMPLES
   sf sites list
   sf sites create myproject
+  sf sites create pr-42-demo --ttl 3d
+  sf sites extend pr-42-demo 7d
   sf sites delete oldsite
   sf sites auth private admin:secret123
+  sf sites auth add private alice:correct-horse
+  sf sites auth remove private alice
   sf sites auth private --remove
+  sf sites config private allow=10.0.0.0/8,203.0.113.7
+  sf sites config app spa=on 404=404.html
+  sf sites quota client-docs 500MB files=2000
+  sf sites quota client-docs warn=75,90
 
 TAGS: sites, subdomains, hosting
 `.trim();
@@ -63,51 +109,307 @@ ARGUMENTS
 
 OPTIONS
   --overwrite    Replace existing files (default: error if exists)
+  --atomic       Upload into a new deployment and publish it at once
   --json         Output result as JSON
 
 EXAMPLES
   sf upload index.html mysite           # Upload to root
   sf upload style.css mysite css/       # Upload to css/
   sf upload ./dist/ mysite              # Upload entire directory
+  sf upload ./dist/ mysite --atomic     # Visitors never see a partial upload
 
 TAGS: upload, files, hosting
 `.trim();
 
 export const FILES_HELP = `
-List or delete files from a site
+List, download, move, copy or delete files of a site
 
 USAGE
   sf files <site> [action] [path]
 
 ACTIONS
   list              List all files (default)
-  delete <path>     Delete a specific file
+  get <path>        Download a file (to stdout unless -o is given)
+  mv <from> <to>    Move or rename a file or directory
+  cp <from> <to>    Copy a file or directory
+  rm <path>         Delete a file (alias: delete)
 
 OPTIONS
+  -o, --output <f>  Write the downloaded file to <f>
+  -r, --recursive   Delete a directory and everything in it
+  --overwrite       Replace the destination of mv/cp if it exists
   --json            Output as JSON
 
 EXAMPLES
   sf files mysite                       # List all files
+  sf files mysite get index.html        # Print a file
+  sf files mysite get logo.png -o a.png # Save a file
+  sf files mysite mv old.html new.html  # Rename a file
+  sf files mysite cp docs docs-v1       # Copy a directory
+  sf files mysite rm -r docs-v1         # Delete a directory
   sf files mysite delete old.txt        # Delete a file
 
-TAGS: files, list, delete
+TAGS: files, list, get, download, move, rename, copy, delete
+`.trim();
+
+export const DEPLOY_HELP = `
+Sync a local directory to a site, uploading only what changed
+
+USAGE
+  sf deploy <dir> <site> [options]
+
+ARGUMENTS
+  dir     Local directory to deploy
+  site    Target site name (without .${DOMAIN})
+
+OPTIONS
+  --delete       Delete remote files that no longer exist locally
+  --atomic       Deploy into a new deployment and publish it at once
+  --json         Output summary as JSON
+
+Files are compared by SHA-256; unchanged files are never re-uploaded.
+
+EXAMPLES
+  sf deploy ./dist mysite               # Upload new and changed files
+  sf deploy ./dist mysite --delete      # Mirror ./dist exactly
+  sf deploy ./dist mysite --atomic      # Visitors never see a partial deploy
+
+TAGS: deploy, sync, upload
+`.trim();
+
+export const DEPLOYMENTS_HELP = `
+List or discard deployments of a site
+
+USAGE
+  sf deployments <site> [action] [id]
+
+ACTIONS
+  list              List deployments, newest first (default)
+  delete <id>       Discard a deployment that is not live
+
+OPTIONS
+  --json            Output as JSON
+
+EXAMPLES
+  sf deployments mysite                 # List deployments
+  sf deployments mysite delete 3        # Discard deployment 3
+
+TAGS: deployments, releases
+`.trim();
+
+export const ALIASES_HELP = `
+Serve a deployment or directory of a site on an extra hostname
+
+USAGE
+  sf aliases <site> [action] [alias]
+
+ACTIONS
+  list              List aliases (default)
+  create <alias>    Create <alias>.${DOMAIN}
+  delete <alias>    Remove an alias
+
+OPTIONS
+  --deployment <id> Serve this deployment instead of the live site
+  --path <dir>      Serve this directory as the alias root
+  --ttl <duration>  Remove the alias after e.g. 30m, 24h or 7d
+  --json            Output as JSON
+
+Aliases inherit the site's basic auth.
+
+EXAMPLES
+  sf aliases docs create pr-42--docs --deployment 7 --ttl 7d
+  sf aliases docs create v1--docs --path v1
+  sf aliases docs delete pr-42--docs
+
+TAGS: aliases, preview, subdomains
+`.trim();
+
+export const SHARE_HELP = `
+Share a password-protected site through expiring links
+
+USAGE
+  sf share <site> [path] [options]
+  sf share <site> list
+  sf share <site> revoke <id>
+
+Creates a link that opens <path> (default: the whole site) and everything
+under it without the site's password, until it expires or is revoked.
+
+OPTIONS
+  --ttl <duration>  Link lifetime, e.g. 30m, 24h or 7d (default: 24h)
+  --max-uses <n>    Times the link can be opened (default: unlimited)
+  --json            Output as JSON
+
+The URL is shown only once. Pages opened through a link can load their own
+assets; only opening the link counts as a use.
+
+EXAMPLES
+  sf share docs --ttl 7d
+  sf share docs /reports/q3/ --ttl 24h --max-uses 1
+  sf share docs revoke 4
+
+TAGS: share, links, auth, expiry
+`.trim();
+
+export const DOMAINS_HELP = `
+Serve a site on custom domains
+
+USAGE
+  sf domains <site> [action] [domain]
+
+ACTIONS
+  list              List domains (default)
+  add <domain>      Add a domain and print how to verify it
+  verify <domain>   Check the TXT record or well-known file, then serve it
+  primary <domain>  Use a verified domain for the site's URLs
+  remove <domain>   Stop serving a domain
+
+OPTIONS
+  --json            Output as JSON
+
+Point the domain's DNS (A/AAAA or CNAME) at this server as well.
+The first verified domain becomes the primary one.
+
+EXAMPLES
+  sf domains docs add docs.example.com
+  sf domains docs verify docs.example.com
+  sf domains docs remove docs.example.com
+
+TAGS: domains, custom domain, dns
+`.trim();
+
+export const KEYS_HELP = `
+Manage API keys (requires an admin key)
+
+USAGE
+  sf keys [action] [options]
+
+ACTIONS
+  list              List keys (default)
+  create <name>     Create a key and print it once
+  revoke <id>       Stop a key from working
+  rotate <id>       Replace a key's secret, keeping its scopes
+
+OPTIONS
+  --scopes <list>   Scopes for create: sites:read, sites:write, files:write,
+                    stats:read, admin
+  --sites <list>    Limit the key to these sites
+  --ttl <duration>  Expire the key after e.g. 90d
+  --json            Output as JSON
+
+EXAMPLES
+  sf keys create ci-docs --scopes sites:read,files:write --sites docs --ttl 90d
+  sf keys rotate 3
+  sf keys revoke 3
+
+TAGS: keys, api keys, tokens, auth
+`.trim();
+
+export const WEBHOOKS_HELP = `
+Send site and upload events to a URL
+
+USAGE
+  sf webhooks [action] [options]
+
+ACTIONS
+  list                List webhooks (default)
+  create <url>        Create a webhook and print its signing secret once
+  delete <id>         Delete a webhook
+  deliveries <id>     Show recent deliveries and their status
+
+OPTIONS
+  --events <list>     Events for create: site.created, site.deleted,
+                      site.auth_changed, upload.completed, or * for all
+  --sites <list>      Only events for these sites
+  --json              Output as JSON
+
+EXAMPLES
+  sf webhooks create https://ci.example.com/hook --events upload.completed --sites docs
+  sf webhooks deliveries 2
+
+TAGS: webhooks, events, notifications, integrations
+`.trim();
+
+export const AUDIT_HELP = `
+Browse the audit log of changes made through the API (requires an admin key)
+
+USAGE
+  sf audit [site] [options]
+
+OPTIONS
+  --actor <key-id>     Only changes made by this key
+  --since <when>       Only changes after e.g. 7d, 24h or 2024-01-31
+  --before <id>        Older entries (printed at the end of each page)
+  --json               Output as JSON
+
+EXAMPLES
+  sf audit                          # Latest changes
+  sf audit docs --since 7d          # Changes to docs this week
+  sf audit --actor 3                # Everything key 3 did
+
+TAGS: audit, history, security
+`.trim();
+
+export const ADMIN_HELP = `
+Server maintenance (requires an admin key)
+
+USAGE
+  sf admin <command> [options]
+
+COMMANDS
+  fsck [--fix]         Compare recorded storage use and site directories
+                       with the disk: usage drift, directories with no site,
+                       sites with no directory. --fix corrects usage, moves
+                       orphan directories to .orphaned/ and recreates missing ones
+
+OPTIONS
+  --fix                Repair what was found
+  --json               Output as JSON
+
+EXAMPLES
+  sf admin fsck                     # Report only
+  sf admin fsck --fix               # Report and repair
+
+TAGS: admin, fsck, storage, quota
+`.trim();
+
+export const ROLLBACK_HELP = `
+Restore a previous deployment
+
+USAGE
+  sf rollback <site> [id]
+
+ARGUMENTS
+  site    Site name (without .${DOMAIN})
+  id      Deployment to restore (default: the one before the live one)
+
+OPTIONS
+  --json            Output as JSON
+
+EXAMPLES
+  sf rollback mysite                    # Step back one deployment
+  sf rollback mysite 3                  # Restore deployment 3
+
+TAGS: deployments, rollback, releases
 `.trim();
 
 export const STATS_HELP = `
 View access statistics
 
 USAGE
-  sf stats [site]
+  sf stats [site] [--since <duration>]
 
 ARGUMENTS
   site    Optional site name for site-specific stats
 
 OPTIONS
-  --json            Output as JSON
+  --since <duration>  Chart requests per hour (up to 48h) or day, e.g. 24h, 7d, 30d
+  --json              Output as JSON
 
 EXAMPLES
   sf stats                              # Global stats
   sf stats mysite                       # Stats for mysite
+  sf stats mysite --since 7d            # Daily requests, status codes, top referrers
 
 TAGS: stats, analytics, monitoring
 `.trim();
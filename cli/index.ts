@@ -1,5 +1,7 @@
 #!/usr/bin/env bun
-import { sites, upload, files, stats, doctor } from "./commands";
+import {
+  sites, upload, files, stats, doctor, deploy, deployments, rollback, aliases, domains, keys, webhooks, share, audit, admin
+} from "./commands";
 import { MAIN_HELP } from "./help";
 import { validateConfig } from "./client";
 
@@ -7,19 +9,65 @@ interface Options {
   json?: boolean;
   overwrite?: boolean;
   remove?: boolean;
+  atomic?: boolean;
+  delete?: boolean;
+  output?: string;
+  recursive?: boolean;
+  deployment?: string;
+  path?: string;
+  ttl?: string;
+  scopes?: string;
+  sites?: string;
+  actor?: string;
+  since?: string;
+  before?: string;
+  events?: string;
+  fix?: boolean;
+  maxUses?: string;
 }
 
 function parseArgs(argv: string[]): { command: string; args: string[]; opts: Options } {
   const opts: Options = {};
   const positional: string[] = [];
 
-  for (const arg of argv) {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
     if (arg === "--json") {
       opts.json = true;
     } else if (arg === "--overwrite") {
       opts.overwrite = true;
     } else if (arg === "--remove") {
       opts.remove = true;
+    } else if (arg === "--atomic") {
+      opts.atomic = true;
+    } else if (arg === "--delete") {
+      opts.delete = true;
+    } else if (arg === "--fix") {
+      opts.fix = true;
+    } else if (arg === "-r" || arg === "--recursive") {
+      opts.recursive = true;
+    } else if (arg === "-o" || arg === "--output") {
+      opts.output = argv[++i];
+    } else if (arg === "--deployment") {
+      opts.deployment = argv[++i];
+    } else if (arg === "--path") {
+      opts.path = argv[++i];
+    } else if (arg === "--ttl") {
+      opts.ttl = argv[++i];
+    } else if (arg === "--scopes") {
+      opts.scopes = argv[++i];
+    } else if (arg === "--sites") {
+      opts.sites = argv[++i];
+    } else if (arg === "--actor") {
+      opts.actor = argv[++i];
+    } else if (arg === "--since") {
+      opts.since = argv[++i];
+    } else if (arg === "--before") {
+      opts.before = argv[++i];
+    } else if (arg === "--events") {
+      opts.events = argv[++i];
+    } else if (arg === "--max-uses") {
+      opts.maxUses = argv[++i];
     } else if (!arg.startsWith("-")) {
       positional.push(arg);
     }
@@ -35,6 +83,16 @@ const commands: Record<string, (args: string[], opts: Options) => Promise<void>>
   files,
   stats,
   doctor,
+  deploy,
+  deployments,
+  rollback,
+  aliases,
+  domains,
+  keys,
+  webhooks,
+  share,
+  audit,
+  admin,
 };
 
 export async function run(argv: string[]) {
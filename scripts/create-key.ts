@@ -2,38 +2,54 @@
 /**
  * Script to generate API keys for the Static Files API.
  * 
- * Usage: bun run scripts/create-key.ts "key-name"
+ * Usage: bun run scripts/create-key.ts "key-name" [--scopes <list>] [--sites <list>]
+ * 
+ * Without --scopes the key gets the `admin` scope (full access). With --sites
+ * it can only access the listed sites.
  * 
  * The key is displayed once and cannot be recovered. Store it securely.
  */
 
-import { createHash, randomBytes } from "crypto";
 import { Database } from "bun:sqlite";
 import { mkdirSync } from "fs";
 import { dirname } from "path";
+import { SCOPES, parseScopes, parseSites, generateApiKey, hashApiKey } from "../server/middleware/auth";
 
 const DB_PATH = process.env.SF_DB_PATH || "./data/static-files.db";
 
-function generateApiKey(): string {
-  const bytes = randomBytes(24);
-  return `sk_${bytes.toString("base64url")}`;
-}
-
-function hashKey(key: string): string {
-  return createHash("sha256").update(key).digest("hex");
+function getFlag(args: string[], flag: string): string | null {
+  const index = args.indexOf(flag);
+  return index === -1 ? null : args[index + 1] ?? "";
 }
 
 async function main() {
-  const name = process.argv[2];
+  const args = process.argv.slice(2);
+  const name = args[0];
   
-  if (!name) {
-    console.error("Usage: bun run scripts/create-key.ts <key-name>");
+  if (!name || name.startsWith("--")) {
+    console.error("Usage: bun run scripts/create-key.ts <key-name> [--scopes <list>] [--sites <list>]");
+    console.error("");
+    console.error(`Scopes: ${SCOPES.join(", ")} (default: admin)`);
     console.error("");
-    console.error("Example:");
+    console.error("Examples:");
     console.error("  bun run scripts/create-key.ts my-app");
+    console.error("  bun run scripts/create-key.ts ci-docs --scopes sites:read,files:write --sites docs");
     process.exit(1);
   }
 
+  let scopes: string[];
+  try {
+    scopes = parseScopes(getFlag(args, "--scopes") ?? "admin");
+  } catch (e: any) {
+    console.error(`Error: ${e.message}`);
+    process.exit(1);
+  }
+  if (scopes.length === 0) {
+    console.error("Error: --scopes needs at least one scope");
+    process.exit(1);
+  }
+  const sites = parseSites(getFlag(args, "--sites"));
+
   // Ensure data directory exists
   mkdirSync(dirname(DB_PATH), { recursive: true });
   
@@ -45,20 +61,32 @@ async function main() {
       id INTEGER PRIMARY KEY,
       key_hash TEXT UNIQUE NOT NULL,
       name TEXT NOT NULL,
+      scopes TEXT NOT NULL DEFAULT 'admin',
+      sites TEXT,
       created_at TEXT DEFAULT CURRENT_TIMESTAMP
     )
   `);
+  for (const column of [
+    "scopes TEXT NOT NULL DEFAULT 'admin'", "sites TEXT",
+    "expires_at TEXT", "last_used_at TEXT", "revoked_at TEXT",
+  ]) {
+    try {
+      db.run(`ALTER TABLE api_keys ADD COLUMN ${column}`);
+    } catch (e) {
+      // Column already exists, ignore
+    }
+  }
 
   // Generate key
   const key = generateApiKey();
-  const hash = hashKey(key);
+  const hash = hashApiKey(key);
 
   // Insert into DB
   try {
     const stmt = db.prepare(
-      "INSERT INTO api_keys (key_hash, name) VALUES (?, ?) RETURNING id, name, created_at"
+      "INSERT INTO api_keys (key_hash, name, scopes, sites) VALUES (?, ?, ?, ?) RETURNING id, name, created_at"
     );
-    const result = stmt.get(hash, name) as { id: number; name: string; created_at: string };
+    const result = stmt.get(hash, name, scopes.join(" "), sites?.join(" ") ?? null) as { id: number; name: string; created_at: string };
 
     console.log("");
     console.log("✓ API key created successfully!");
@@ -66,6 +94,8 @@ async function main() {
     console.log("  Name:", result.name);
     console.log("  ID:", result.id);
     console.log("  Created:", result.created_at);
+    console.log("  Scopes:", scopes.join(" "));
+    console.log("  Sites:", sites ? sites.join(" ") : "all");
     console.log("");
     console.log("  API Key:", key);
     console.log("");
@@ -15,6 +15,8 @@
 import { Database } from "bun:sqlite";
 import { mkdirSync, writeFileSync, existsSync, readFileSync } from "fs";
 import { dirname } from "path";
+import { compileRules, loadSiteRules, RULE_FILES, type SiteRules } from "../server/rules";
+import { TOKEN_PARAM, TOKEN_COOKIE, VERIFY_PATH } from "../server/share-links";
 
 // Config
 const DB_PATH = process.env.SF_DB_PATH || "/var/lib/kleo-static-files/data/static-files.db";
@@ -23,59 +25,250 @@ const CADDY_CONFIG = process.env.SF_CADDY_CONFIG || "/etc/caddy/Caddyfile";
 const CADDY_ADMIN = process.env.CADDY_ADMIN_URL || "http://localhost:2019";
 const DOMAIN = process.env.SF_DOMAIN || "498as.com";
 const BIND_IPS = process.env.SF_BIND_IPS || "116.203.74.64 2a01:4f8:1c1b:8985::1";
+// Where Caddy reaches the API to check share links
+const API_UPSTREAM = process.env.SF_API_UPSTREAM || `localhost:${process.env.SF_PORT || "3000"}`;
 
-interface Site {
+/**
+ * Serving options from the sites row. Omitted ones use Caddy's defaults.
+ */
+interface SiteOptions {
+  ip_allow?: string | null;  // Space-separated CIDR ranges
+  ip_deny?: string | null;
+  spa_fallback?: number | boolean;
+  not_found_page?: string | null;
+  error_page?: string | null;
+  clean_urls?: number | boolean;
+  trailing_slash?: string;  // auto | always | never
+}
+
+interface BasicAuthUser {
+  username: string;
+  password_hash: string;
+}
+
+interface Site extends SiteOptions {
   name: string;
   path: string;
-  auth_user: string | null;
-  auth_hash: string | null;
+  users?: BasicAuthUser[];
+  domains?: string[];  // Verified custom domains
+  rules?: SiteRules;   // From _redirects / _headers in the site root
 }
 
-function generateCaddyConfig(sites: Site[]): string {
-  const lines: string[] = [
-    "# Auto-generated by kleo-static-files",
-    "# Do not edit manually - changes will be overwritten",
-    `# Generated: ${new Date().toISOString()}`,
-    "",
+/**
+ * An extra hostname serving a deployment or directory of a site.
+ * Auth and serving options come from the parent site.
+ */
+interface Alias extends SiteOptions {
+  name: string;
+  site: string;
+  root: string;
+  users?: BasicAuthUser[];
+  rules?: SiteRules;
+}
+
+/**
+ * Redirects and try_files for SPA fallback, clean URLs and trailing slashes.
+ * Wrapped in a route that follows the rules route, so _redirects still sees
+ * the original path.
+ */
+function urlHandling(options: SiteOptions): string[] {
+  const lines: string[] = [];
+  const files = ["{path}"];
+
+  if (options.trailing_slash === "never") {
+    lines.push("@slash path_regexp slash ^(.+)/$");
+    lines.push("redir @slash {re.slash.1} 308");
+    files.push("{path}/index.html");
+  } else {
+    if (options.trailing_slash === "always") {
+      lines.push("@noslash path_regexp ^.*/[^/.]+$");
+      lines.push("redir @noslash {path}/ 308");
+    }
+    // Keep directories ahead of the SPA fallback
+    files.push("{path}/");
+  }
+
+  if (options.clean_urls) {
+    lines.push("@html {");
+    lines.push("    path_regexp html ^(.+)\\.html$");
+    lines.push("    not path */index.html");
+    lines.push("}");
+    lines.push("redir @html {re.html.1} 308");
+    files.push("{path}.html");
+  }
+
+  if (options.spa_fallback) files.push("/index.html");
+
+  if (options.spa_fallback || options.clean_urls || options.trailing_slash === "never") {
+    lines.push(`try_files ${files.join(" ")}`);
+  }
+
+  if (lines.length === 0) return [];
+  return ["route {", ...lines.map(l => `    ${l}`), "}"];
+}
+
+function errorPage(status: string, root: string, page: string): string[] {
+  return [
+    `handle_errors ${status} {`,
+    `    root * ${root}`,
+    `    rewrite * ${page}`,
+    "    file_server",
+    "}",
   ];
+}
 
-  if (sites.length === 0) {
-    lines.push("# No sites configured");
-    return lines.join("\n");
+/**
+ * Share links for a protected site: requests with a token (in the query, or
+ * the cookie set when the link is opened) are checked by the API instead of
+ * basic auth, which only applies to @password.
+ */
+function shareLinkAuth(): string[] {
+  const query = `{query.${TOKEN_PARAM}}`;
+  const cookie = `{cookie.${TOKEN_COOKIE}}`;
+  return [
+    `@share_link expression \`${query} != "" || ${cookie} != ""\``,
+    `@password expression \`${query} == "" && ${cookie} == ""\``,
+    `@share_link_opened query ${TOKEN_PARAM}=*`,
+    `header @share_link_opened Set-Cookie "${TOKEN_COOKIE}=${query}; Path=/; HttpOnly; Secure; SameSite=Lax"`,
+    `forward_auth @share_link ${API_UPSTREAM} {`,
+    `    uri ${VERIFY_PATH}`,
+    "}",
+  ];
+}
+
+/**
+ * 403 for denied addresses and, with an allow list, everyone else. Each
+ * check is its own handle block ahead of the one serving the site, so it
+ * runs before basic auth and redirects.
+ */
+function ipRules(entry: SiteOptions): string[] {
+  const lines: string[] = [];
+  if (entry.ip_deny) {
+    lines.push(`@ip_denied remote_ip ${entry.ip_deny}`);
+    lines.push("handle @ip_denied {", "    respond 403", "}");
+  }
+  if (entry.ip_allow) {
+    lines.push(`@ip_not_allowed not remote_ip ${entry.ip_allow}`);
+    lines.push("handle @ip_not_allowed {", "    respond 403", "}");
   }
+  return lines;
+}
 
-  for (const site of sites) {
-    lines.push(`${site.name}.${DOMAIN} {`);
-    lines.push(`    bind ${BIND_IPS}`);
+/**
+ * Basic auth, rules, URL handling and the file server, in the order Caddy
+ * runs them; the part of a site block that IP rules sit in front of.
+ */
+function serveSite(root: string, entry: Site | Alias): string[] {
+  const lines: string[] = [];
+
+  // Basic auth if configured, unless the request has a share link
+  if (entry.users && entry.users.length > 0) {
+    lines.push(...shareLinkAuth());
+    lines.push("basic_auth @password {");
+    lines.push(...entry.users.map(user => `    ${user.username} ${user.password_hash}`));
+    lines.push("}");
     lines.push("");
+  }
 
-    // Basic auth if configured
-    if (site.auth_user && site.auth_hash) {
-      lines.push("    basic_auth {");
-      lines.push(`        ${site.auth_user} ${site.auth_hash}`);
-      lines.push("    }");
+  // Redirects, rewrites and headers
+  if (entry.rules) {
+    const compiled = compileRules(entry.rules);
+    if (compiled.length > 0) {
+      lines.push(...compiled);
       lines.push("");
     }
+  }
 
-    // File server
-    lines.push(`    root * ${site.path}`);
-    lines.push("    file_server {");
-    lines.push("        index index.html");
-    lines.push("    }");
+  // SPA fallback, clean URLs and trailing slashes
+  const routing = urlHandling(entry);
+  if (routing.length > 0) {
+    lines.push(...routing);
     lines.push("");
+  }
+
+  // File server (rule files are config, not content)
+  lines.push(`root * ${root}`);
+  lines.push("file_server {");
+  lines.push("    index index.html");
+  lines.push(`    hide ${RULE_FILES.join(" ")}`);
+  if (entry.trailing_slash === "never") {
+    lines.push("    disable_canonical_uris");
+  }
+  lines.push("}");
+
+  return lines;
+}
+
+function indent(lines: string[], prefix: string): string[] {
+  return lines.map(l => (l ? `${prefix}${l}` : ""));
+}
+
+function siteBlock(hosts: string[], root: string, entry: Site | Alias): string[] {
+  const lines: string[] = [];
+
+  lines.push(`${hosts.join(", ")} {`);
+  lines.push(`    bind ${BIND_IPS}`);
+  lines.push("");
 
-    // Logging
-    lines.push("    log {");
-    lines.push("        output file /var/log/caddy/sites.log {");
-    lines.push("            roll_size 10mb");
-    lines.push("            roll_keep 5");
-    lines.push("        }");
+  const blocked = ipRules(entry);
+  if (blocked.length > 0) {
+    lines.push(...indent(blocked, "    "));
+    lines.push("");
+    lines.push("    handle {");
+    lines.push(...indent(serveSite(root, entry), "        "));
     lines.push("    }");
+  } else {
+    lines.push(...indent(serveSite(root, entry), "    "));
+  }
+  lines.push("");
 
-    lines.push("}");
+  // Custom error pages
+  if (entry.not_found_page) {
+    lines.push(...errorPage("404", root, entry.not_found_page).map(l => `    ${l}`));
+    lines.push("");
+  }
+  if (entry.error_page) {
+    lines.push(...errorPage("5xx", root, entry.error_page).map(l => `    ${l}`));
     lines.push("");
   }
 
+  // Logging
+  lines.push("    log {");
+  lines.push("        output file /var/log/caddy/sites.log {");
+  lines.push("            roll_size 10mb");
+  lines.push("            roll_keep 5");
+  lines.push("        }");
+  lines.push("    }");
+
+  lines.push("}");
+  lines.push("");
+
+  return lines;
+}
+
+export function generateCaddyConfig(sites: Site[], aliases: Alias[] = []): string {
+  const lines: string[] = [
+    "# Auto-generated by kleo-static-files",
+    "# Do not edit manually - changes will be overwritten",
+    `# Generated: ${new Date().toISOString()}`,
+    "",
+  ];
+
+  if (sites.length === 0) {
+    lines.push("# No sites configured");
+    return lines.join("\n");
+  }
+
+  for (const site of sites) {
+    const hosts = [`${site.name}.${DOMAIN}`, ...(site.domains || [])];
+    lines.push(...siteBlock(hosts, site.path, site));
+  }
+
+  for (const alias of aliases) {
+    lines.push(`# Alias of ${alias.site}`);
+    lines.push(...siteBlock([`${alias.name}.${DOMAIN}`], alias.root, alias));
+  }
+
   return lines.join("\n");
 }
 
@@ -126,14 +319,56 @@ async function main() {
   // Read sites from DB
   const db = new Database(DB_PATH, { readonly: true });
   const sites = db.query<Site, []>(
-    "SELECT name, path, auth_user, auth_hash FROM sites"
+    `SELECT name, path, ip_allow, ip_deny,
+      spa_fallback, not_found_page, error_page, clean_urls, trailing_slash
+    FROM sites`
   ).all();
+  const aliases = db.query<Alias, []>(`
+    SELECT a.name, s.name as site, a.root, s.ip_allow, s.ip_deny,
+      s.spa_fallback, s.not_found_page, s.error_page, s.clean_urls, s.trailing_slash
+    FROM site_aliases a
+    JOIN sites s ON s.id = a.site_id
+    WHERE a.expires_at IS NULL OR a.expires_at > datetime('now')
+  `).all();
+  const domains = db.query<{ site: string; domain: string }, []>(`
+    SELECT s.name as site, d.domain
+    FROM site_domains d
+    JOIN sites s ON s.id = d.site_id
+    WHERE d.verified_at IS NOT NULL
+    ORDER BY d.is_primary DESC, d.domain
+  `).all();
+  const users = db.query<BasicAuthUser & { site: string }, []>(`
+    SELECT s.name as site, u.username, u.password_hash
+    FROM site_users u
+    JOIN sites s ON s.id = u.site_id
+    ORDER BY u.username
+  `).all();
   db.close();
 
-  console.log(`Found ${sites.length} site(s)`);
+  for (const site of sites) {
+    site.domains = domains.filter(d => d.site === site.name).map(d => d.domain);
+  }
+
+  // Aliases share their site's users
+  for (const entry of [...sites, ...aliases]) {
+    const site = "site" in entry ? entry.site : entry.name;
+    entry.users = users.filter(u => u.site === site);
+  }
+
+  // Invalid rule files are skipped so one site can't break the whole config
+  for (const entry of [...sites, ...aliases]) {
+    const root = "root" in entry ? entry.root : entry.path;
+    const { errors, ...rules } = loadSiteRules(root);
+    entry.rules = rules;
+    for (const error of errors) {
+      console.warn(`Skipping rules for ${entry.name}: ${error}`);
+    }
+  }
+
+  console.log(`Found ${sites.length} site(s), ${aliases.length} alias(es), ${domains.length} custom domain(s)`);
 
   // Generate config
-  const config = generateCaddyConfig(sites);
+  const config = generateCaddyConfig(sites, aliases);
 
   if (dryRun) {
     console.log("\n--- Generated config (dry run) ---\n");
@@ -157,4 +392,7 @@ async function main() {
   }
 }
 
-main();
+// Only run when executed directly, so tests can import generateCaddyConfig
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,226 @@
+/**
+ * Caddy access log ingestion.
+ *
+ * Caddy writes one JSON object per request to the log configured by
+ * scripts/sync-caddy.ts and rolls it at 10MB: the file is renamed to
+ * `<name>-<timestamp>.log` (gzipped shortly after) and a new one is started.
+ * We remember the inode and byte offset read so far, so each run picks up
+ * only new lines, finishes a rotated file before starting the new one, and
+ * never counts a line twice.
+ */
+
+import { closeSync, existsSync, openSync, readdirSync, readFileSync, readSync, statSync } from "fs";
+import { basename, dirname, extname, join } from "path";
+import { gunzipSync } from "zlib";
+
+export interface AccessEntry {
+  host: string;
+  ip: string | null;
+  path: string;
+  status: number;
+  bytes: number;
+  referrer: string | null;
+  user_agent: string | null;
+  timestamp: string;  // UTC, "YYYY-MM-DD HH:MM:SS" like CURRENT_TIMESTAMP
+}
+
+/**
+ * How far a log file has been read. Persisted between runs.
+ */
+export interface LogOffset {
+  inode: number;
+  offset: number;
+}
+
+function firstHeader(headers: Record<string, string[]> | undefined, name: string): string | null {
+  if (!headers) return null;
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name.toLowerCase());
+  return key ? headers[key]?.[0] ?? null : null;
+}
+
+// "1.2.3.4:5678" or "[::1]:5678" from older Caddy versions
+function stripPort(addr: string): string {
+  const bracketed = addr.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) return bracketed[1];
+  return addr.split(":").length === 2 ? addr.split(":")[0] : addr;
+}
+
+/**
+ * Parse a line of Caddy's JSON access log.
+ *
+ * @returns The entry, or null for blank lines, invalid JSON and non-access logs
+ */
+export function parseCaddyLogLine(line: string): AccessEntry | null {
+  if (!line.trim()) return null;
+
+  let record: any;
+  try {
+    record = JSON.parse(line);
+  } catch {
+    return null;
+  }
+
+  const request = record?.request;
+  if (!request || typeof request.host !== "string" || typeof record.status !== "number") return null;
+
+  const date = typeof record.ts === "number" ? new Date(record.ts * 1000) : new Date(record.ts);
+  if (isNaN(date.getTime())) return null;
+
+  const uri = typeof request.uri === "string" ? request.uri : "/";
+  const ip = request.client_ip || request.remote_ip || (request.remote_addr ? stripPort(request.remote_addr) : null);
+
+  return {
+    host: stripPort(request.host).toLowerCase(),
+    ip,
+    path: uri.split("?")[0] || "/",
+    status: record.status,
+    bytes: typeof record.size === "number" ? record.size : 0,
+    referrer: firstHeader(request.headers, "Referer"),
+    user_agent: firstHeader(request.headers, "User-Agent"),
+    timestamp: toSqlTime(date),
+  };
+}
+
+/**
+ * Build a host → site ID lookup from site names, aliases and custom domains.
+ * Site and alias names are subdomains of `domain`; custom domains are full hostnames.
+ */
+export function createHostResolver(
+  domain: string,
+  hosts: { kind: "site" | "alias" | "domain"; host: string; site_id: number }[]
+): (host: string) => number | null {
+  const map = new Map<string, number>();
+  for (const { kind, host, site_id } of hosts) {
+    map.set((kind === "domain" ? host : `${host}.${domain}`).toLowerCase(), site_id);
+  }
+  return host => map.get(host.toLowerCase()) ?? null;
+}
+
+// Read a file from a byte offset, up to the last complete line
+function readFrom(path: string, offset: number): { text: string; end: number } {
+  const size = statSync(path).size;
+  if (size <= offset) return { text: "", end: offset };
+
+  const buffer = Buffer.alloc(size - offset);
+  const fd = openSync(path, "r");
+  try {
+    let read = 0;
+    while (read < buffer.length) {
+      const n = readSync(fd, buffer, read, buffer.length - read, offset + read);
+      if (n === 0) break;
+      read += n;
+    }
+  } finally {
+    closeSync(fd);
+  }
+
+  return completeLines(buffer, offset);
+}
+
+function completeLines(buffer: Buffer, offset: number): { text: string; end: number } {
+  const lastNewline = buffer.lastIndexOf(0x0a);
+  if (lastNewline === -1) return { text: "", end: offset };
+  return { text: buffer.subarray(0, lastNewline + 1).toString("utf8"), end: offset + lastNewline + 1 };
+}
+
+/**
+ * Find the rolled-over file that used to be `path`. Uncompressed backups are
+ * matched by inode; once gzipped the inode changes, so fall back to the
+ * newest backup (lumberjack names sort by rotation time).
+ */
+function findRotated(path: string, inode: number): string | null {
+  const dir = dirname(path);
+  const ext = extname(path);
+  const prefix = `${basename(path, ext)}-`;
+
+  const backups = readdirSync(dir)
+    .filter(f => f.startsWith(prefix) && (f.endsWith(ext) || f.endsWith(`${ext}.gz`)))
+    .sort()
+    .map(f => join(dir, f));
+
+  const sameInode = backups.find(f => !f.endsWith(".gz") && statSync(f).ino === inode);
+  if (sameInode) return sameInode;
+
+  const newest = backups[backups.length - 1];
+  return newest?.endsWith(".gz") ? newest : null;
+}
+
+/**
+ * Read the lines appended to a log since `previous`.
+ *
+ * Handles rotation (new inode: finish the old file, then read the new one from
+ * the start) and truncation (same inode but smaller: start over). A trailing
+ * partial line is left for the next run.
+ */
+export function readNewLines(path: string, previous: LogOffset | null): { lines: string[]; offset: LogOffset } {
+  if (!existsSync(path)) {
+    return { lines: [], offset: previous ?? { inode: 0, offset: 0 } };
+  }
+
+  const { ino, size } = statSync(path);
+  const chunks: string[] = [];
+  let start = 0;
+
+  if (previous && previous.inode === ino) {
+    start = size < previous.offset ? 0 : previous.offset;
+  } else if (previous && previous.inode !== 0) {
+    const rotated = findRotated(path, previous.inode);
+    if (rotated?.endsWith(".gz")) {
+      const data = gunzipSync(readFileSync(rotated));
+      if (data.length > previous.offset) {
+        chunks.push(completeLines(data.subarray(previous.offset), previous.offset).text);
+      }
+    } else if (rotated) {
+      chunks.push(readFrom(rotated, previous.offset).text);
+    }
+  }
+
+  const { text, end } = readFrom(path, start);
+  chunks.push(text);
+
+  return {
+    lines: chunks.join("").split("\n").filter(Boolean),
+    offset: { inode: ino, offset: end },
+  };
+}
+
+// === Time series ===
+
+export type Interval = "hour" | "day";
+
+const INTERVAL_MS: Record<Interval, number> = { hour: 60 * 60 * 1000, day: 24 * 60 * 60 * 1000 };
+
+/**
+ * Format a date like SQLite's CURRENT_TIMESTAMP ("YYYY-MM-DD HH:MM:SS", UTC).
+ */
+export function toSqlTime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+/**
+ * Start of the hour or day (UTC) containing `date`.
+ */
+export function bucketStart(date: Date, interval: Interval): Date {
+  const ms = INTERVAL_MS[interval];
+  return new Date(Math.floor(date.getTime() / ms) * ms);
+}
+
+/**
+ * Number of buckets timeBuckets() would return, without building them.
+ */
+export function bucketCount(from: Date, to: Date, interval: Interval): number {
+  if (from > to) return 0;
+  return Math.floor((to.getTime() - bucketStart(from, interval).getTime()) / INTERVAL_MS[interval]) + 1;
+}
+
+/**
+ * Every bucket between `from` and `to`, including the ones containing them,
+ * so charts get a zero for buckets without traffic.
+ */
+export function timeBuckets(from: Date, to: Date, interval: Interval): string[] {
+  const buckets: string[] = [];
+  for (let t = bucketStart(from, interval).getTime(); t <= to.getTime(); t += INTERVAL_MS[interval]) {
+    buckets.push(toSqlTime(new Date(t)));
+  }
+  return buckets;
+}
@@ -0,0 +1,257 @@
+/**
+ * Archive extraction for bulk uploads.
+ *
+ * Parses tar, tar.gz and zip archives in memory without writing anything
+ * to disk. Only regular files and directories are accepted; links, devices
+ * and archives that expand beyond the given limits are rejected.
+ * Entry paths are returned as-is and must be validated with safePath().
+ */
+
+import { gunzipSync, inflateRawSync } from "zlib";
+
+export interface ArchiveEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+export interface ExtractLimits {
+  maxBytes: number;    // Max total extracted size
+  maxEntries: number;  // Max number of file entries
+}
+
+export type ArchiveFormat = "tar" | "tar.gz" | "zip";
+
+/**
+ * Error raised for invalid or oversized archives.
+ * `status` is the HTTP status the API should answer with.
+ */
+export class ArchiveError extends Error {
+  constructor(message: string, public status: 400 | 413 = 400) {
+    super(message);
+    this.name = "ArchiveError";
+  }
+}
+
+/**
+ * Detect the archive format from its magic bytes.
+ */
+export function detectFormat(buf: Uint8Array): ArchiveFormat | null {
+  if (buf.length >= 2 && buf[0] === 0x1f && buf[1] === 0x8b) return "tar.gz";
+  if (buf.length >= 4 && buf[0] === 0x50 && buf[1] === 0x4b && (buf[2] === 0x03 || buf[2] === 0x05)) return "zip";
+  if (buf.length >= 512 && readString(buf, 257, 5) === "ustar") return "tar";
+  return null;
+}
+
+/**
+ * Extract all file entries of an archive.
+ */
+export function extractArchive(buf: Uint8Array, limits: ExtractLimits): ArchiveEntry[] {
+  const format = detectFormat(buf);
+
+  if (format === "zip") return extractZip(buf, limits);
+  if (format === "tar") return extractTar(buf, limits);
+  if (format === "tar.gz") {
+    // Tar adds at most 1KB of headers per entry plus the end-of-archive blocks
+    const maxTarSize = limits.maxBytes + (limits.maxEntries + 2) * 1024;
+    let tar: Uint8Array;
+    try {
+      tar = gunzipSync(buf, { maxOutputLength: maxTarSize });
+    } catch (e: any) {
+      if (e.code === "ERR_BUFFER_TOO_LARGE") {
+        throw new ArchiveError("Archive expands beyond the allowed size", 413);
+      }
+      throw new ArchiveError(`Invalid gzip data: ${e.message}`);
+    }
+    return extractTar(tar, limits);
+  }
+
+  throw new ArchiveError("Unsupported archive format. Use tar, tar.gz or zip");
+}
+
+// === Tar ===
+
+function readString(buf: Uint8Array, offset: number, length: number): string {
+  const slice = buf.subarray(offset, offset + length);
+  const end = slice.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? slice : slice.subarray(0, end));
+}
+
+function readOctal(buf: Uint8Array, offset: number, length: number): number {
+  const value = readString(buf, offset, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+function parsePaxPath(data: Uint8Array): string | null {
+  // Records look like "<len> <key>=<value>\n"
+  const text = new TextDecoder().decode(data);
+  for (const record of text.split("\n")) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function extractTar(buf: Uint8Array, limits: ExtractLimits): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let total = 0;
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + 512 <= buf.length) {
+    const header = buf.subarray(offset, offset + 512);
+
+    // Two zero blocks mark the end; one is enough to stop
+    if (header.every(b => b === 0)) break;
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + 512;
+    const dataEnd = dataStart + size;
+    offset = dataStart + Math.ceil(size / 512) * 512;
+
+    if (Number.isNaN(size) || dataEnd > buf.length) {
+      throw new ArchiveError("Truncated or corrupt tar archive");
+    }
+
+    const data = buf.subarray(dataStart, dataEnd);
+
+    // Extended headers carry the name of the next entry
+    if (type === "x" || type === "L") {
+      longName = type === "x" ? parsePaxPath(data) : readString(data, 0, data.length);
+      continue;
+    }
+    if (type === "g") continue;
+
+    // POSIX ustar ("ustar\0") splits long names into prefix + name;
+    // GNU tar ("ustar ") uses the same bytes for other fields
+    const headerName = readString(header, 0, 100);
+    const prefix = header[262] === 0 ? readString(header, 345, 155) : "";
+    const name = longName ?? (prefix ? `${prefix}/${headerName}` : headerName);
+    longName = null;
+
+    if (type === "5") continue;
+    if (type !== "0" && type !== "7") {
+      throw new ArchiveError(`Unsupported entry type in archive (links and devices are not allowed): ${name}`);
+    }
+
+    total += size;
+    if (total > limits.maxBytes) {
+      throw new ArchiveError("Archive expands beyond the allowed size", 413);
+    }
+    if (entries.length >= limits.maxEntries) {
+      throw new ArchiveError(`Archive has more than ${limits.maxEntries} files`, 413);
+    }
+
+    entries.push({ path: name, data });
+  }
+
+  return entries;
+}
+
+// === Zip ===
+
+const ZIP_EOCD = 0x06054b50;
+const ZIP_CENTRAL = 0x02014b50;
+const ZIP_LOCAL = 0x04034b50;
+const S_IFMT = 0o170000;
+const S_IFREG = 0o100000;
+const S_IFDIR = 0o040000;
+
+function extractZip(buf: Uint8Array, limits: ExtractLimits): ArchiveEntry[] {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+
+  // End of central directory is in the last 22 + 65535 (comment) bytes
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_EOCD) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new ArchiveError("Invalid zip archive: end of central directory not found");
+  }
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new ArchiveError("ZIP64 archives are not supported");
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let total = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buf.length || view.getUint32(offset, true) !== ZIP_CENTRAL) {
+      throw new ArchiveError("Invalid zip archive: corrupt central directory");
+    }
+
+    const madeBy = view.getUint16(offset + 4, true) >> 8;
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const externalAttrs = view.getUint32(offset + 38, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(buf.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Unix mode lives in the high 16 bits when created on Unix (3)
+    const mode = madeBy === 3 ? externalAttrs >>> 16 : 0;
+    const isDir = name.endsWith("/") || (mode & S_IFMT) === S_IFDIR;
+
+    if (isDir) continue;
+    if (mode && (mode & S_IFMT) !== S_IFREG) {
+      throw new ArchiveError(`Unsupported entry type in archive (links and devices are not allowed): ${name}`);
+    }
+    if (flags & 0x1) {
+      throw new ArchiveError(`Encrypted entries are not supported: ${name}`);
+    }
+    if (size === 0xffffffff || compressedSize === 0xffffffff) {
+      throw new ArchiveError("ZIP64 archives are not supported");
+    }
+
+    total += size;
+    if (total > limits.maxBytes) {
+      throw new ArchiveError("Archive expands beyond the allowed size", 413);
+    }
+    if (entries.length >= limits.maxEntries) {
+      throw new ArchiveError(`Archive has more than ${limits.maxEntries} files`, 413);
+    }
+
+    if (localOffset + 30 > buf.length || view.getUint32(localOffset, true) !== ZIP_LOCAL) {
+      throw new ArchiveError(`Invalid zip archive: corrupt local header for ${name}`);
+    }
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = buf.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Uint8Array;
+    if (method === 0) {
+      data = raw;
+    } else if (method === 8) {
+      try {
+        // Never trust the declared size: cap the output at it
+        data = inflateRawSync(raw, { maxOutputLength: Math.max(size, 1) });
+      } catch (e: any) {
+        if (e.code === "ERR_BUFFER_TOO_LARGE") {
+          throw new ArchiveError(`Entry expands beyond its declared size: ${name}`, 413);
+        }
+        throw new ArchiveError(`Invalid compressed data for ${name}`);
+      }
+    } else {
+      throw new ArchiveError(`Unsupported compression method ${method} for ${name}`);
+    }
+
+    if (data.length !== size) {
+      throw new ArchiveError(`Size mismatch for ${name}`);
+    }
+
+    entries.push({ path: name, data });
+  }
+
+  return entries;
+}
@@ -8,6 +8,7 @@
 import { $ } from "bun";
 import { existsSync } from "fs";
 import { join, dirname } from "path";
+import { caddySyncs, caddySyncDuration } from "./metrics";
 
 const CADDY_ADMIN = process.env.CADDY_ADMIN_URL || "http://localhost:2019";
 const DOMAIN = process.env.SF_DOMAIN || "498as.com";
@@ -26,15 +27,20 @@ export async function syncCaddy(): Promise<void> {
     return;
   }
 
+  const start = performance.now();
   try {
     // Use full path to bun since systemd might not have it in PATH
     const bunPath = process.execPath;
     const scriptDir = dirname(SCRIPT_PATH);
     await $`${bunPath} run ${SCRIPT_PATH} --reload`.cwd(dirname(scriptDir)).quiet();
+    caddySyncs.inc({ result: "success" });
   } catch (e: any) {
+    caddySyncs.inc({ result: "failure" });
     console.error("Failed to sync Caddy:", e.message);
     console.error("Script path:", SCRIPT_PATH);
     throw new Error(`Caddy sync failed: ${e.message}`);
+  } finally {
+    caddySyncDuration.observe({}, (performance.now() - start) / 1000);
   }
 }
 
@@ -84,10 +90,10 @@ export async function updateSiteAuth(
 }
 
 /**
- * Get the public URL for a site.
+ * Get the public URL for a site, preferring its primary custom domain.
  */
-export function getSiteUrl(name: string): string {
-  return `https://${name}.${DOMAIN}`;
+export function getSiteUrl(name: string, customDomain?: string | null): string {
+  return customDomain ? `https://${customDomain}` : `https://${name}.${DOMAIN}`;
 }
 
 // === Admin API fallback (non-persistent) ===
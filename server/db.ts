@@ -34,6 +34,166 @@ try {
 } catch (e) {
   // Column already exists, ignore
 }
+// Migration: Optional per-site file limit (NULL = unlimited)
+try {
+  db.run(`ALTER TABLE sites ADD COLUMN max_files INTEGER`);
+} catch (e) {
+  // Column already exists, ignore
+}
+try {
+  db.run(`ALTER TABLE sites ADD COLUMN current_deployment_id INTEGER`);
+} catch (e) {
+  // Column already exists, ignore
+}
+
+// Migration: Key that created the site (NULL = admin keys only)
+try {
+  db.run(`ALTER TABLE sites ADD COLUMN owner_key_id INTEGER`);
+} catch (e) {
+  // Column already exists, ignore
+}
+
+// Migration: Per-site serving options rendered into the Caddy block
+for (const column of [
+  "spa_fallback INTEGER DEFAULT 0",
+  "not_found_page TEXT",
+  "error_page TEXT",
+  "clean_urls INTEGER DEFAULT 0",
+  "trailing_slash TEXT DEFAULT 'auto'",
+]) {
+  try {
+    db.run(`ALTER TABLE sites ADD COLUMN ${column}`);
+  } catch (e) {
+    // Column already exists, ignore
+  }
+}
+
+// Migration: Soft quota thresholds (NULL = SF_QUOTA_WARN_AT), when usage went
+// over the quota (starts the grace period) and the last alert level sent
+for (const column of [
+  "quota_warn_at TEXT",
+  "over_quota_since TEXT",
+  "quota_alert INTEGER DEFAULT 0",
+]) {
+  try {
+    db.run(`ALTER TABLE sites ADD COLUMN ${column}`);
+  } catch (e) {
+    // Column already exists, ignore
+  }
+}
+
+// Migration: Ephemeral sites are deleted after expires_at (NULL = never)
+try {
+  db.run(`ALTER TABLE sites ADD COLUMN expires_at TEXT`);
+} catch (e) {
+  // Column already exists, ignore
+}
+
+// Migration: CIDR allow/deny lists (space-separated, NULL = none)
+for (const column of ["ip_allow TEXT", "ip_deny TEXT"]) {
+  try {
+    db.run(`ALTER TABLE sites ADD COLUMN ${column}`);
+  } catch (e) {
+    // Column already exists, ignore
+  }
+}
+
+// Basic auth users. Replaces sites.auth_user/auth_hash, which held one user.
+db.run(`
+  CREATE TABLE IF NOT EXISTS site_users (
+    id INTEGER PRIMARY KEY,
+    site_id INTEGER NOT NULL REFERENCES sites(id),
+    username TEXT NOT NULL,
+    password_hash TEXT NOT NULL,  -- bcrypt, as Caddy expects
+    created_by_key_id INTEGER,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (site_id, username)
+  )
+`);
+
+// Migration: Move the single auth user of existing sites into site_users
+db.transaction(() => {
+  db.run(`
+    INSERT OR IGNORE INTO site_users (site_id, username, password_hash)
+    SELECT id, auth_user, auth_hash FROM sites WHERE auth_user IS NOT NULL AND auth_hash IS NOT NULL
+  `);
+  db.run(`UPDATE sites SET auth_user = NULL, auth_hash = NULL WHERE auth_user IS NOT NULL OR auth_hash IS NOT NULL`);
+})();
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS deployments (
+    id INTEGER PRIMARY KEY,
+    site_id INTEGER NOT NULL REFERENCES sites(id),
+    status TEXT NOT NULL DEFAULT 'staging',  -- staging | ready
+    size_bytes INTEGER DEFAULT 0,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    finalized_at TEXT
+  )
+`);
+
+db.run(`CREATE INDEX IF NOT EXISTS idx_deployments_site ON deployments(site_id)`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS uploads (
+    id TEXT PRIMARY KEY,
+    site_id INTEGER NOT NULL REFERENCES sites(id),
+    deployment_id INTEGER REFERENCES deployments(id),
+    path TEXT NOT NULL,
+    size INTEGER NOT NULL,  -- reserved against the quota until finalized or expired
+    offset_bytes INTEGER DEFAULT 0,
+    overwrite INTEGER DEFAULT 0,
+    expires_at TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS site_aliases (
+    id INTEGER PRIMARY KEY,
+    site_id INTEGER NOT NULL REFERENCES sites(id),
+    name TEXT UNIQUE NOT NULL,  -- hostname label, e.g. pr-42--docs
+    deployment_id INTEGER REFERENCES deployments(id),  -- NULL follows the live site
+    path TEXT NOT NULL DEFAULT '',  -- directory within the deployment or site
+    root TEXT NOT NULL,  -- resolved directory Caddy serves
+    expires_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS site_domains (
+    id INTEGER PRIMARY KEY,
+    site_id INTEGER NOT NULL REFERENCES sites(id),
+    domain TEXT UNIQUE NOT NULL,
+    token TEXT NOT NULL,  -- proves ownership via TXT record or well-known file
+    is_primary INTEGER DEFAULT 0,  -- used for URLs; only set once verified
+    verified_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+// Bumped by triggers whenever a site, alias or verified domain hostname
+// changes, so the server can cache its hostname → site map
+db.run(`
+  CREATE TABLE IF NOT EXISTS host_changes (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    version INTEGER NOT NULL
+  )
+`);
+db.run(`INSERT OR IGNORE INTO host_changes (id, version) VALUES (1, 0)`);
+for (const [table, columns] of [
+  ["sites", "name"],
+  ["site_aliases", "name, site_id"],
+  ["site_domains", "domain, site_id, verified_at"],
+]) {
+  for (const [name, event] of [["insert", "INSERT"], ["delete", "DELETE"], ["update", `UPDATE OF ${columns}`]]) {
+    db.run(`
+      CREATE TRIGGER IF NOT EXISTS ${table}_hosts_${name} AFTER ${event} ON ${table}
+      BEGIN UPDATE host_changes SET version = version + 1; END
+    `);
+  }
+}
 
 db.run(`
   CREATE TABLE IF NOT EXISTS api_keys (
@@ -44,6 +204,28 @@ db.run(`
   )
 `);
 
+// Migration: Scopes (space-separated) and site allowlist (NULL = all sites).
+// Keys created before scopes existed keep full access.
+try {
+  db.run(`ALTER TABLE api_keys ADD COLUMN scopes TEXT NOT NULL DEFAULT 'admin'`);
+} catch (e) {
+  // Column already exists, ignore
+}
+try {
+  db.run(`ALTER TABLE api_keys ADD COLUMN sites TEXT`);
+} catch (e) {
+  // Column already exists, ignore
+}
+
+// Migration: Key lifecycle
+for (const column of ["expires_at TEXT", "last_used_at TEXT", "revoked_at TEXT"]) {
+  try {
+    db.run(`ALTER TABLE api_keys ADD COLUMN ${column}`);
+  } catch (e) {
+    // Column already exists, ignore
+  }
+}
+
 db.run(`
   CREATE TABLE IF NOT EXISTS access_log (
     id INTEGER PRIMARY KEY,
@@ -55,24 +237,216 @@ db.run(`
   )
 `);
 
+// Filled from Caddy's access log, see access-logs.ts
+for (const column of ["bytes INTEGER", "referrer TEXT", "user_agent TEXT"]) {
+  try {
+    db.run(`ALTER TABLE access_log ADD COLUMN ${column}`);
+  } catch (e) {
+    // Column already exists, ignore
+  }
+}
+
+// How far each Caddy log file has been ingested
+db.run(`
+  CREATE TABLE IF NOT EXISTS log_offsets (
+    path TEXT PRIMARY KEY,
+    inode INTEGER NOT NULL,
+    offset INTEGER NOT NULL,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+// Traffic per site and hour/day, recomputed from access_log as it's ingested
+for (const table of ["access_rollup_hourly", "access_rollup_daily"]) {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS ${table} (
+      site_id INTEGER NOT NULL,
+      bucket TEXT NOT NULL,       -- Start of the hour/day, UTC
+      requests INTEGER NOT NULL,
+      visitors INTEGER NOT NULL,  -- Distinct client IPs
+      bytes INTEGER NOT NULL,
+      status_2xx INTEGER NOT NULL,
+      status_3xx INTEGER NOT NULL,
+      status_4xx INTEGER NOT NULL,
+      status_5xx INTEGER NOT NULL,
+      PRIMARY KEY (site_id, bucket)
+    )
+  `);
+}
+
+// Referrer and user agent counts per site and day
+db.run(`
+  CREATE TABLE IF NOT EXISTS access_rollup_top (
+    site_id INTEGER NOT NULL,
+    day TEXT NOT NULL,
+    kind TEXT NOT NULL,  -- referrer | user_agent
+    value TEXT NOT NULL,
+    count INTEGER NOT NULL,
+    PRIMARY KEY (site_id, day, kind, value)
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY,
+    timestamp TEXT DEFAULT CURRENT_TIMESTAMP,
+    actor_key_id INTEGER,
+    action TEXT NOT NULL,     -- e.g. site.create, file.upload
+    site TEXT,                -- Name, kept after the site is deleted
+    target TEXT,              -- File path, deployment ID, domain...
+    request_id TEXT,
+    ip TEXT,
+    diff TEXT                 -- JSON
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS webhooks (
+    id INTEGER PRIMARY KEY,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,     -- Needed to sign payloads, so stored as-is
+    events TEXT NOT NULL,     -- Space-separated event names, or *
+    sites TEXT,               -- Space-separated site names, NULL = all
+    owner_key_id INTEGER,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+// Queue and log of webhook calls
+db.run(`
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id INTEGER PRIMARY KEY,
+    webhook_id INTEGER NOT NULL REFERENCES webhooks(id),
+    event TEXT NOT NULL,
+    site TEXT,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',  -- pending | delivered | failed
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    response_status INTEGER,
+    error TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    delivered_at TEXT
+  )
+`);
+
+db.run(`
+  CREATE TABLE IF NOT EXISTS share_links (
+    id INTEGER PRIMARY KEY,
+    site_id INTEGER NOT NULL REFERENCES sites(id),
+    path TEXT NOT NULL DEFAULT '/',  -- prefix the link grants access to
+    expires_at TEXT NOT NULL,
+    max_uses INTEGER,                -- NULL = unlimited
+    uses INTEGER NOT NULL DEFAULT 0,
+    created_by_key_id INTEGER,
+    revoked_at TEXT,
+    last_used_at TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+// Generated secrets that must survive restarts (e.g. the share link signing key)
+db.run(`
+  CREATE TABLE IF NOT EXISTS server_secrets (
+    name TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
 db.run(`CREATE INDEX IF NOT EXISTS idx_access_log_site ON access_log(site_id)`);
 db.run(`CREATE INDEX IF NOT EXISTS idx_access_log_timestamp ON access_log(timestamp)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_audit_log_site ON audit_log(site)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor_key_id)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id)`);
+db.run(`CREATE INDEX IF NOT EXISTS idx_share_links_site ON share_links(site_id)`);
 
 // === Site queries ===
-export const getSites = db.query<any, []>(`SELECT id, name, path, auth_user, created_at FROM sites ORDER BY created_at DESC`);
+const PRIMARY_DOMAIN = `(SELECT domain FROM site_domains WHERE site_id = sites.id AND is_primary = 1) as primary_domain`;
+
+// Space-separated usernames in order, NULL without basic auth. Sorted in a
+// subquery since group_concat(... ORDER BY) needs SQLite 3.44
+const AUTH_USERS = `(SELECT group_concat(username, ' ') FROM
+  (SELECT username FROM site_users WHERE site_id = sites.id ORDER BY username)) as auth_users`;
+
+// Public columns returned by the API (never includes password hashes)
+const SITE_COLUMNS = `id, name, path, ${AUTH_USERS}, owner_key_id, current_deployment_id, ${PRIMARY_DOMAIN},
+  quota_bytes, used_bytes, max_files, quota_warn_at, over_quota_since,
+  spa_fallback, not_found_page, error_page, clean_urls, trailing_slash, ip_allow, ip_deny, expires_at, created_at`;
+
+export const getSites = db.query<any, []>(`SELECT ${SITE_COLUMNS} FROM sites ORDER BY created_at DESC`);
+
+export const getSite = db.query<any, [string]>(`SELECT *, ${PRIMARY_DOMAIN}, ${AUTH_USERS} FROM sites WHERE name = ?`);
+
+// The last parameter is a datetime('now', ?) modifier like "+3600 seconds", or null
+export const insertSite = db.query<any, [string, string, number, number, string | null]>(`
+  INSERT INTO sites (name, path, owner_key_id, quota_bytes, expires_at)
+  VALUES (?, ?, ?, ?, datetime('now', ?)) RETURNING ${SITE_COLUMNS}
+`);
 
-export const getSite = db.query<any, [string]>(`SELECT * FROM sites WHERE name = ?`);
+// NULL when SQLite can't represent the resulting time
+export const resolveExpiry = db.query<{ expires_at: string | null }, [string]>(
+  `SELECT datetime('now', ?) as expires_at`
+);
+
+export const updateSiteExpiry = db.query<any, [string | null, string]>(
+  `UPDATE sites SET expires_at = datetime('now', ?) WHERE name = ? RETURNING ${SITE_COLUMNS}`
+);
+
+// Extends from the current expiry, or from now if that has already passed.
+// Returns nothing (and changes nothing) if the new time can't be represented.
+export const extendSiteExpiry = db.query<any, [string, string]>(`
+  UPDATE sites SET expires_at = datetime(MAX(expires_at, datetime('now')), ?1)
+  WHERE name = ?2 AND datetime(MAX(expires_at, datetime('now')), ?1) IS NOT NULL
+  RETURNING ${SITE_COLUMNS}
+`);
 
-export const insertSite = db.query<any, [string, string, string | null, string | null]>(
-  `INSERT INTO sites (name, path, auth_user, auth_hash) VALUES (?, ?, ?, ?) RETURNING id, name, path, auth_user, created_at`
+export const getExpiredSites = db.query<any, []>(
+  `SELECT *, ${PRIMARY_DOMAIN}, ${AUTH_USERS} FROM sites WHERE expires_at <= datetime('now') ORDER BY expires_at`
 );
 
-export const updateSiteAuth = db.query<any, [string | null, string | null, string]>(
-  `UPDATE sites SET auth_user = ?, auth_hash = ? WHERE name = ? RETURNING id, name, path, auth_user, created_at`
+export const updateSiteOwner = db.query<any, [number, string]>(
+  `UPDATE sites SET owner_key_id = ? WHERE name = ? RETURNING ${SITE_COLUMNS}`
 );
 
+
+export const updateSiteConfig = db.query<
+  any, [number, string | null, string | null, number, string, string | null, string | null, string]
+>(`
+  UPDATE sites SET spa_fallback = ?, not_found_page = ?, error_page = ?, clean_urls = ?, trailing_slash = ?,
+    ip_allow = ?, ip_deny = ?
+  WHERE name = ? RETURNING ${SITE_COLUMNS}
+`);
+
 export const deleteSiteQuery = db.query<any, [string]>(`DELETE FROM sites WHERE name = ?`);
 
+// === Basic auth user queries ===
+export const getSiteUsers = db.query<any, [number]>(
+  `SELECT username, created_by_key_id, created_at, updated_at FROM site_users WHERE site_id = ? ORDER BY username`
+);
+
+// Adds a user or changes their password
+export const upsertSiteUser = db.query<any, [number, string, string, number | null]>(`
+  INSERT INTO site_users (site_id, username, password_hash, created_by_key_id) VALUES (?1, ?2, ?3, ?4)
+  ON CONFLICT(site_id, username) DO UPDATE SET password_hash = ?3, updated_at = CURRENT_TIMESTAMP
+  RETURNING username, created_by_key_id, created_at, updated_at
+`);
+
+export const deleteSiteUser = db.query<any, [number, string]>(
+  `DELETE FROM site_users WHERE site_id = ? AND username = ?`
+);
+
+export const deleteSiteUsers = db.query<any, [number]>(`DELETE FROM site_users WHERE site_id = ?`);
+
+// The single-user `auth` field of create/update: replaces every user, null removes them all
+export const replaceSiteUsers = db.transaction(
+  (siteId: number, user: { username: string; hash: string } | null, keyId: number | null) => {
+    deleteSiteUsers.run(siteId);
+    if (user) upsertSiteUser.run(siteId, user.username, user.hash, keyId);
+  }
+);
+
 // === Quota queries ===
 export const updateUsedBytes = db.query<any, [number, string]>(
   `UPDATE sites SET used_bytes = ? WHERE name = ?`
@@ -86,26 +460,527 @@ export const decrementUsedBytes = db.query<any, [number, string]>(
   `UPDATE sites SET used_bytes = MAX(0, used_bytes - ?) WHERE name = ?`
 );
 
-export const getSiteQuota = db.query<{ quota_bytes: number; used_bytes: number } | null, [string]>(
-  `SELECT quota_bytes, used_bytes FROM sites WHERE name = ?`
+// Only applies if usage hasn't changed since it was measured, so a reconcile
+// doesn't overwrite an upload that finished in between
+export const correctUsedBytes = db.query<any, [number, string, number]>(
+  `UPDATE sites SET used_bytes = ?1 WHERE name = ?2 AND used_bytes = ?3`
 );
 
+export const getSiteDirs = db.query<
+  { id: number; name: string; path: string; used_bytes: number; current_deployment_id: number | null }, []
+>(`SELECT id, name, path, used_bytes, current_deployment_id FROM sites ORDER BY name`);
+
+export const getSiteStorage = db.query<{ name: string; used_bytes: number; quota_bytes: number }, []>(
+  `SELECT name, used_bytes, quota_bytes FROM sites ORDER BY name`
+);
+
+export const updateSiteQuota = db.query<any, [number, number | null, string | null, string]>(
+  `UPDATE sites SET quota_bytes = ?, max_files = ?, quota_warn_at = ? WHERE name = ? RETURNING ${SITE_COLUMNS}`
+);
+
+export const getSiteQuota = db.query<{
+  quota_bytes: number;
+  used_bytes: number;
+  max_files: number | null;
+  quota_warn_at: string | null;
+  over_quota_since: string | null;
+  quota_alert: number;
+} | null, [string]>(
+  `SELECT quota_bytes, used_bytes, max_files, quota_warn_at, over_quota_since, quota_alert FROM sites WHERE name = ?`
+);
+
+// Keeps over_quota_since while the site stays over quota, so the grace period
+// runs from when it first went over
+export const updateQuotaAlert = db.query<
+  { quota_bytes: number; used_bytes: number; quota_warn_at: string | null; over_quota_since: string | null },
+  [number, string]
+>(`
+  UPDATE sites SET
+    over_quota_since = CASE WHEN ?1 = 100 THEN COALESCE(over_quota_since, CURRENT_TIMESTAMP) END,
+    quota_alert = ?1
+  WHERE name = ?2
+  RETURNING quota_bytes, used_bytes, quota_warn_at, over_quota_since
+`);
+
+// === Deployment queries ===
+const DEPLOYMENT_COLUMNS = `d.id, s.name as site, d.status, d.size_bytes, d.created_at, d.finalized_at,
+  (d.id = s.current_deployment_id) as live`;
+
+export const getDeployments = db.query<any, [string]>(`
+  SELECT ${DEPLOYMENT_COLUMNS}
+  FROM deployments d
+  JOIN sites s ON s.id = d.site_id
+  WHERE s.name = ?
+  ORDER BY d.id DESC
+`);
+
+export const getDeployment = db.query<any, [string, number]>(`
+  SELECT ${DEPLOYMENT_COLUMNS}
+  FROM deployments d
+  JOIN sites s ON s.id = d.site_id
+  WHERE s.name = ? AND d.id = ?
+`);
+
+export const insertDeployment = db.query<{ id: number }, [number, string, number]>(
+  `INSERT INTO deployments (site_id, status, size_bytes) VALUES (?, ?, ?) RETURNING id`
+);
+
+export const finalizeDeploymentQuery = db.query<any, [number]>(
+  `UPDATE deployments SET status = 'ready', finalized_at = CURRENT_TIMESTAMP WHERE id = ?`
+);
+
+export const incrementDeploymentBytes = db.query<any, [number, number]>(
+  `UPDATE deployments SET size_bytes = MAX(0, size_bytes + ?) WHERE id = ?`
+);
+
+export const deleteDeploymentQuery = db.query<any, [number]>(`DELETE FROM deployments WHERE id = ?`);
+
+export const deleteSiteDeployments = db.query<any, [number]>(`DELETE FROM deployments WHERE site_id = ?`);
+
+export const setCurrentDeployment = db.query<any, [number | null, number, string]>(
+  `UPDATE sites SET current_deployment_id = ?, used_bytes = ? WHERE name = ?`
+);
+
+// Ready deployments beyond the newest `keep`, never including the live one
+export const getPrunableDeployments = db.query<{ id: number }, [string, number]>(`
+  SELECT d.id
+  FROM deployments d
+  JOIN sites s ON s.id = d.site_id
+  WHERE s.name = ? AND d.status = 'ready' AND d.id IS NOT s.current_deployment_id
+    AND d.id NOT IN (SELECT deployment_id FROM site_aliases WHERE deployment_id IS NOT NULL)
+  ORDER BY d.id DESC
+  LIMIT -1 OFFSET ?
+`);
+
+// Staging deployments opened longer ago than the modifier (e.g. "-24 hours")
+// that nothing is uploading into or serving: left behind by an interrupted deploy
+export const getStaleDeployments = db.query<{ id: number; site: string; site_path: string; size_bytes: number }, [string]>(`
+  SELECT d.id, s.name as site, s.path as site_path, d.size_bytes
+  FROM deployments d
+  JOIN sites s ON s.id = d.site_id
+  WHERE d.status = 'staging' AND d.created_at <= datetime('now', ?)
+    AND d.id NOT IN (SELECT deployment_id FROM site_aliases WHERE deployment_id IS NOT NULL)
+    AND d.id NOT IN (
+      SELECT deployment_id FROM uploads WHERE deployment_id IS NOT NULL AND expires_at > datetime('now')
+    )
+`);
+
+// === Resumable upload queries ===
+const UPLOAD_COLUMNS = `u.id, s.name as site, u.deployment_id, u.path, u.size, u.offset_bytes as offset,
+  u.overwrite, u.expires_at, u.created_at`;
+
+export const insertUpload = db.query<any, [string, number, number | null, string, number, number, string]>(`
+  INSERT INTO uploads (id, site_id, deployment_id, path, size, overwrite, expires_at)
+  VALUES (?, ?, ?, ?, ?, ?, datetime('now', ?))
+`);
+
+// Expired uploads are treated as gone even before the reaper removes them
+export const getUpload = db.query<any, [string, string]>(`
+  SELECT ${UPLOAD_COLUMNS}
+  FROM uploads u
+  JOIN sites s ON s.id = u.site_id
+  WHERE s.name = ? AND u.id = ? AND u.expires_at > datetime('now')
+`);
+
+export const updateUploadOffset = db.query<any, [number, string]>(
+  `UPDATE uploads SET offset_bytes = ? WHERE id = ?`
+);
+
+export const deleteUploadQuery = db.query<any, [string]>(`DELETE FROM uploads WHERE id = ?`);
+
+export const deleteSiteUploads = db.query<any, [number]>(`DELETE FROM uploads WHERE site_id = ?`);
+
+export const getExpiredUploads = db.query<{ id: string; site_path: string }, []>(`
+  SELECT u.id, s.path as site_path
+  FROM uploads u
+  JOIN sites s ON s.id = u.site_id
+  WHERE u.expires_at <= datetime('now')
+`);
+
+export const getReservedBytes = db.query<{ reserved: number }, [number, number | null]>(`
+  SELECT COALESCE(SUM(size), 0) as reserved
+  FROM uploads
+  WHERE site_id = ? AND deployment_id IS ? AND expires_at > datetime('now')
+`);
+
+// === Alias queries ===
+const ALIAS_COLUMNS = `a.id, a.name, s.name as site, a.deployment_id, a.path, a.expires_at, a.created_at`;
+
+// Expired aliases are treated as gone even before the reaper removes them
+const ALIAS_ACTIVE = `(a.expires_at IS NULL OR a.expires_at > datetime('now'))`;
+
+export const getAliases = db.query<any, [string]>(`
+  SELECT ${ALIAS_COLUMNS}
+  FROM site_aliases a
+  JOIN sites s ON s.id = a.site_id
+  WHERE s.name = ? AND ${ALIAS_ACTIVE}
+  ORDER BY a.created_at DESC
+`);
+
+export const getAlias = db.query<any, [string]>(`
+  SELECT ${ALIAS_COLUMNS}
+  FROM site_aliases a
+  JOIN sites s ON s.id = a.site_id
+  WHERE a.name = ? AND ${ALIAS_ACTIVE}
+`);
+
+// A NULL modifier makes datetime() return NULL, i.e. no expiry
+export const insertAlias = db.query<{ id: number }, [number, string, number | null, string, string, string | null]>(`
+  INSERT INTO site_aliases (site_id, name, deployment_id, path, root, expires_at)
+  VALUES (?, ?, ?, ?, ?, datetime('now', ?))
+  RETURNING id
+`);
+
+export const deleteAliasQuery = db.query<any, [string]>(`DELETE FROM site_aliases WHERE name = ?`);
+
+export const deleteSiteAliases = db.query<any, [number]>(`DELETE FROM site_aliases WHERE site_id = ?`);
+
+export const deleteExpiredAliases = db.query<any, []>(
+  `DELETE FROM site_aliases WHERE expires_at <= datetime('now')`
+);
+
+export const countDeploymentAliases = db.query<{ count: number }, [number]>(
+  `SELECT COUNT(*) as count FROM site_aliases WHERE deployment_id = ?`
+);
+
+// === Domain queries ===
+const DOMAIN_COLUMNS = `d.id, d.domain, s.name as site, d.token, d.is_primary as "primary", d.verified_at, d.created_at`;
+
+export const getDomains = db.query<any, [string]>(`
+  SELECT ${DOMAIN_COLUMNS}
+  FROM site_domains d
+  JOIN sites s ON s.id = d.site_id
+  WHERE s.name = ?
+  ORDER BY d.is_primary DESC, d.domain
+`);
+
+export const getDomain = db.query<any, [string]>(`
+  SELECT ${DOMAIN_COLUMNS}
+  FROM site_domains d
+  JOIN sites s ON s.id = d.site_id
+  WHERE d.domain = ?
+`);
+
+export const insertDomain = db.query<any, [number, string, string]>(
+  `INSERT INTO site_domains (site_id, domain, token) VALUES (?, ?, ?)`
+);
+
+export const markDomainVerified = db.query<any, [string]>(
+  `UPDATE site_domains SET verified_at = CURRENT_TIMESTAMP WHERE domain = ?`
+);
+
+// Makes one verified domain the primary of its site and clears the others
+export const setPrimaryDomain = db.query<any, [string, number]>(`
+  UPDATE site_domains SET is_primary = (domain = ? AND verified_at IS NOT NULL) WHERE site_id = ?
+`);
+
+export const deleteDomainQuery = db.query<any, [string]>(`DELETE FROM site_domains WHERE domain = ?`);
+
+export const deleteSiteDomains = db.query<any, [number]>(`DELETE FROM site_domains WHERE site_id = ?`);
+
 // === API Key queries ===
-export const getApiKey = db.query<any, [string]>(`SELECT * FROM api_keys WHERE key_hash = ?`);
+// Public columns returned by the API (never includes key_hash)
+const KEY_COLUMNS = `id, name, scopes, sites, expires_at, last_used_at, revoked_at, created_at`;
+
+export const getApiKey = db.query<any, [string]>(`
+  SELECT *, expires_at IS NOT NULL AND expires_at <= datetime('now') as expired
+  FROM api_keys WHERE key_hash = ?
+`);
 
-export const insertApiKey = db.query<any, [string, string]>(
-  `INSERT INTO api_keys (key_hash, name) VALUES (?, ?) RETURNING id, name, created_at`
+export const getApiKeys = db.query<any, []>(`SELECT ${KEY_COLUMNS} FROM api_keys ORDER BY id`);
+
+export const getApiKeyById = db.query<any, [number]>(`SELECT ${KEY_COLUMNS} FROM api_keys WHERE id = ?`);
+
+export const insertApiKey = db.query<any, [string, string, string, string | null, string | null]>(`
+  INSERT INTO api_keys (key_hash, name, scopes, sites, expires_at)
+  VALUES (?, ?, ?, ?, datetime('now', ?))
+  RETURNING ${KEY_COLUMNS}
+`);
+
+export const rotateApiKeyQuery = db.query<any, [string, number]>(
+  `UPDATE api_keys SET key_hash = ?, last_used_at = NULL WHERE id = ? RETURNING ${KEY_COLUMNS}`
 );
 
+export const revokeApiKeyQuery = db.query<any, [number]>(
+  `UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? RETURNING ${KEY_COLUMNS}`
+);
+
+// At most one write per key per minute, so every request isn't a DB write
+export const touchApiKey = db.query<any, [number]>(`
+  UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP
+  WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', '-1 minute'))
+`);
+
+export const countActiveAdminKeys = db.query<{ count: number }, [number]>(`
+  SELECT COUNT(*) as count FROM api_keys
+  WHERE id != ? AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > datetime('now'))
+    AND (' ' || scopes || ' ') LIKE '% admin %'
+`);
+
+// === Audit log queries ===
+// Background jobs record entries with no actor or request ID
+export const insertAudit = db.query<
+  any, [number | null, string, string | null, string | null, string | null, string | null, string | null]
+>(`
+  INSERT INTO audit_log (actor_key_id, action, site, target, request_id, ip, diff)
+  VALUES (?, ?, ?, ?, ?, ?, ?)
+`);
+
+// Newest first. NULL filters match everything; `before` is the ID cursor.
+export const getAuditLog = db.query<any, [string | null, number | null, string | null, number | null, number]>(`
+  SELECT a.*, k.name as actor_name
+  FROM audit_log a
+  LEFT JOIN api_keys k ON k.id = a.actor_key_id
+  WHERE (?1 IS NULL OR a.site = ?1)
+    AND (?2 IS NULL OR a.actor_key_id = ?2)
+    AND (?3 IS NULL OR a.timestamp >= datetime(?3))
+    AND (?4 IS NULL OR a.id < ?4)
+  ORDER BY a.id DESC
+  LIMIT ?5
+`);
+
+// === Webhook queries ===
+const WEBHOOK_COLUMNS = `id, url, events, sites, owner_key_id, created_at`;
+
+export const getWebhooks = db.query<any, []>(`SELECT ${WEBHOOK_COLUMNS} FROM webhooks ORDER BY id`);
+
+export const getWebhookById = db.query<any, [number]>(`SELECT ${WEBHOOK_COLUMNS} FROM webhooks WHERE id = ?`);
+
+export const insertWebhook = db.query<any, [string, string, string, string | null, number]>(`
+  INSERT INTO webhooks (url, secret, events, sites, owner_key_id)
+  VALUES (?, ?, ?, ?, ?)
+  RETURNING ${WEBHOOK_COLUMNS}
+`);
+
+export const deleteWebhookQuery = db.transaction((id: number) => {
+  db.run(`DELETE FROM webhook_deliveries WHERE webhook_id = ?`, [id]);
+  db.run(`DELETE FROM webhooks WHERE id = ?`, [id]);
+});
+
+// Webhooks with their owner, to check site access when an event fires
+export const getWebhookSubscribers = db.query<any, []>(`
+  SELECT w.id, w.events, w.sites, w.owner_key_id,
+    k.name as key_name, k.scopes as key_scopes, k.sites as key_sites,
+    k.revoked_at IS NOT NULL OR (k.expires_at IS NOT NULL AND k.expires_at <= datetime('now')) as key_inactive
+  FROM webhooks w
+  LEFT JOIN api_keys k ON k.id = w.owner_key_id
+`);
+
+export const enqueueDelivery = db.query<any, [number, string, string | null, string]>(
+  `INSERT INTO webhook_deliveries (webhook_id, event, site, payload) VALUES (?, ?, ?, ?)`
+);
+
+export const getDueDeliveries = db.query<any, [number]>(`
+  SELECT d.id, d.event, d.payload, d.attempts, w.url, w.secret
+  FROM webhook_deliveries d
+  JOIN webhooks w ON w.id = d.webhook_id
+  WHERE d.status = 'pending' AND d.next_attempt_at <= datetime('now')
+  ORDER BY d.id
+  LIMIT ?
+`);
+
+export const markDelivered = db.query<any, [number | null, number]>(`
+  UPDATE webhook_deliveries
+  SET status = 'delivered', attempts = attempts + 1, response_status = ?, error = NULL,
+    delivered_at = CURRENT_TIMESTAMP, next_attempt_at = NULL
+  WHERE id = ?
+`);
+
+// Pass NULL as the delay to give up
+export const markAttemptFailed = db.query<any, [number | null, string | null, string | null, number]>(`
+  UPDATE webhook_deliveries
+  SET attempts = attempts + 1, response_status = ?1, error = ?2,
+    status = CASE WHEN ?3 IS NULL THEN 'failed' ELSE 'pending' END,
+    next_attempt_at = datetime('now', ?3)
+  WHERE id = ?4
+`);
+
+export const getDeliveries = db.query<any, [number, number]>(`
+  SELECT id, event, site, payload, status, attempts, next_attempt_at, response_status, error, created_at, delivered_at
+  FROM webhook_deliveries
+  WHERE webhook_id = ?
+  ORDER BY id DESC
+  LIMIT ?
+`);
+
+// === Share link queries ===
+const SHARE_LINK_COLUMNS = `l.id, s.name as site, l.site_id, l.path, l.expires_at, l.max_uses, l.uses,
+  l.created_by_key_id, l.revoked_at, l.last_used_at, l.created_at,
+  l.expires_at <= datetime('now') as expired`;
+
+export const getShareLinks = db.query<any, [string]>(`
+  SELECT ${SHARE_LINK_COLUMNS}
+  FROM share_links l
+  JOIN sites s ON s.id = l.site_id
+  WHERE s.name = ?
+  ORDER BY l.id DESC
+`);
+
+export const getShareLink = db.query<any, [number]>(`
+  SELECT ${SHARE_LINK_COLUMNS}
+  FROM share_links l
+  JOIN sites s ON s.id = l.site_id
+  WHERE l.id = ?
+`);
+
+// The third parameter is a datetime('now', ?) modifier like "+86400 seconds"
+export const insertShareLink = db.query<{ id: number }, [number, string, string, number | null, number]>(`
+  INSERT INTO share_links (site_id, path, expires_at, max_uses, created_by_key_id)
+  VALUES (?, ?, datetime('now', ?), ?, ?)
+  RETURNING id
+`);
+
+export const revokeShareLinkQuery = db.query<any, [number]>(
+  `UPDATE share_links SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL`
+);
+
+// Counts a use unless the limit is reached (no changes = used up)
+export const useShareLink = db.query<any, [number]>(`
+  UPDATE share_links SET uses = uses + 1, last_used_at = CURRENT_TIMESTAMP
+  WHERE id = ? AND (max_uses IS NULL OR uses < max_uses)
+`);
+
+export const deleteSiteShareLinks = db.query<any, [number]>(`DELETE FROM share_links WHERE site_id = ?`);
+
+/**
+ * A secret generated on first use and kept in the DB.
+ */
+export function getOrCreateSecret(name: string, generate: () => string): string {
+  db.run(`INSERT OR IGNORE INTO server_secrets (name, value) VALUES (?, ?)`, [name, generate()]);
+  return db.query<{ value: string }, [string]>(`SELECT value FROM server_secrets WHERE name = ?`).get(name)!.value;
+}
+
 // === Access log queries ===
-export const logAccess = db.query<any, [number, string, string, number]>(
-  `INSERT INTO access_log (site_id, ip, path, status) VALUES (?, ?, ?, ?)`
+export const logAccess = db.query<any, [number, string | null, string, number, number, string | null, string | null, string]>(`
+  INSERT INTO access_log (site_id, ip, path, status, bytes, referrer, user_agent, timestamp)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+`);
+
+
+// Every hostname Caddy serves for a site: its subdomain, aliases and verified custom domains
+export const getSiteHosts = db.query<{ kind: "site" | "alias" | "domain"; host: string; site_id: number }, []>(`
+  SELECT 'site' as kind, name as host, id as site_id FROM sites
+  UNION ALL
+  SELECT 'alias', name, site_id FROM site_aliases
+  UNION ALL
+  SELECT 'domain', domain, site_id FROM site_domains WHERE verified_at IS NOT NULL
+`);
+
+export const getHostsVersion = db.query<{ version: number }, []>(`SELECT version FROM host_changes`);
+
+export const getLogOffset = db.query<{ inode: number; offset: number }, [string]>(
+  `SELECT inode, offset FROM log_offsets WHERE path = ?`
 );
 
-export const getGlobalStats = db.query<any, []>(`
+const saveLogOffset = db.query<any, [string, number, number]>(`
+  INSERT INTO log_offsets (path, inode, offset) VALUES (?1, ?2, ?3)
+  ON CONFLICT(path) DO UPDATE SET inode = ?2, offset = ?3, updated_at = CURRENT_TIMESTAMP
+`);
+
+/**
+ * Store ingested log entries together with the new offset, so a crash
+ * between the two can't count lines twice.
+ */
+export const recordAccessLog = db.transaction(
+  (path: string, inode: number, offset: number, entries: Parameters<typeof logAccess.run>[]) => {
+    for (const entry of entries) logAccess.run(...entry);
+    saveLogOffset.run(path, inode, offset);
+  }
+);
+
+// Recompute whole buckets from the bucket containing ?1 onwards
+function rollupQuery(table: string, format: string) {
+  return db.query<any, [string]>(`
+    INSERT OR REPLACE INTO ${table}
+    SELECT site_id, strftime('${format}', timestamp), COUNT(*), COUNT(DISTINCT ip), COALESCE(SUM(bytes), 0),
+      SUM(status BETWEEN 200 AND 299), SUM(status BETWEEN 300 AND 399),
+      SUM(status BETWEEN 400 AND 499), SUM(status >= 500)
+    FROM access_log
+    WHERE timestamp >= strftime('${format}', ?1)
+    GROUP BY site_id, 2
+  `);
+}
+
+const rollupHourly = rollupQuery("access_rollup_hourly", "%Y-%m-%d %H:00:00");
+const rollupDaily = rollupQuery("access_rollup_daily", "%Y-%m-%d 00:00:00");
+
+const rollupTop = db.query<any, [string]>(`
+  INSERT OR REPLACE INTO access_rollup_top
+  SELECT site_id, date(timestamp), kind, value, COUNT(*)
+  FROM (
+    SELECT site_id, timestamp, 'referrer' as kind, referrer as value FROM access_log
+    WHERE referrer IS NOT NULL AND timestamp >= date(?1)
+    UNION ALL
+    SELECT site_id, timestamp, 'user_agent', user_agent FROM access_log
+    WHERE user_agent IS NOT NULL AND timestamp >= date(?1)
+  )
+  GROUP BY site_id, date(timestamp), kind, value
+`);
+
+/**
+ * Update the rollup tables for entries logged at or after `since`
+ * ("YYYY-MM-DD HH:MM:SS").
+ */
+export const rollupAccessLog = db.transaction((since: string) => {
+  rollupHourly.run(since);
+  rollupDaily.run(since);
+  rollupTop.run(since);
+});
+
+// Build rollups for access logs recorded before they existed
+if (!db.query(`SELECT 1 FROM access_rollup_daily LIMIT 1`).get()) {
+  rollupAccessLog("0000-01-01 00:00:00");
+}
+
+export const deleteSiteAccessLog = db.transaction((siteId: number) => {
+  for (const table of ["access_log", "access_rollup_hourly", "access_rollup_daily", "access_rollup_top"]) {
+    db.run(`DELETE FROM ${table} WHERE site_id = ?`, [siteId]);
+  }
+});
+
+export interface TrafficBucket {
+  bucket: string;
+  requests: number;
+  visitors: number;
+  bytes: number;
+  status_2xx: number;
+  status_3xx: number;
+  status_4xx: number;
+  status_5xx: number;
+}
+
+export const getHourlyTraffic = db.query<TrafficBucket, [number, string, string]>(`
+  SELECT bucket, requests, visitors, bytes, status_2xx, status_3xx, status_4xx, status_5xx
+  FROM access_rollup_hourly
+  WHERE site_id = ? AND bucket >= ? AND bucket < ?
+  ORDER BY bucket
+`);
+
+export const getDailyTraffic = db.query<TrafficBucket, [number, string, string]>(`
+  SELECT bucket, requests, visitors, bytes, status_2xx, status_3xx, status_4xx, status_5xx
+  FROM access_rollup_daily
+  WHERE site_id = ? AND bucket >= ? AND bucket < ?
+  ORDER BY bucket
+`);
+
+// Top referrers or user agents over whole days
+export const getTopTrafficValues = db.query<{ value: string; count: number }, [number, string, string, string, number]>(`
+  SELECT value, SUM(count) as count
+  FROM access_rollup_top
+  WHERE site_id = ? AND kind = ? AND day >= date(?) AND day <= date(?)
+  GROUP BY value
+  ORDER BY count DESC, value
+  LIMIT ?
+`);
+
+// Pass a JSON array of site IDs to count only those sites, or NULL for all
+export const getGlobalStats = db.query<any, [string | null]>(`
   SELECT
-    (SELECT COUNT(*) FROM sites) as total_sites,
-    (SELECT COUNT(*) FROM access_log) as total_requests
+    (SELECT COUNT(*) FROM sites
+      WHERE ?1 IS NULL OR id IN (SELECT value FROM json_each(?1))) as total_sites,
+    (SELECT COUNT(*) FROM access_log
+      WHERE ?1 IS NULL OR site_id IN (SELECT value FROM json_each(?1))) as total_requests
 `);
 
 export const getSiteStats = db.query<any, [string]>(`
@@ -0,0 +1,85 @@
+/**
+ * Deployment storage helpers.
+ *
+ * Each site keeps its deployments under SITES_ROOT/.deployments/<site>/<id>.
+ * The site path itself (SITES_ROOT/<site>) becomes a symlink to the live
+ * deployment, so Caddy and the file routes keep using `site.path` unchanged
+ * and a swap is a single atomic rename.
+ */
+
+import { existsSync, lstatSync, mkdirSync, readdirSync, renameSync, rmSync, symlinkSync } from "fs";
+import { basename, dirname, join, resolve } from "path";
+
+/**
+ * Directory holding all deployments of a site.
+ * Site names can't contain dots, so `.deployments` never collides with a site.
+ */
+export function getDeploymentsDir(sitePath: string): string {
+  return join(dirname(sitePath), ".deployments", basename(sitePath));
+}
+
+/**
+ * Directory of a single deployment.
+ */
+export function getDeploymentPath(sitePath: string, id: number): string {
+  return join(getDeploymentsDir(sitePath), String(id));
+}
+
+/**
+ * Whether the site path is a regular directory (content uploaded before
+ * deployments were used) rather than a symlink to a deployment.
+ */
+export function hasLegacyContent(sitePath: string): boolean {
+  if (!existsSync(sitePath)) return false;
+  const stat = lstatSync(sitePath);
+  return stat.isDirectory() && !stat.isSymbolicLink() && readdirSync(sitePath).length > 0;
+}
+
+/**
+ * Move legacy site content into a deployment directory so it can be rolled
+ * back to later. The site path is left missing until activateDeployment runs.
+ */
+export function adoptLegacyContent(sitePath: string, deploymentPath: string): void {
+  mkdirSync(dirname(deploymentPath), { recursive: true });
+  renameSync(sitePath, deploymentPath);
+}
+
+/**
+ * Point the site path at a deployment directory.
+ *
+ * A temporary symlink is created next to the site path and renamed over it,
+ * which atomically replaces an existing symlink. An empty regular directory
+ * (a site that never received files) is removed first.
+ */
+export function activateDeployment(sitePath: string, deploymentPath: string): void {
+  if (hasLegacyContent(sitePath)) {
+    throw new Error(`${sitePath} still has legacy content`);
+  }
+
+  const tmpLink = `${sitePath}.swap-${process.pid}-${Date.now()}`;
+  symlinkSync(resolve(deploymentPath), tmpLink, "dir");
+
+  try {
+    if (existsSync(sitePath) && !lstatSync(sitePath).isSymbolicLink()) {
+      rmSync(sitePath, { recursive: true, force: true });
+    }
+    renameSync(tmpLink, sitePath);
+  } catch (e) {
+    rmSync(tmpLink, { force: true });
+    throw e;
+  }
+}
+
+/**
+ * Remove a deployment directory from disk.
+ */
+export function removeDeployment(sitePath: string, id: number): void {
+  rmSync(getDeploymentPath(sitePath, id), { recursive: true, force: true });
+}
+
+/**
+ * Remove every deployment of a site from disk.
+ */
+export function removeAllDeployments(sitePath: string): void {
+  rmSync(getDeploymentsDir(sitePath), { recursive: true, force: true });
+}
@@ -0,0 +1,72 @@
+/**
+ * Ownership verification for custom domains.
+ *
+ * A domain is verified when either a TXT record `_sf-verify.<domain>`
+ * contains `sf-verify=<token>`, or `http://<domain>/.well-known/sf-verify.txt`
+ * returns the token. Lookups go through VerifyDeps so tests can stub them.
+ */
+
+import { resolveTxt } from "dns/promises";
+import { randomBytes } from "crypto";
+
+const HTTP_TIMEOUT_MS = 5000;
+
+export interface VerifyDeps {
+  resolveTxt: (hostname: string) => Promise<string[][]>;
+  fetch: (url: string, init?: RequestInit) => Promise<Response>;
+}
+
+export interface VerifyResult {
+  verified: boolean;
+  method: "txt" | "http" | null;
+}
+
+const defaultDeps: VerifyDeps = { resolveTxt, fetch };
+
+/**
+ * Generate an unguessable verification token.
+ */
+export function generateToken(): string {
+  return randomBytes(16).toString("hex");
+}
+
+/**
+ * What the domain owner has to publish to prove ownership.
+ */
+export function getVerificationInstructions(domain: string, token: string) {
+  return {
+    txt_name: `_sf-verify.${domain}`,
+    txt_value: `sf-verify=${token}`,
+    http_url: `http://${domain}/.well-known/sf-verify.txt`,
+    http_body: token,
+  };
+}
+
+/**
+ * Check whether the domain publishes its token, trying DNS first.
+ * Lookup failures count as "not verified" rather than errors.
+ */
+export async function verifyDomain(domain: string, token: string, deps: VerifyDeps = defaultDeps): Promise<VerifyResult> {
+  const { txt_name, txt_value, http_url } = getVerificationInstructions(domain, token);
+
+  try {
+    // Long TXT records come back split into chunks
+    const records = await deps.resolveTxt(txt_name);
+    if (records.some(chunks => chunks.join("").trim() === txt_value)) {
+      return { verified: true, method: "txt" };
+    }
+  } catch {
+    // No record (ENOTFOUND/ENODATA): fall through to HTTP
+  }
+
+  try {
+    const res = await deps.fetch(http_url, { signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+    if (res.ok && (await res.text()).trim() === token) {
+      return { verified: true, method: "http" };
+    }
+  } catch {
+    // Unreachable host or timeout
+  }
+
+  return { verified: false, method: null };
+}
@@ -1,54 +1,226 @@
 import { OpenAPIHono, createRoute, z } from "@hono/zod-openapi";
-import { createHash } from "crypto";
-import { readdirSync, statSync, mkdirSync, rmSync, unlinkSync, existsSync } from "fs";
-import { join, relative, dirname } from "path";
+import type { Context } from "hono";
 import {
-  SiteSchema, CreateSiteSchema, UpdateSiteAuthSchema,
-  FileSchema, UploadResultSchema,
-  StatsSchema, SiteStatsSchema,
-  ErrorSchema, SuccessSchema, HealthSchema
+  readdirSync, readFileSync, statSync, mkdirSync, rmSync, unlinkSync, existsSync, cpSync, renameSync, appendFileSync
+} from "fs";
+import { join, relative, dirname, resolve, sep, posix } from "path";
+import {
+  SiteSchema, CreateSiteSchema, UpdateSiteSchema, UpdateQuotaSchema, TransferSiteSchema, ExtendSiteSchema,
+  SiteUserSchema, CreateSiteUserSchema,
+  FileSchema, UploadResultSchema, FileOperationSchema, FileOperationResultSchema,
+  SyncRequestSchema, SyncResultSchema,
+  CreateUploadSchema, UploadSessionSchema,
+  DeploymentSchema, CreateDeploymentSchema, AliasSchema, CreateAliasSchema,
+  ShareLinkSchema, ShareLinkSecretSchema, CreateShareLinkSchema,
+  DomainSchema, CreateDomainSchema,
+  ApiKeySchema, CreateApiKeySchema, ApiKeySecretSchema, AuditPageSchema,
+  WebhookSchema, CreateWebhookSchema, WebhookSecretSchema, WebhookDeliverySchema,
+  StatsSchema, SiteStatsSchema, TimeseriesSchema, ReconcileRequestSchema, ReconcileReportSchema,
+  ErrorSchema, SuccessSchema, HealthSchema, MAX_SITE_EXPIRY_SECONDS,
 } from "./schema";
 import * as db from "./db";
 import * as caddy from "./caddy";
-import { safePath } from "./utils";
-import { logging, rateLimit } from "./middleware";
+import * as deployments from "./deployments";
+import * as uploads from "./uploads";
+import * as domains from "./domains";
+import * as rules from "./rules";
+import * as accessLogs from "./access-logs";
+import * as metrics from "./metrics";
+import * as webhooks from "./webhooks";
+import * as reconcile from "./reconcile";
+import * as quotas from "./quota";
+import * as shareLinks from "./share-links";
+import * as ipRules from "./ip-rules";
+import * as reapers from "./reapers";
+import {
+  safePath, hashFile, getBoundary, openMultipartFile, writeStreamToFile, readStreamLimited, StreamLimitError, parseRange,
+} from "./utils";
+import { extractArchive, ArchiveError } from "./archive";
+import {
+  logging, rateLimit, createScopeGuard, canAccessSite, toAuthKey, generateApiKey, hashApiKey, parseSites,
+  type AuthKey, type AuthVariables, type LoggingVariables,
+} from "./middleware";
+
+type AppVariables = AuthVariables & LoggingVariables;
 
-const app = new OpenAPIHono();
+const app = new OpenAPIHono<{ Variables: AppVariables }>();
 
 const SITES_ROOT = process.env.SF_SITES_ROOT || "./sites";
 const PORT = parseInt(process.env.SF_PORT || "3000");
+const SITES_DOMAIN = process.env.SF_DOMAIN || "498as.com";
 const MAX_FILE_SIZE = parseInt(process.env.SF_MAX_FILE_MB || "50") * 1024 * 1024;
+const DEFAULT_QUOTA = parseInt(process.env.SF_DEFAULT_QUOTA_MB || "100") * 1024 * 1024;
+const QUOTA_WARN_AT = quotas.parseThresholds(process.env.SF_QUOTA_WARN_AT ?? "80,95");
+const QUOTA_GRACE: quotas.GracePolicy = {
+  percent: parseInt(process.env.SF_QUOTA_GRACE_PERCENT || "0"),
+  seconds: parseInt(process.env.SF_QUOTA_GRACE_HOURS || "72") * 60 * 60,
+};
+const QUOTA_ALERT_MAILBOX = process.env.SF_QUOTA_ALERT_MAILBOX || "";
+const QUOTA_ALERT_TO = process.env.SF_QUOTA_ALERT_TO || "root@localhost";
+const DEPLOYMENTS_KEEP = parseInt(process.env.SF_DEPLOYMENTS_KEEP || "5");
+const MAX_ARCHIVE_SIZE = parseInt(process.env.SF_MAX_ARCHIVE_MB || "200") * 1024 * 1024;
+const MAX_ARCHIVE_ENTRIES = parseInt(process.env.SF_MAX_ARCHIVE_ENTRIES || "10000");
+const MAX_CHUNK_SIZE = parseInt(process.env.SF_MAX_CHUNK_MB || "10") * 1024 * 1024;
+const UPLOAD_EXPIRY_HOURS = parseInt(process.env.SF_UPLOAD_EXPIRY_HOURS || "24");
+const ACCESS_LOG = process.env.SF_ACCESS_LOG || "/var/log/caddy/sites.log";
+const METRICS_TOKEN = process.env.SF_METRICS_TOKEN || "";
+// Hosts webhooks may reach even though they resolve to private addresses
+const WEBHOOK_ALLOW_HOSTS = (process.env.SF_WEBHOOK_ALLOW_HOSTS || "").toLowerCase().split(/[\s,]+/).filter(Boolean);
+// Signs share links; changing it invalidates every link handed out
+const SHARE_SECRET = process.env.SF_SHARE_SECRET || db.getOrCreateSecret("share_links", shareLinks.generateShareSecret);
 
 // Ensure sites directory exists
 mkdirSync(SITES_ROOT, { recursive: true });
 
+// Cleanup jobs, see reapers.ts
+const reapSites = () => reapers.reapExpiredSites(site => {
+  emit("site.deleted", site, { reason: "expired", expires_at: site.expires_at });
+});
+const reapDeployments = () => reapers.reapStaleDeployments(UPLOAD_EXPIRY_HOURS);
+reapers.reapExpiredUploads();
+setInterval(reapers.reapExpiredUploads, 10 * 60 * 1000);
+reapDeployments();
+setInterval(reapDeployments, 10 * 60 * 1000);
+reapers.reapExpiredAliases();
+setInterval(reapers.reapExpiredAliases, 60 * 1000);
+reapSites();
+setInterval(reapSites, 60 * 1000);
+
+// Hostname → site ID for log ingestion and share link checks, rebuilt only
+// after a site, alias or domain hostname changes
+let siteHosts = { version: -1, resolve: (_host: string): number | null => null };
+function resolveSiteHost(host: string): number | null {
+  const { version } = db.getHostsVersion.get()!;
+  if (version !== siteHosts.version) {
+    siteHosts = { version, resolve: accessLogs.createHostResolver(SITES_DOMAIN, db.getSiteHosts.all()) };
+  }
+  return siteHosts.resolve(host);
+}
+
+// Import new requests from Caddy's access log for stats
+function ingestAccessLog() {
+  try {
+    const previous = db.getLogOffset.get(ACCESS_LOG);
+    const { lines, offset } = accessLogs.readNewLines(ACCESS_LOG, previous);
+    if (previous && offset.inode === previous.inode && offset.offset === previous.offset) return;
+
+    const entries: Parameters<typeof db.logAccess.run>[] = [];
+    for (const line of lines) {
+      const entry = accessLogs.parseCaddyLogLine(line);
+      const siteId = entry && resolveSiteHost(entry.host);
+      if (!entry || siteId === null) continue;
+      entries.push([siteId, entry.ip, entry.path, entry.status, entry.bytes, entry.referrer, entry.user_agent, entry.timestamp]);
+    }
+
+    db.recordAccessLog(ACCESS_LOG, offset.inode, offset.offset, entries);
+    if (entries.length > 0) {
+      db.rollupAccessLog(entries.reduce((min, entry) => (entry[7] < min ? entry[7] : min), entries[0][7]));
+    }
+  } catch (e: any) {
+    metrics.recordError(e);
+    console.error("Failed to ingest access log:", e.message);
+  }
+}
+ingestAccessLog();
+setInterval(ingestAccessLog, 30 * 1000);
+
+// Send queued webhook events. Failures are retried with exponential backoff
+// until MAX_ATTEMPTS, then marked failed.
+let deliveringWebhooks = false;
+async function processWebhookQueue() {
+  if (deliveringWebhooks) return;
+  deliveringWebhooks = true;
+  try {
+    let due;
+    while ((due = db.getDueDeliveries.all(20)).length > 0) {
+      await Promise.all(due.map(async delivery => {
+        // Checked again here: DNS may have changed since the webhook was created
+        const blocked = await webhooks.checkWebhookTarget(delivery.url, WEBHOOK_ALLOW_HOSTS);
+        const result = blocked
+          ? { ok: false, status: null, error: blocked }
+          : await webhooks.deliver(delivery.url, delivery.secret, delivery);
+        if (result.ok) {
+          db.markDelivered.run(result.status, delivery.id);
+          return;
+        }
+        const attempts = delivery.attempts + 1;
+        const delay = attempts < webhooks.MAX_ATTEMPTS ? `+${webhooks.retryDelay(attempts)} seconds` : null;
+        db.markAttemptFailed.run(result.status, result.error, delay, delivery.id);
+      }));
+    }
+  } catch (e: any) {
+    metrics.recordError(e);
+    console.error("Failed to deliver webhooks:", e.message);
+  } finally {
+    deliveringWebhooks = false;
+  }
+}
+processWebhookQueue();
+setInterval(processWebhookQueue, 15 * 1000);
+
+// Correct used_bytes drift. Orphan and missing directories are only logged;
+// repairing them moves files, so it's left to POST /admin/reconcile.
+function reconcileUsage() {
+  try {
+    const { drift, orphans, missing } = reconcileStorage({ usage: true, dirs: false });
+    for (const { site, recorded, actual } of drift) {
+      console.warn(`Corrected used_bytes of ${site}: ${recorded} -> ${actual}`);
+    }
+    if (orphans.length > 0) console.warn(`Directories without a site: ${orphans.join(", ")}`);
+    if (missing.length > 0) console.warn(`Sites without a directory: ${missing.join(", ")}`);
+  } catch (e: any) {
+    metrics.recordError(e);
+    console.error("Failed to reconcile storage:", e.message);
+  }
+}
+reconcileUsage();
+setInterval(reconcileUsage, 60 * 60 * 1000);
+
 // === Logging middleware ===
 app.use("*", logging());
 
 // === Rate limiting middleware ===
-app.use("*", rateLimit());
+// Caddy checks every request made with a share link, so pages with many
+// assets would hit the limit
+const limiter = rateLimit();
+app.use("*", (c, next) => (c.req.path === shareLinks.VERIFY_PATH ? next() : limiter(c, next)));
 
 // === Auth middleware ===
 app.use("*", async (c, next) => {
-  // Skip auth for openapi.json and health check
-  if (c.req.path === "/openapi.json" || c.req.path === "/health") return next();
+  // Skip auth for openapi.json and health check; /metrics checks its own token
+  // and the share link check is authorized by the link itself
+  if (
+    c.req.path === "/openapi.json" || c.req.path === "/health" || c.req.path === "/metrics"
+    || c.req.path === shareLinks.VERIFY_PATH
+  ) return next();
 
   const authHeader = c.req.header("Authorization");
   if (!authHeader?.startsWith("Bearer ")) {
     return c.json({ error: "Missing API key" }, 401);
   }
 
-  const key = authHeader.slice(7);
-  const hash = createHash("sha256").update(key).digest("hex");
-  const apiKey = db.getApiKey.get(hash);
+  const apiKey = db.getApiKey.get(hashApiKey(authHeader.slice(7)));
 
   if (!apiKey) {
     return c.json({ error: "Invalid API key" }, 401);
   }
+  if (apiKey.revoked_at) {
+    return c.json({ error: "API key revoked" }, 401);
+  }
+  if (apiKey.expired) {
+    return c.json({ error: "API key expired" }, 401);
+  }
+
+  db.touchApiKey.run(apiKey.id);
 
+  // Routes check scopes and the site allowlist with requireScope()
+  c.set("apiKey", toAuthKey(apiKey));
   return next();
 });
 
+// Per-route scope and site ownership checks
+const requireScope = createScopeGuard(name => db.getSite.get(name));
+
 // === Helper functions ===
 function hashPassword(pass: string): string {
   // Use bcrypt-style hash for Caddy compatibility
@@ -103,6 +275,430 @@ function getDirSize(dir: string): number {
   return size;
 }
 
+/**
+ * Compare the sites table with SITES_ROOT, optionally repairing what differs:
+ * `usage` sets used_bytes to the size on disk, `dirs` moves orphan directories
+ * to .orphaned/ and recreates missing site directories (pointing them back at
+ * the live deployment if it still exists).
+ */
+function reconcileStorage(fix: { usage: boolean; dirs: boolean }): reconcile.ReconcileReport {
+  const sites = db.getSiteDirs.all();
+  const report = reconcile.scanSites(SITES_ROOT, sites, getDirSize);
+
+  if (fix.usage) {
+    for (const { site, recorded, actual } of report.drift) {
+      db.correctUsedBytes.run(actual, site, recorded);
+      updateQuotaState(site);
+    }
+  }
+
+  if (fix.dirs) {
+    for (const name of report.orphans) {
+      reconcile.moveOrphan(SITES_ROOT, name);
+    }
+    for (const site of sites.filter(site => report.missing.includes(site.name))) {
+      const live = site.current_deployment_id && deployments.getDeploymentPath(site.path, site.current_deployment_id);
+      if (live && existsSync(live)) {
+        deployments.activateDeployment(site.path, live);
+      } else {
+        rmSync(site.path, { force: true });  // Dangling symlink
+        mkdirSync(site.path, { recursive: true });
+      }
+      db.correctUsedBytes.run(getDirSize(site.path), site.name, site.used_bytes);
+      updateQuotaState(site.name);
+    }
+  }
+
+  return report;
+}
+
+function formatSite(row: any) {
+  const { over_quota_since, quota_alert, auth_hash, ...site } = row;
+  const thresholds = quotas.getThresholds(row, QUOTA_WARN_AT);
+  const users: string[] = row.auth_users ? row.auth_users.split(" ") : [];
+  return {
+    ...site,
+    auth_user: users[0] ?? null,
+    auth_users: users,
+    ip_allow: ipRules.splitIpRules(row.ip_allow),
+    ip_deny: ipRules.splitIpRules(row.ip_deny),
+    spa_fallback: Boolean(row.spa_fallback),
+    clean_urls: Boolean(row.clean_urls),
+    quota_warn_at: thresholds,
+    quota_state: quotas.quotaState(row, thresholds, QUOTA_GRACE),
+    grace_ends_at: quotas.graceEndsAt(row, QUOTA_GRACE)?.toISOString() ?? null,
+  };
+}
+
+function formatApiKey(row: any) {
+  return { ...row, scopes: row.scopes.split(" "), sites: parseSites(row.sites) };
+}
+
+function formatWebhook(row: any) {
+  return { ...row, events: row.events.split(" "), sites: parseSites(row.sites) };
+}
+
+function isAdminKey(row: any): boolean {
+  return row.scopes.split(" ").includes("admin");
+}
+
+function formatUpload(row: any) {
+  const { overwrite, ...upload } = row;
+  return upload;
+}
+
+function formatDeployment(row: any) {
+  return { ...row, live: Boolean(row.live) };
+}
+
+function formatAlias(row: any) {
+  return { ...row, url: caddy.getSiteUrl(row.name) };
+}
+
+function formatShareLink(row: any) {
+  const { site_id, expired, ...link } = row;
+  let status: "active" | "expired" | "used_up" | "revoked" = "active";
+  if (row.revoked_at) status = "revoked";
+  else if (expired) status = "expired";
+  else if (row.max_uses !== null && row.uses >= row.max_uses) status = "used_up";
+  return { ...link, status };
+}
+
+function formatDomain(row: any) {
+  const { token, ...domain } = row;
+  return {
+    ...domain,
+    primary: Boolean(row.primary),
+    verified: Boolean(row.verified_at),
+    verification: domains.getVerificationInstructions(row.domain, token),
+  };
+}
+
+/**
+ * Turn expires_in (seconds) or expires_at (ISO 8601) into a datetime('now', ?)
+ * modifier, null if neither is given.
+ */
+function parseExpiry(body: { expires_in?: number; expires_at?: string | null }): { modifier: string | null } | { error: string } {
+  if (body.expires_in !== undefined && body.expires_at) {
+    return { error: "Give either expires_in or expires_at, not both" };
+  }
+
+  let seconds: number;
+  if (body.expires_in !== undefined) {
+    seconds = body.expires_in;
+  } else if (!body.expires_at) {
+    return { modifier: null };
+  } else {
+    const at = Date.parse(body.expires_at);
+    if (Number.isNaN(at)) {
+      return { error: "expires_at must be an ISO 8601 timestamp" };
+    }
+    seconds = Math.ceil((at - Date.now()) / 1000);
+    if (seconds <= 0) {
+      return { error: "expires_at must be in the future" };
+    }
+  }
+
+  if (seconds > MAX_SITE_EXPIRY_SECONDS) {
+    return { error: "Sites can be set to expire at most a year ahead" };
+  }
+  const modifier = `+${seconds} seconds`;
+  if (!db.resolveExpiry.get(modifier)!.expires_at) {
+    return { error: "Invalid expiry" };
+  }
+  return { modifier };
+}
+
+/**
+ * Make a deployment the live content of a site and prune old deployments,
+ * keeping the newest DEPLOYMENTS_KEEP besides the live one for rollback.
+ */
+function goLive(site: any, deploymentId: number): void {
+  const deploymentPath = deployments.getDeploymentPath(site.path, deploymentId);
+  deployments.activateDeployment(site.path, deploymentPath);
+  db.setCurrentDeployment.run(deploymentId, getDirSize(deploymentPath), site.name);
+  updateQuotaState(site.name);
+
+  for (const old of db.getPrunableDeployments.all(site.name, DEPLOYMENTS_KEEP)) {
+    deployments.removeDeployment(site.path, old.id);
+    db.deleteDeploymentQuery.run(old.id);
+  }
+}
+
+type WriteTarget = { site: string; baseDir: string; deploymentId: number | null; used: number };
+
+/**
+ * Resolve where file writes for a site go: the live site, or a staging
+ * deployment when one is given. `used` is the byte count the quota is checked against
+ * (a staging deployment must fit in the quota on its own), including space
+ * reserved by in-progress resumable uploads.
+ */
+function getWriteTarget(site: any, deploymentId?: string): WriteTarget | { error: string; status: 404 | 409 } {
+  if (!deploymentId) {
+    const { reserved } = db.getReservedBytes.get(site.id, null)!;
+    return { site: site.name, baseDir: site.path, deploymentId: null, used: site.used_bytes + reserved };
+  }
+
+  const deployment = db.getDeployment.get(site.name, parseInt(deploymentId));
+  if (!deployment) {
+    return { error: "Deployment not found", status: 404 };
+  }
+  if (deployment.status !== "staging") {
+    return { error: "Deployment is already finalized", status: 409 };
+  }
+
+  const { reserved } = db.getReservedBytes.get(site.id, deployment.id)!;
+  return {
+    site: site.name,
+    baseDir: deployments.getDeploymentPath(site.path, deployment.id),
+    deploymentId: deployment.id,
+    used: deployment.size_bytes + reserved,
+  };
+}
+
+// Files under a path: 0 if missing, 1 for a file
+function countFiles(path: string): number {
+  if (!existsSync(path)) return 0;
+  return statSync(path).isDirectory() ? getFilesRecursive(path).length : 1;
+}
+
+/**
+ * Error if adding `newFiles` files would exceed the site's max_files.
+ * Only counts files on disk when the site has a limit.
+ */
+function checkFileLimit(target: WriteTarget, newFiles: number): { error: string } | null {
+  if (newFiles <= 0) return null;
+  const limit = db.getSiteQuota.get(target.site)?.max_files;
+  if (!limit) return null;
+
+  const count = countFiles(target.baseDir);
+  if (count + newFiles <= limit) return null;
+  return { error: `File limit exceeded. Files: ${count} / ${limit}. Adding: ${newFiles}` };
+}
+
+function addUsedBytes(target: WriteTarget, delta: number): void {
+  if (delta === 0) return;
+  if (target.deploymentId) {
+    db.incrementDeploymentBytes.run(delta, target.deploymentId);
+    return;
+  }
+  if (delta > 0) {
+    db.incrementUsedBytes.run(delta, target.site);
+  } else {
+    db.decrementUsedBytes.run(-delta, target.site);
+  }
+  updateQuotaState(target.site);
+}
+
+/**
+ * The most bytes a site (or a staging deployment) may use after a write,
+ * including the grace margin while the grace period lasts.
+ */
+function quotaLimit(usage: quotas.QuotaUsage): number {
+  return quotas.uploadLimit(usage, QUOTA_GRACE);
+}
+
+/**
+ * Quota warnings for an upload response, from usage after the write.
+ * A staging deployment is measured on its own, like the quota check.
+ */
+function quotaWarnings(target: WriteTarget): { warnings?: string[] } {
+  const usage = db.getSiteQuota.get(target.site);
+  if (!usage) return {};
+
+  const used = target.deploymentId
+    ? db.getDeployment.get(target.site, target.deploymentId)?.size_bytes ?? 0
+    : usage.used_bytes;
+  const thresholds = quotas.getThresholds(usage, QUOTA_WARN_AT);
+  const warnings = quotas.quotaWarnings({ ...usage, used_bytes: used }, thresholds, QUOTA_GRACE);
+  return warnings.length > 0 ? { warnings } : {};
+}
+
+/**
+ * Recompute a site's alert level after its usage or quota changed, starting
+ * or ending the grace period. Crossing a higher threshold than last time is
+ * logged, sent to site.quota_alert webhooks and, if SF_QUOTA_ALERT_MAILBOX is
+ * set, appended there as an email; dropping below re-arms the alert.
+ */
+function updateQuotaState(name: string): void {
+  const before = db.getSiteQuota.get(name);
+  if (!before) return;
+
+  const thresholds = quotas.getThresholds(before, QUOTA_WARN_AT);
+  const level = quotas.alertLevel(before.used_bytes, before.quota_bytes, thresholds);
+  if (level === before.quota_alert && (level === 100) === Boolean(before.over_quota_since)) return;
+
+  const usage = db.updateQuotaAlert.get(level, name)!;
+  if (level <= before.quota_alert) return;
+
+  const alert: quotas.QuotaAlert = {
+    site: name,
+    threshold: level,
+    state: quotas.quotaState(usage, thresholds, QUOTA_GRACE),
+    used_bytes: usage.used_bytes,
+    quota_bytes: usage.quota_bytes,
+    grace_ends_at: quotas.graceEndsAt(usage, QUOTA_GRACE)?.toISOString() ?? null,
+  };
+
+  console.warn(JSON.stringify({ level: "warn", event: "quota.alert", ...alert, timestamp: new Date().toISOString() }));
+
+  const site = db.getSite.get(name);
+  if (site) {
+    const { site: _, ...data } = alert;
+    emit("site.quota_alert", site, data);
+  }
+
+  if (QUOTA_ALERT_MAILBOX) {
+    try {
+      appendFileSync(QUOTA_ALERT_MAILBOX, quotas.formatAlertEmail(alert, QUOTA_ALERT_TO));
+    } catch (e: any) {
+      console.error("Failed to write quota alert:", e.message);
+    }
+  }
+}
+
+/**
+ * Record a mutating call in the audit log. Updates use { field: [before, after] }
+ * in `diff`; undefined values are dropped.
+ */
+function audit(
+  c: Context<{ Variables: AppVariables }>,
+  action: string,
+  site: string | null,
+  target: string | number | null = null,
+  diff?: Record<string, unknown>
+): void {
+  const ip = c.req.header("x-forwarded-for") || c.req.header("x-real-ip") || null;
+  db.insertAudit.run(
+    c.get("apiKey").id,
+    action,
+    site,
+    target === null ? null : String(target),
+    c.get("requestId"),
+    ip,
+    diff ? JSON.stringify(diff) : null
+  );
+}
+
+/**
+ * Queue a webhook event for each subscriber. Webhooks only hear about sites
+ * their owner key can still access.
+ */
+function emit(
+  event: webhooks.WebhookEvent,
+  site: { name: string; owner_key_id: number | null },
+  data: Record<string, unknown> = {}
+): void {
+  const payload = JSON.stringify({ event, site: site.name, timestamp: new Date().toISOString(), data });
+  let queued = false;
+
+  for (const hook of db.getWebhookSubscribers.all()) {
+    if (!webhooks.matchesWebhook(hook, event, site.name)) continue;
+    if (!hook.key_scopes || hook.key_inactive) continue;
+
+    const owner = toAuthKey({ id: hook.owner_key_id, name: hook.key_name, scopes: hook.key_scopes, sites: hook.key_sites });
+    if (!canAccessSite(owner, site)) continue;
+
+    db.enqueueDelivery.run(hook.id, event, site.name, payload);
+    queued = true;
+  }
+
+  if (queued) processWebhookQueue();
+}
+
+// site.auth_changed with the site's users after the change
+function emitAuthChanged(site: any, change: Record<string, unknown> = {}) {
+  const users = db.getSiteUsers.all(site.id).map(u => u.username);
+  emit("site.auth_changed", site, { ...change, users, auth_user: users[0] ?? null, enabled: users.length > 0 });
+}
+
+/**
+ * Fields that differ between two objects, as { field: [before, after] }.
+ */
+function changes(before: Record<string, unknown>, after: Record<string, unknown>): Record<string, [unknown, unknown]> {
+  const diff: Record<string, [unknown, unknown]> = {};
+  for (const key of Object.keys(after)) {
+    if (before[key] !== after[key]) diff[key] = [before[key], after[key]];
+  }
+  return diff;
+}
+
+/**
+ * Validate `_redirects` / `_headers` before they are written to a site root.
+ * `read` is only called for rule files.
+ */
+function checkRulesFile(relativePath: string, read: () => string): { error: string; details: rules.RuleError[] } | null {
+  if (!rules.isRulesFile(relativePath)) return null;
+
+  const errors = rules.validateRulesFile(relativePath, read());
+  if (errors.length === 0) return null;
+  return { error: rules.formatRuleErrors(relativePath, errors), details: errors };
+}
+
+/**
+ * Re-sync Caddy after the live site's `_redirects` / `_headers` may have
+ * changed. The content is already in place, so failures are only logged.
+ */
+async function syncLiveRules(): Promise<void> {
+  try {
+    await caddy.syncCaddy();
+  } catch (e: any) {
+    console.error("Failed to apply site rules:", e.message);
+  }
+}
+
+async function syncRulesIfChanged(target: WriteTarget, relativePaths: string[]): Promise<void> {
+  if (target.deploymentId || !relativePaths.some(rules.isRulesFile)) return;
+  await syncLiveRules();
+}
+
+type FileOperationPaths = { source: string; dest: string; files: number; size: number; existingSize: number };
+
+/**
+ * Validate the source and destination of a move or copy within a write target.
+ * Both must stay inside the target and neither may be its root.
+ * `existingSize` is what an overwritten destination frees.
+ */
+function resolveFileOperation(
+  target: WriteTarget,
+  op: { from: string; to: string; overwrite?: boolean }
+): FileOperationPaths | { error: string; status: 400 | 404 | 409 } {
+  const root = resolve(target.baseDir);
+  const source = safePath(target.baseDir, op.from);
+  const dest = safePath(target.baseDir, op.to);
+
+  if (!source || !dest || source === root || dest === root) {
+    return { error: "Invalid path", status: 400 };
+  }
+  if (!existsSync(source)) {
+    return { error: "Source not found", status: 404 };
+  }
+  if (dest === source || dest.startsWith(source + sep)) {
+    return { error: "Destination is inside the source", status: 400 };
+  }
+  // Replacing a directory the source is in would delete the source first
+  if (source.startsWith(dest + sep)) {
+    return { error: "Destination contains the source", status: 400 };
+  }
+
+  const isDir = statSync(source).isDirectory();
+  if (isDir && rules.isRulesFile(op.to)) {
+    return { error: `${op.to} must be a file`, status: 400 };
+  }
+  const files = isDir ? getFilesRecursive(source).length : 1;
+  const size = isDir ? getDirSize(source) : statSync(source).size;
+
+  let existingSize = 0;
+  if (existsSync(dest)) {
+    if (!op.overwrite) {
+      return { error: "Destination already exists. Set overwrite to replace it", status: 409 };
+    }
+    existingSize = statSync(dest).isDirectory() ? getDirSize(dest) : statSync(dest).size;
+  }
+
+  return { source, dest, files, size, existingSize };
+}
+
 // === Routes ===
 
 // Health check (no auth required)
@@ -141,6 +737,39 @@ app.openapi(
   }
 );
 
+// Storage per site, read from the DB on each scrape
+metrics.gauge("sf_site_used_bytes", "Bytes stored by each site", () =>
+  db.getSiteStorage.all().map(site => ({ labels: { site: site.name }, value: site.used_bytes }))
+);
+metrics.gauge("sf_site_quota_bytes", "Storage quota of each site", () =>
+  db.getSiteStorage.all().map(site => ({ labels: { site: site.name }, value: site.quota_bytes }))
+);
+
+app.openapi(
+  createRoute({
+    method: "get",
+    path: "/metrics",
+    tags: ["system"],
+    summary: "Prometheus metrics (Bearer SF_METRICS_TOKEN if set)",
+    responses: {
+      200: {
+        description: "Metrics in the Prometheus text format",
+        content: { "text/plain": { schema: z.string() } },
+      },
+      401: {
+        description: "Missing or wrong metrics token",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    if (METRICS_TOKEN && c.req.header("Authorization") !== `Bearer ${METRICS_TOKEN}`) {
+      return c.json({ error: "Invalid metrics token" }, 401);
+    }
+    return c.text(metrics.renderMetrics(), 200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+  }
+);
+
 // TODO: Fase 2 - Caddy Integration
 // Cuando se implemente, considerar:
 // - Wildcard subdomain approach vs dynamic routes
@@ -153,6 +782,7 @@ app.openapi(
   createRoute({
     method: "get",
     path: "/sites",
+    middleware: requireScope("sites:read"),
     tags: ["sites"],
     summary: "List all sites",
     responses: {
@@ -163,8 +793,9 @@ app.openapi(
     },
   }),
   (c) => {
-    const sites = db.getSites.all();
-    return c.json(sites);
+    const key = c.get("apiKey");
+    const sites = db.getSites.all().filter(site => canAccessSite(key, site));
+    return c.json(sites.map(formatSite));
   }
 );
 
@@ -173,6 +804,7 @@ app.openapi(
   createRoute({
     method: "post",
     path: "/sites",
+    middleware: requireScope("sites:write"),
     tags: ["sites"],
     summary: "Create a new site",
     request: {
@@ -187,6 +819,10 @@ app.openapi(
         description: "Invalid input",
         content: { "application/json": { schema: ErrorSchema } },
       },
+      403: {
+        description: "Key not allowed to create this site",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
       409: {
         description: "Site already exists",
         content: { "application/json": { schema: ErrorSchema } },
@@ -197,10 +833,24 @@ app.openapi(
     const body = c.req.valid("json");
     const sitePath = getSitePath(body.name);
 
+    // The new site is owned by the key, so only its allowlist can deny it
+    const key = c.get("apiKey");
+    if (!canAccessSite(key, { name: body.name, owner_key_id: key.id })) {
+      return c.json({ error: `This key can't access site: ${body.name}` }, 403);
+    }
+
     // Check if site exists
     if (db.getSite.get(body.name)) {
       return c.json({ error: "Site already exists" }, 409);
     }
+    if (db.getAlias.get(body.name)) {
+      return c.json({ error: `Hostname ${body.name} is used by an alias` }, 409);
+    }
+
+    const expiry = parseExpiry(body);
+    if ("error" in expiry) {
+      return c.json({ error: expiry.error }, 400);
+    }
 
     // Create directory
     mkdirSync(sitePath, { recursive: true });
@@ -214,7 +864,11 @@ app.openapi(
     }
 
     // Insert into DB first
-    const site = db.insertSite.get(body.name, sitePath, authUser, authHash);
+    const site = db.insertSite.get(body.name, sitePath, key.id, DEFAULT_QUOTA, expiry.modifier);
+    if (authUser && authHash) {
+      db.upsertSiteUser.run(site.id, authUser, authHash, key.id);
+      site.auth_users = authUser;
+    }
 
     // Sync to Caddy (regenerates config from DB)
     try {
@@ -222,12 +876,15 @@ app.openapi(
       await caddy.syncCaddy();
     } catch (e: any) {
       // Rollback: remove from DB and filesystem
+      db.deleteSiteUsers.run(site.id);
       db.deleteSiteQuery.run(body.name);
       rmSync(sitePath, { recursive: true, force: true });
       return c.json({ error: `Failed to configure Caddy: ${e.message}` }, 500);
     }
 
-    return c.json(site, 201);
+    audit(c, "site.create", body.name, null, { auth_user: authUser, expires_at: site.expires_at ?? undefined });
+    emit("site.created", site, { url: caddy.getSiteUrl(site.name, null) });
+    return c.json(formatSite(site), 201);
   }
 );
 
@@ -236,6 +893,7 @@ app.openapi(
   createRoute({
     method: "delete",
     path: "/sites/{name}",
+    middleware: requireScope("sites:write"),
     tags: ["sites"],
     summary: "Delete a site",
     request: {
@@ -260,36 +918,41 @@ app.openapi(
       return c.json({ error: "Site not found" }, 404);
     }
 
-    // Delete from DB first
-    db.deleteSiteQuery.run(name);
-
-    // Delete files
-    rmSync(site.path, { recursive: true, force: true });
+    await reapers.deleteSite(site);
 
     // Sync Caddy (removes the site from config)
-    await caddy.removeSite(name);
     await caddy.syncCaddy();
 
+    audit(c, "site.delete", name, null, { used_bytes: site.used_bytes, owner_key_id: site.owner_key_id });
+    emit("site.deleted", site);
     return c.json({ success: true, message: `Site ${name} deleted` });
   }
 );
 
-// Update site auth
+// Update site auth and serving options
 app.openapi(
   createRoute({
     method: "patch",
     path: "/sites/{name}",
+    middleware: requireScope("sites:write"),
     tags: ["sites"],
-    summary: "Update site authentication",
+    summary: "Update site authentication, IP rules and serving options",
+    description:
+      "Omitted fields are left unchanged. Page paths are relative to the site root. " +
+      "`auth` replaces every basic auth user; use /sites/{name}/users to manage several.",
     request: {
       params: z.object({ name: z.string() }),
-      body: { content: { "application/json": { schema: UpdateSiteAuthSchema } } },
+      body: { content: { "application/json": { schema: UpdateSiteSchema } } },
     },
     responses: {
       200: {
         description: "Site updated",
         content: { "application/json": { schema: SiteSchema } },
       },
+      400: {
+        description: "Conflicting options or invalid CIDR range",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
       404: {
         description: "Site not found",
         content: { "application/json": { schema: ErrorSchema } },
@@ -305,149 +968,142 @@ app.openapi(
       return c.json({ error: "Site not found" }, 404);
     }
 
-    let authUser: string | null = null;
-    let authHash: string | null = null;
-    if (body.auth) {
-      authUser = body.auth.user;
-      authHash = hashPassword(body.auth.pass);
+    // Pages are stored as absolute paths within the site, as Caddy rewrites to them
+    const page = (value: string | null | undefined, current: string | null) => {
+      if (value === undefined) return current;
+      return value === null ? null : posix.normalize(`/${value}`);
+    };
+
+    let ipAllow: string | null;
+    let ipDeny: string | null;
+    try {
+      ipAllow = body.ip_allow === undefined ? site.ip_allow : ipRules.parseIpRules(body.ip_allow);
+      ipDeny = body.ip_deny === undefined ? site.ip_deny : ipRules.parseIpRules(body.ip_deny);
+    } catch (e: any) {
+      return c.json({ error: e.message }, 400);
+    }
+
+    const config = {
+      spa_fallback: body.spa_fallback ?? Boolean(site.spa_fallback),
+      not_found_page: page(body.not_found_page, site.not_found_page),
+      error_page: page(body.error_page, site.error_page),
+      clean_urls: body.clean_urls ?? Boolean(site.clean_urls),
+      trailing_slash: body.trailing_slash ?? site.trailing_slash,
+      ip_allow: ipAllow,
+      ip_deny: ipDeny,
+    };
+
+    // /page/ can't be mapped to page.html without a trailing-slash-aware rewrite
+    if (config.clean_urls && config.trailing_slash === "always") {
+      return c.json({ error: "clean_urls serves /page from page.html, so it can't be combined with trailing_slash=always" }, 400);
+    }
+
+    const configDiff = changes({
+      spa_fallback: Boolean(site.spa_fallback),
+      not_found_page: site.not_found_page,
+      error_page: site.error_page,
+      clean_urls: Boolean(site.clean_urls),
+      trailing_slash: site.trailing_slash,
+      ip_allow: site.ip_allow,
+      ip_deny: site.ip_deny,
+    }, config);
+
+    // Before the config update, so the returned row has the new users
+    if (body.auth !== undefined) {
+      let authUser: string | null = null;
+      let authHash: string | null = null;
+      if (body.auth) {
+        authUser = body.auth.user;
+        authHash = hashPassword(body.auth.pass);
+      }
+
+      db.replaceSiteUsers(site.id, authUser && authHash ? { username: authUser, hash: authHash } : null, c.get("apiKey").id);
+      await caddy.updateSiteAuth(name, site.path, authHash ? { user: authUser!, hash: authHash } : null);
+      // Password changes show up as a change without revealing anything
+      audit(c, "auth.update", name, null, { auth_users: [site.auth_users, authUser], password_changed: Boolean(authHash) });
+      emitAuthChanged(site);
     }
 
-    // Update DB first
-    const updated = db.updateSiteAuth.get(authUser, authHash, name);
+    const updated = db.updateSiteConfig.get(
+      config.spa_fallback ? 1 : 0,
+      config.not_found_page,
+      config.error_page,
+      config.clean_urls ? 1 : 0,
+      config.trailing_slash,
+      config.ip_allow,
+      config.ip_deny,
+      name
+    );
 
-    // Sync Caddy
-    await caddy.updateSiteAuth(name, site.path, authHash ? { user: authUser!, hash: authHash } : null);
     await caddy.syncCaddy();
 
-    return c.json(updated);
+    if (Object.keys(configDiff).length > 0) {
+      audit(c, "site.config", name, null, configDiff);
+    }
+
+    return c.json(formatSite(updated));
   }
 );
 
-// Upload file
+// === Basic auth users ===
+// Each user gets a line in the site's basic_auth block, so collaborators can
+// have their own password and be removed individually.
+
+// List basic auth users
 app.openapi(
   createRoute({
-    method: "post",
-    path: "/sites/{name}/files",
-    tags: ["files"],
-    summary: "Upload a file to a site",
+    method: "get",
+    path: "/sites/{name}/users",
+    middleware: requireScope("sites:read"),
+    tags: ["sites"],
+    summary: "List the basic auth users of a site",
     request: {
       params: z.object({ name: z.string() }),
-      query: z.object({
-        path: z.string().optional().describe("Subdirectory path"),
-        overwrite: z.string().optional().describe("Overwrite existing file"),
-      }),
-      body: {
-        content: {
-          "multipart/form-data": {
-            schema: z.object({
-              file: z.any().describe("File to upload"),
-            }),
-          },
-        },
-      },
     },
     responses: {
-      201: {
-        description: "File uploaded",
-        content: { "application/json": { schema: UploadResultSchema } },
+      200: {
+        description: "Users, sorted by name",
+        content: { "application/json": { schema: z.array(SiteUserSchema) } },
       },
       404: {
         description: "Site not found",
         content: { "application/json": { schema: ErrorSchema } },
       },
-      409: {
-        description: "File exists",
-        content: { "application/json": { schema: ErrorSchema } },
-      },
     },
   }),
-  async (c) => {
+  (c) => {
     const { name } = c.req.valid("param");
-    const query = c.req.valid("query");
     const site = db.getSite.get(name);
 
     if (!site) {
       return c.json({ error: "Site not found" }, 404);
     }
 
-    const formData = await c.req.formData();
-    const file = formData.get("file") as File;
-
-    if (!file) {
-      return c.json({ error: "No file provided" }, 400);
-    }
-
-    // Check file size limit
-    if (file.size > MAX_FILE_SIZE) {
-      return c.json({ error: `File too large. Max: ${MAX_FILE_SIZE / 1024 / 1024}MB` }, 413);
-    }
-
-    // Check quota
-    const quota = db.getSiteQuota.get(name);
-    if (quota) {
-      const newUsed = quota.used_bytes + file.size;
-      if (newUsed > quota.quota_bytes) {
-        const usedMB = Math.round(quota.used_bytes / 1024 / 1024 * 10) / 10;
-        const quotaMB = Math.round(quota.quota_bytes / 1024 / 1024 * 10) / 10;
-        return c.json({
-          error: `Quota exceeded. Used: ${usedMB}MB / ${quotaMB}MB. File size: ${Math.round(file.size / 1024)}KB`
-        }, 413);
-      }
-    }
-
-    const subPath = query.path || "";
-    const relativePath = join(subPath, file.name);
-
-    // Validate path to prevent path traversal attacks
-    const targetPath = safePath(site.path, relativePath);
-    if (!targetPath) {
-      return c.json({ error: "Invalid path" }, 400);
-    }
-
-    // Get existing file size if overwriting (to adjust quota correctly)
-    let existingSize = 0;
-    if (existsSync(targetPath)) {
-      if (query.overwrite !== "true") {
-        return c.json({ error: "File already exists. Use ?overwrite=true to replace" }, 409);
-      }
-      existingSize = statSync(targetPath).size;
-    }
-
-    // Create directory if needed
-    mkdirSync(dirname(targetPath), { recursive: true });
-
-    // Write file
-    const buffer = await file.arrayBuffer();
-    await Bun.write(targetPath, buffer);
-
-    // Update used_bytes (add new file size, subtract old if overwriting)
-    const sizeDelta = file.size - existingSize;
-    if (sizeDelta !== 0) {
-      db.incrementUsedBytes.run(sizeDelta, name);
-    }
-
-    return c.json({
-      path: relativePath,
-      size: file.size,
-      url: `${caddy.getSiteUrl(name)}/${relativePath}`,
-    }, 201);
+    return c.json(db.getSiteUsers.all(site.id));
   }
 );
 
-// List files
+// Add basic auth user
 app.openapi(
   createRoute({
-    method: "get",
-    path: "/sites/{name}/files",
-    tags: ["files"],
-    summary: "List files in a site",
+    method: "post",
+    path: "/sites/{name}/users",
+    middleware: requireScope("sites:write"),
+    tags: ["sites"],
+    summary: "Add a basic auth user, or change an existing user's password",
+    description: "Adding the first user turns on basic auth for the site and its aliases.",
     request: {
       params: z.object({ name: z.string() }),
+      body: { content: { "application/json": { schema: CreateSiteUserSchema } } },
     },
     responses: {
       200: {
-        description: "List of files",
-        content: { "application/json": { schema: z.array(FileSchema) } },
+        description: "Password changed",
+        content: { "application/json": { schema: SiteUserSchema } },
+      },
+      201: {
+        description: "User added",
+        content: { "application/json": { schema: SiteUserSchema } },
       },
       404: {
         description: "Site not found",
@@ -455,70 +1111,2657 @@ app.openapi(
       },
     },
   }),
-  (c) => {
+  async (c) => {
     const { name } = c.req.valid("param");
+    const body = c.req.valid("json");
     const site = db.getSite.get(name);
 
     if (!site) {
       return c.json({ error: "Site not found" }, 404);
     }
 
-    const files = getFilesRecursive(site.path);
-    return c.json(files);
-  }
+    const exists = db.getSiteUsers.all(site.id).some(u => u.username === body.user);
+    const user = db.upsertSiteUser.get(site.id, body.user, hashPassword(body.pass), c.get("apiKey").id);
+    await caddy.syncCaddy();
+
+    if (exists) {
+      audit(c, "auth.user_password", name, body.user);
+      emitAuthChanged(site, { password_changed: body.user });
+      return c.json(user, 200);
+    }
+
+    audit(c, "auth.user_add", name, body.user);
+    emitAuthChanged(site, { added: body.user });
+    return c.json(user, 201);
+  }
+);
+
+// Remove basic auth user
+app.openapi(
+  createRoute({
+    method: "delete",
+    path: "/sites/{name}/users/{user}",
+    middleware: requireScope("sites:write"),
+    tags: ["sites"],
+    summary: "Remove a basic auth user",
+    description: "Removing the last user turns off basic auth, making the site public.",
+    request: {
+      params: z.object({ name: z.string(), user: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "User removed",
+        content: { "application/json": { schema: SuccessSchema } },
+      },
+      404: {
+        description: "Site or user not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  async (c) => {
+    const { name, user } = c.req.valid("param");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+    if (db.deleteSiteUser.run(site.id, user).changes === 0) {
+      return c.json({ error: `User ${user} not found` }, 404);
+    }
+
+    await caddy.syncCaddy();
+    audit(c, "auth.user_remove", name, user);
+    emitAuthChanged(site, { removed: user });
+
+    const remaining = db.getSiteUsers.all(site.id).length;
+    return c.json({
+      success: true,
+      message: remaining > 0 ? `Removed user ${user}` : `Removed user ${user}; ${name} no longer requires a password`,
+    });
+  }
+);
+
+// Transfer site ownership
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/transfer",
+    middleware: requireScope("admin"),
+    tags: ["sites"],
+    summary: "Give a site to another API key",
+    request: {
+      params: z.object({ name: z.string() }),
+      body: { content: { "application/json": { schema: TransferSiteSchema } } },
+    },
+    responses: {
+      200: {
+        description: "Site transferred",
+        content: { "application/json": { schema: SiteSchema } },
+      },
+      404: {
+        description: "Site or key not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "Key is revoked",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    const owner = db.getApiKeyById.get(body.owner_key_id);
+    if (!owner) {
+      return c.json({ error: "Key not found" }, 404);
+    }
+    if (owner.revoked_at) {
+      return c.json({ error: "Key is revoked" }, 409);
+    }
+
+    const updated = db.updateSiteOwner.get(owner.id, name);
+    audit(c, "site.transfer", name, null, { owner_key_id: [site.owner_key_id, owner.id] });
+    return c.json(formatSite(updated));
+  }
+);
+
+// Extend or remove site expiry
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/extend",
+    middleware: requireScope("sites:write"),
+    tags: ["sites"],
+    summary: "Push back when an ephemeral site is deleted, or keep it for good",
+    description: "Send `by` to add seconds to the current expiry, or `expires_at` to set it (null removes it).",
+    request: {
+      params: z.object({ name: z.string() }),
+      body: { content: { "application/json": { schema: ExtendSiteSchema } } },
+    },
+    responses: {
+      200: {
+        description: "Expiry updated",
+        content: { "application/json": { schema: SiteSchema } },
+      },
+      400: {
+        description: "Invalid or missing expiry",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      404: {
+        description: "Site not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "Site doesn't expire",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+    if ((body.by === undefined) === (body.expires_at === undefined)) {
+      return c.json({ error: "Give either by or expires_at" }, 400);
+    }
+
+    let updated;
+    if (body.by !== undefined) {
+      if (!site.expires_at) {
+        return c.json({ error: "Site doesn't expire. Set expires_at instead" }, 409);
+      }
+      updated = db.extendSiteExpiry.get(`+${body.by} seconds`, name);
+      if (!updated) {
+        return c.json({ error: "Invalid expiry" }, 400);
+      }
+    } else {
+      const expiry = parseExpiry({ expires_at: body.expires_at });
+      if ("error" in expiry) {
+        return c.json({ error: expiry.error }, 400);
+      }
+      updated = db.updateSiteExpiry.get(expiry.modifier, name);
+    }
+
+    audit(c, "site.extend", name, null, { expires_at: [site.expires_at, updated.expires_at] });
+    return c.json(formatSite(updated));
+  }
+);
+
+// Change site quota
+app.openapi(
+  createRoute({
+    method: "patch",
+    path: "/sites/{name}/quota",
+    middleware: requireScope("admin"),
+    tags: ["sites"],
+    summary: "Change a site's storage quota, file limit and warning thresholds",
+    description: "Lowering the quota below current usage is allowed; further uploads are rejected until usage drops "
+      + "(or allowed up to the grace margin during the grace period, if SF_QUOTA_GRACE_PERCENT is set).",
+    request: {
+      params: z.object({ name: z.string() }),
+      body: { content: { "application/json": { schema: UpdateQuotaSchema } } },
+    },
+    responses: {
+      200: {
+        description: "Quota updated",
+        content: { "application/json": { schema: SiteSchema } },
+      },
+      404: {
+        description: "Site not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    const quota = body.quota_bytes === undefined ? site.quota_bytes : body.quota_bytes ?? DEFAULT_QUOTA;
+    const maxFiles = body.max_files === undefined ? site.max_files : body.max_files;
+    const warnAt = body.warn_at === undefined
+      ? site.quota_warn_at
+      : body.warn_at && [...new Set(body.warn_at)].sort((a, b) => a - b).join(" ");
+    const updated = db.updateSiteQuota.get(quota, maxFiles, warnAt, name);
+    updateQuotaState(name);
+
+    const diff = changes(
+      { quota_bytes: site.quota_bytes, max_files: site.max_files, warn_at: site.quota_warn_at },
+      { quota_bytes: quota, max_files: maxFiles, warn_at: warnAt }
+    );
+    if (Object.keys(diff).length > 0) audit(c, "site.quota", name, null, diff);
+    // Re-read the grace period start, which the new quota may have changed
+    return c.json(formatSite({ ...updated, ...db.getSiteQuota.get(name) }));
+  }
+);
+
+// Upload file
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/files",
+    middleware: requireScope("files:write"),
+    tags: ["files"],
+    summary: "Upload a file to a site",
+    request: {
+      params: z.object({ name: z.string() }),
+      query: z.object({
+        path: z.string().optional().describe("Subdirectory path"),
+        overwrite: z.string().optional().describe("Overwrite existing file"),
+        deployment: z.string().optional().describe("Staging deployment ID to upload into"),
+      }),
+      body: {
+        content: {
+          // Plain schema on purpose: a Zod schema here would make the
+          // validator buffer the whole form before the handler runs
+          "multipart/form-data": {
+            schema: {
+              type: "object",
+              properties: {
+                file: { type: "string", format: "binary", description: "File to upload" },
+              },
+            },
+          },
+        },
+      },
+    },
+    responses: {
+      201: {
+        description: "File uploaded",
+        content: { "application/json": { schema: UploadResultSchema } },
+      },
+      400: {
+        description: "Missing file, invalid path or invalid _redirects/_headers",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      404: {
+        description: "Site not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "File exists or deployment already finalized",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      413: {
+        description: "File too large, quota or file limit exceeded",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  async (c) => {
+    const { name } = c.req.valid("param");
+    const query = c.req.valid("query");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    const target = getWriteTarget(site, query.deployment);
+    if ("error" in target) {
+      return c.json({ error: target.error }, target.status);
+    }
+
+    const boundary = getBoundary(c.req.header("Content-Type"));
+    if (!boundary || !c.req.raw.body) {
+      return c.json({ error: "Expected multipart/form-data body" }, 400);
+    }
+
+    let file;
+    try {
+      file = await openMultipartFile(c.req.raw.body, boundary, "file");
+    } catch (e: any) {
+      return c.json({ error: `Invalid multipart body: ${e.message}` }, 400);
+    }
+
+    if (!file || !file.filename) {
+      return c.json({ error: "No file provided" }, 400);
+    }
+
+    const subPath = query.path || "";
+    const relativePath = join(subPath, file.filename);
+
+    // Validate path to prevent path traversal attacks
+    const targetPath = safePath(target.baseDir, relativePath);
+    if (!targetPath) {
+      return c.json({ error: "Invalid path" }, 400);
+    }
+
+    // Get existing file size if overwriting (to adjust quota correctly)
+    let existingSize = 0;
+    if (existsSync(targetPath)) {
+      if (query.overwrite !== "true") {
+        return c.json({ error: "File already exists. Use ?overwrite=true to replace" }, 409);
+      }
+      const stat = statSync(targetPath);
+      if (stat.isDirectory()) {
+        return c.json({ error: `Cannot replace directory with file: ${relativePath}` }, 409);
+      }
+      existingSize = stat.size;
+    }
+
+    const tooMany = checkFileLimit(target, existsSync(targetPath) ? 0 : 1);
+    if (tooMany) {
+      return c.json(tooMany, 413);
+    }
+
+    // The size is unknown until the body ends, so enforce the limits while
+    // streaming: whichever of the file size limit and remaining quota is lower
+    const quota = db.getSiteQuota.get(name);
+    const quotaLeft = quota ? quotaLimit(quota) - target.used + existingSize : Infinity;
+    const limit = Math.max(0, Math.min(MAX_FILE_SIZE, quotaLeft));
+
+    // Stream into a temp file next to the site, then rename into place
+    const tempId = uploads.generateUploadId();
+    mkdirSync(uploads.getUploadsDir(site.path), { recursive: true });
+
+    let written;
+    try {
+      written = await writeStreamToFile(file.stream, uploads.getUploadPath(site.path, tempId), limit);
+    } catch (e: any) {
+      if (!(e instanceof StreamLimitError)) {
+        return c.json({ error: `Upload failed: ${e.message}` }, 400);
+      }
+      if (limit === MAX_FILE_SIZE) {
+        return c.json({ error: `File too large. Max: ${MAX_FILE_SIZE / 1024 / 1024}MB` }, 413);
+      }
+      const usedMB = Math.round(target.used / 1024 / 1024 * 10) / 10;
+      const quotaMB = Math.round(quota!.quota_bytes / 1024 / 1024 * 10) / 10;
+      return c.json({
+        error: `Quota exceeded. Used: ${usedMB}MB / ${quotaMB}MB. File size: over ${Math.round(limit / 1024)}KB`
+      }, 413);
+    }
+
+    const tempPath = uploads.getUploadPath(site.path, tempId);
+    const invalid = checkRulesFile(relativePath, () => readFileSync(tempPath, "utf-8"));
+    if (invalid) {
+      uploads.removeUpload(site.path, tempId);
+      return c.json(invalid, 400);
+    }
+
+    uploads.completeUpload(site.path, tempId, targetPath);
+    metrics.uploadBytes.inc({ site: name }, written.size);
+
+    // Update used_bytes (add new file size, subtract old if overwriting)
+    addUsedBytes(target, written.size - existingSize);
+    await syncRulesIfChanged(target, [relativePath]);
+    audit(c, "file.upload", name, relativePath, {
+      size: written.size, sha256: written.sha256, replaced: existingSize > 0, deployment: target.deploymentId ?? undefined,
+    });
+    emit("upload.completed", site, {
+      files: [{ path: relativePath, size: written.size }], deployment_id: target.deploymentId,
+    });
+
+    return c.json({
+      path: relativePath,
+      size: written.size,
+      url: `${caddy.getSiteUrl(name, site.primary_domain)}/${relativePath}`,
+      sha256: written.sha256,
+      ...quotaWarnings(target),
+    }, 201);
+  }
+);
+
+// Upload archive
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/archive",
+    middleware: requireScope("files:write"),
+    tags: ["files"],
+    summary: "Upload a tar, tar.gz or zip archive and extract it into a site",
+    request: {
+      params: z.object({ name: z.string() }),
+      query: z.object({
+        path: z.string().optional().describe("Subdirectory path"),
+        overwrite: z.string().optional().describe("Overwrite existing files"),
+        deployment: z.string().optional().describe("Staging deployment ID to extract into"),
+      }),
+      body: {
+        content: {
+          "application/octet-stream": {
+            schema: z.any().describe("tar, tar.gz or zip archive"),
+          },
+        },
+      },
+    },
+    responses: {
+      201: {
+        description: "Archive extracted",
+        content: { "application/json": { schema: z.array(UploadResultSchema) } },
+      },
+      400: {
+        description: "Invalid archive or path",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      404: {
+        description: "Site not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "File exists or deployment already finalized",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      413: {
+        description: "Archive too large, quota or file limit exceeded",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  async (c) => {
+    const { name } = c.req.valid("param");
+    const query = c.req.valid("query");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    const target = getWriteTarget(site, query.deployment);
+    if ("error" in target) {
+      return c.json({ error: target.error }, target.status);
+    }
+
+    const tooLarge = `Archive too large. Max: ${MAX_ARCHIVE_SIZE / 1024 / 1024}MB`;
+    if (parseInt(c.req.header("Content-Length") || "0") > MAX_ARCHIVE_SIZE) {
+      return c.json({ error: tooLarge }, 413);
+    }
+
+    let archive: Uint8Array;
+    try {
+      archive = c.req.raw.body ? await readStreamLimited(c.req.raw.body, MAX_ARCHIVE_SIZE) : new Uint8Array();
+    } catch (e) {
+      if (e instanceof StreamLimitError) {
+        return c.json({ error: tooLarge }, 413);
+      }
+      throw e;
+    }
+    if (archive.length === 0) {
+      return c.json({ error: "No archive provided" }, 400);
+    }
+
+    // Nothing larger than the whole quota (plus grace margin) can ever fit, so stop extracting there
+    let entries;
+    try {
+      entries = extractArchive(archive, { maxBytes: quotaLimit(site), maxEntries: MAX_ARCHIVE_ENTRIES });
+    } catch (e) {
+      if (e instanceof ArchiveError) {
+        return c.json({ error: e.message }, e.status);
+      }
+      throw e;
+    }
+
+    // Validate every entry before writing anything; later duplicates win
+    const subPath = query.path || "";
+    const planned = new Map<string, { relativePath: string; data: Uint8Array; existingSize: number }>();
+
+    for (const entry of entries) {
+      const relativePath = join(subPath, entry.path);
+      const targetPath = safePath(target.baseDir, relativePath);
+      if (!targetPath || targetPath === safePath(target.baseDir, subPath)) {
+        return c.json({ error: `Invalid path in archive: ${entry.path}` }, 400);
+      }
+
+      if (entry.data.length > MAX_FILE_SIZE) {
+        return c.json({ error: `File too large: ${entry.path}. Max: ${MAX_FILE_SIZE / 1024 / 1024}MB` }, 413);
+      }
+
+      const invalid = checkRulesFile(relativePath, () => new TextDecoder().decode(entry.data));
+      if (invalid) {
+        return c.json(invalid, 400);
+      }
+
+      let existingSize = 0;
+      if (existsSync(targetPath)) {
+        if (query.overwrite !== "true") {
+          return c.json({ error: `File already exists: ${relativePath}. Use ?overwrite=true to replace` }, 409);
+        }
+        const stat = statSync(targetPath);
+        if (stat.isDirectory()) {
+          return c.json({ error: `Cannot replace directory with file: ${relativePath}` }, 409);
+        }
+        existingSize = stat.size;
+      }
+
+      planned.set(targetPath, { relativePath, data: entry.data, existingSize });
+    }
+
+    const newFiles = [...planned.keys()].filter(path => !existsSync(path)).length;
+    const tooMany = checkFileLimit(target, newFiles);
+    if (tooMany) {
+      return c.json(tooMany, 413);
+    }
+
+    // Check quota against the total extracted size
+    let sizeDelta = 0;
+    for (const file of planned.values()) {
+      sizeDelta += file.data.length - file.existingSize;
+    }
+
+    const quota = db.getSiteQuota.get(name);
+    if (quota && target.used + sizeDelta > quotaLimit(quota)) {
+      const usedMB = Math.round(target.used / 1024 / 1024 * 10) / 10;
+      const quotaMB = Math.round(quota.quota_bytes / 1024 / 1024 * 10) / 10;
+      const extractedMB = Math.round(sizeDelta / 1024 / 1024 * 10) / 10;
+      return c.json({
+        error: `Quota exceeded. Used: ${usedMB}MB / ${quotaMB}MB. Archive adds: ${extractedMB}MB`
+      }, 413);
+    }
+
+    const results = [];
+    for (const [targetPath, file] of planned) {
+      mkdirSync(dirname(targetPath), { recursive: true });
+      await Bun.write(targetPath, file.data);
+      results.push({
+        path: file.relativePath,
+        size: file.data.length,
+        url: `${caddy.getSiteUrl(name, site.primary_domain)}/${file.relativePath}`,
+      });
+    }
+
+    addUsedBytes(target, sizeDelta);
+    metrics.uploadBytes.inc({ site: name }, results.reduce((sum, r) => sum + r.size, 0));
+    await syncRulesIfChanged(target, results.map(r => r.path));
+    audit(c, "file.archive", name, null, {
+      files: results.length, size_delta: sizeDelta, deployment: target.deploymentId ?? undefined,
+    });
+    emit("upload.completed", site, {
+      files: results.map(r => ({ path: r.path, size: r.size })), deployment_id: target.deploymentId,
+    });
+
+    const warnings = quotaWarnings(target);
+    return c.json(results.map(result => ({ ...result, ...warnings })), 201);
+  }
+);
+
+// Create resumable upload
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/uploads",
+    middleware: requireScope("files:write"),
+    tags: ["uploads"],
+    summary: "Start a resumable upload",
+    description: "Reserves quota for the whole file. Send chunks with PATCH, then finalize.",
+    request: {
+      params: z.object({ name: z.string() }),
+      query: z.object({
+        deployment: z.string().optional().describe("Staging deployment ID to upload into"),
+      }),
+      body: { content: { "application/json": { schema: CreateUploadSchema } } },
+    },
+    responses: {
+      201: {
+        description: "Upload created",
+        content: { "application/json": { schema: UploadSessionSchema } },
+      },
+      400: {
+        description: "Invalid path",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      404: {
+        description: "Site not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "File exists or deployment already finalized",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      413: {
+        description: "File too large, quota or file limit exceeded",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name } = c.req.valid("param");
+    const query = c.req.valid("query");
+    const body = c.req.valid("json");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    const target = getWriteTarget(site, query.deployment);
+    if ("error" in target) {
+      return c.json({ error: target.error }, target.status);
+    }
+
+    if (body.size > MAX_FILE_SIZE) {
+      return c.json({ error: `File too large. Max: ${MAX_FILE_SIZE / 1024 / 1024}MB` }, 413);
+    }
+
+    const targetPath = safePath(target.baseDir, body.path);
+    if (!targetPath || targetPath === safePath(target.baseDir, "")) {
+      return c.json({ error: "Invalid path" }, 400);
+    }
+    const relativePath = relative(safePath(target.baseDir, "")!, targetPath);
+
+    if (existsSync(targetPath) && !body.overwrite) {
+      return c.json({ error: "File already exists. Set overwrite to replace" }, 409);
+    }
+
+    const tooMany = checkFileLimit(target, existsSync(targetPath) ? 0 : 1);
+    if (tooMany) {
+      return c.json(tooMany, 413);
+    }
+
+    // Reserve the full size now so concurrent uploads can't overrun the quota
+    const quota = db.getSiteQuota.get(name);
+    if (quota && target.used + body.size > quotaLimit(quota)) {
+      const usedMB = Math.round(target.used / 1024 / 1024 * 10) / 10;
+      const quotaMB = Math.round(quota.quota_bytes / 1024 / 1024 * 10) / 10;
+      return c.json({
+        error: `Quota exceeded. Used: ${usedMB}MB / ${quotaMB}MB. File size: ${Math.round(body.size / 1024)}KB`
+      }, 413);
+    }
+
+    const id = uploads.generateUploadId();
+    uploads.createUploadFile(site.path, id);
+    db.insertUpload.run(
+      id, site.id, target.deploymentId, relativePath, body.size, body.overwrite ? 1 : 0,
+      `+${UPLOAD_EXPIRY_HOURS} hours`
+    );
+
+    audit(c, "upload.create", name, relativePath, { id, size: body.size, deployment: target.deploymentId ?? undefined });
+    return c.json(formatUpload(db.getUpload.get(name, id)), 201);
+  }
+);
+
+// Get resumable upload (HEAD returns only the Upload-Offset/Upload-Length headers)
+app.openapi(
+  createRoute({
+    method: "get",
+    path: "/sites/{name}/uploads/{id}",
+    middleware: requireScope("files:write"),
+    tags: ["uploads"],
+    summary: "Get the progress of a resumable upload",
+    request: {
+      params: z.object({ name: z.string(), id: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "Upload progress",
+        content: { "application/json": { schema: UploadSessionSchema } },
+      },
+      404: {
+        description: "Upload not found or expired",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name, id } = c.req.valid("param");
+    const upload = db.getUpload.get(name, id);
+
+    if (!upload) {
+      return c.json({ error: "Upload not found" }, 404);
+    }
+
+    c.header("Upload-Offset", String(upload.offset));
+    c.header("Upload-Length", String(upload.size));
+    return c.json(formatUpload(upload));
+  }
+);
+
+// Append chunk to resumable upload
+app.openapi(
+  createRoute({
+    method: "patch",
+    path: "/sites/{name}/uploads/{id}",
+    middleware: requireScope("files:write"),
+    tags: ["uploads"],
+    summary: "Append a chunk to a resumable upload",
+    description: "The Upload-Offset header must match the current offset of the upload.",
+    request: {
+      params: z.object({ name: z.string(), id: z.string() }),
+      headers: z.object({
+        "upload-offset": z.string().describe("Offset of this chunk"),
+      }),
+      body: {
+        content: {
+          "application/offset+octet-stream": {
+            schema: z.any().describe("Chunk bytes"),
+          },
+        },
+      },
+    },
+    responses: {
+      200: {
+        description: "Chunk stored",
+        content: { "application/json": { schema: UploadSessionSchema } },
+      },
+      404: {
+        description: "Upload not found or expired",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "Offset mismatch",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      413: {
+        description: "Chunk too large or beyond the declared size",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  async (c) => {
+    const { name, id } = c.req.valid("param");
+    const headers = c.req.valid("header");
+    const site = db.getSite.get(name);
+    const upload = db.getUpload.get(name, id);
+
+    if (!site || !upload) {
+      return c.json({ error: "Upload not found" }, 404);
+    }
+
+    const offset = parseInt(headers["upload-offset"]);
+    if (offset !== upload.offset) {
+      c.header("Upload-Offset", String(upload.offset));
+      return c.json({ error: `Offset mismatch. Current offset: ${upload.offset}` }, 409);
+    }
+
+    const tooLarge = `Chunk too large. Max: ${MAX_CHUNK_SIZE / 1024 / 1024}MB`;
+    if (parseInt(c.req.header("Content-Length") || "0") > MAX_CHUNK_SIZE) {
+      return c.json({ error: tooLarge }, 413);
+    }
+
+    let chunk: Uint8Array;
+    try {
+      chunk = c.req.raw.body ? await readStreamLimited(c.req.raw.body, MAX_CHUNK_SIZE) : new Uint8Array();
+    } catch (e) {
+      if (e instanceof StreamLimitError) {
+        return c.json({ error: tooLarge }, 413);
+      }
+      throw e;
+    }
+    if (offset + chunk.length > upload.size) {
+      return c.json({ error: "Chunk exceeds the declared upload size" }, 413);
+    }
+
+    uploads.writeChunk(site.path, id, offset, chunk);
+    db.updateUploadOffset.run(offset + chunk.length, id);
+    metrics.uploadBytes.inc({ site: name }, chunk.length);
+
+    const updated = db.getUpload.get(name, id);
+    c.header("Upload-Offset", String(updated.offset));
+    return c.json(formatUpload(updated));
+  }
+);
+
+// Finalize resumable upload
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/uploads/{id}/finalize",
+    middleware: requireScope("files:write"),
+    tags: ["uploads"],
+    summary: "Move a completed resumable upload into place",
+    request: {
+      params: z.object({ name: z.string(), id: z.string() }),
+    },
+    responses: {
+      201: {
+        description: "File uploaded",
+        content: { "application/json": { schema: UploadResultSchema } },
+      },
+      400: {
+        description: "Invalid _redirects or _headers",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      404: {
+        description: "Upload not found or expired",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "Upload incomplete or file exists",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  async (c) => {
+    const { name, id } = c.req.valid("param");
+    const site = db.getSite.get(name);
+    const upload = db.getUpload.get(name, id);
+
+    if (!site || !upload) {
+      return c.json({ error: "Upload not found" }, 404);
+    }
+
+    if (upload.offset !== upload.size) {
+      return c.json({ error: `Upload incomplete: ${upload.offset} of ${upload.size} bytes received` }, 409);
+    }
+
+    const target = getWriteTarget(site, upload.deployment_id ? String(upload.deployment_id) : undefined);
+    if ("error" in target) {
+      return c.json({ error: target.error }, target.status);
+    }
+
+    const targetPath = safePath(target.baseDir, upload.path)!;
+    let existingSize = 0;
+    if (existsSync(targetPath)) {
+      if (!upload.overwrite) {
+        return c.json({ error: "File already exists. Set overwrite to replace" }, 409);
+      }
+      const stat = statSync(targetPath);
+      if (stat.isDirectory()) {
+        return c.json({ error: `Cannot replace directory with file: ${upload.path}` }, 409);
+      }
+      existingSize = stat.size;
+    }
+
+    const invalid = checkRulesFile(upload.path, () => readFileSync(uploads.getUploadPath(site.path, id), "utf-8"));
+    if (invalid) {
+      return c.json(invalid, 400);
+    }
+
+    // The reservation is released as the file starts counting as used
+    uploads.completeUpload(site.path, id, targetPath);
+    db.deleteUploadQuery.run(id);
+    addUsedBytes(target, upload.size - existingSize);
+    await syncRulesIfChanged(target, [upload.path]);
+    audit(c, "file.upload", name, upload.path, {
+      size: upload.size, replaced: existingSize > 0, resumable: true, deployment: target.deploymentId ?? undefined,
+    });
+    emit("upload.completed", site, {
+      files: [{ path: upload.path, size: upload.size }], deployment_id: target.deploymentId,
+    });
+
+    return c.json({
+      path: upload.path,
+      size: upload.size,
+      url: `${caddy.getSiteUrl(name, site.primary_domain)}/${upload.path}`,
+      ...quotaWarnings(target),
+    }, 201);
+  }
+);
+
+// Abort resumable upload
+app.openapi(
+  createRoute({
+    method: "delete",
+    path: "/sites/{name}/uploads/{id}",
+    middleware: requireScope("files:write"),
+    tags: ["uploads"],
+    summary: "Abort a resumable upload and release its quota",
+    request: {
+      params: z.object({ name: z.string(), id: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "Upload aborted",
+        content: { "application/json": { schema: SuccessSchema } },
+      },
+      404: {
+        description: "Upload not found or expired",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name, id } = c.req.valid("param");
+    const site = db.getSite.get(name);
+    const upload = db.getUpload.get(name, id);
+
+    if (!site || !upload) {
+      return c.json({ error: "Upload not found" }, 404);
+    }
+
+    uploads.removeUpload(site.path, id);
+    db.deleteUploadQuery.run(id);
+    audit(c, "upload.abort", name, upload.path, { id });
+
+    return c.json({ success: true, message: `Aborted upload ${id}` });
+  }
+);
+
+// List files
+app.openapi(
+  createRoute({
+    method: "get",
+    path: "/sites/{name}/files",
+    middleware: requireScope("sites:read"),
+    tags: ["files"],
+    summary: "List files in a site",
+    request: {
+      params: z.object({ name: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "List of files",
+        content: { "application/json": { schema: z.array(FileSchema) } },
+      },
+      404: {
+        description: "Site not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name } = c.req.valid("param");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    // Hashes are cached by path, size and mtime, so only new or changed files are read
+    const files = getFilesRecursive(site.path).map(f => ({
+      ...f,
+      sha256: hashFile(join(site.path, f.path)),
+    }));
+    return c.json(files);
+  }
+);
+
+// Download file (HEAD is answered by this route too, without the body)
+app.openapi(
+  createRoute({
+    method: "get",
+    path: "/sites/{name}/files/{path}",
+    middleware: requireScope("sites:read"),
+    tags: ["files"],
+    summary: "Download a file from a site",
+    description: "Supports single byte ranges and conditional requests. HEAD returns the headers only.",
+    request: {
+      params: z.object({
+        name: z.string(),
+        path: z.string(),
+      }),
+      query: z.object({
+        deployment: z.string().optional().describe("Deployment ID to read from instead of the live site"),
+      }),
+    },
+    responses: {
+      200: {
+        description: "File content",
+        content: { "application/octet-stream": { schema: { type: "string", format: "binary" } } },
+      },
+      206: {
+        description: "Requested byte range",
+        content: { "application/octet-stream": { schema: { type: "string", format: "binary" } } },
+      },
+      304: {
+        description: "Not modified",
+      },
+      404: {
+        description: "File not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      416: {
+        description: "Range not satisfiable",
+      },
+    },
+  }),
+  (c) => {
+    const { name, path: filePath } = c.req.valid("param");
+    const query = c.req.valid("query");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    let baseDir = site.path;
+    if (query.deployment) {
+      const deployment = db.getDeployment.get(name, parseInt(query.deployment));
+      if (!deployment) {
+        return c.json({ error: "Deployment not found" }, 404);
+      }
+      baseDir = deployments.getDeploymentPath(site.path, deployment.id);
+    }
+
+    // Validate path to prevent path traversal attacks
+    const fullPath = safePath(baseDir, filePath);
+    if (!fullPath) {
+      return c.json({ error: "Invalid path" }, 400);
+    }
+
+    if (!existsSync(fullPath) || !statSync(fullPath).isFile()) {
+      return c.json({ error: "File not found" }, 404);
+    }
+
+    const stat = statSync(fullPath);
+    const file = Bun.file(fullPath);
+    const etag = `"${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`;
+    const lastModified = stat.mtime.toUTCString();
+
+    const headers: Record<string, string> = {
+      "Content-Type": file.type,
+      "ETag": etag,
+      "Last-Modified": lastModified,
+      "Accept-Ranges": "bytes",
+    };
+
+    // Conditional requests: If-None-Match takes precedence over If-Modified-Since
+    const ifNoneMatch = c.req.header("If-None-Match");
+    const ifModifiedSince = c.req.header("If-Modified-Since");
+    const notModified = ifNoneMatch
+      ? ifNoneMatch.split(",").some(tag => tag.trim() === etag || tag.trim() === "*")
+      : !!ifModifiedSince && Math.floor(stat.mtimeMs / 1000) <= Math.floor(Date.parse(ifModifiedSince) / 1000);
+    if (notModified) {
+      return c.body(null, 304, headers);
+    }
+
+    // A Range is only honored if If-Range (when sent) still matches the file
+    const ifRange = c.req.header("If-Range");
+    const rangeValid = !ifRange || ifRange === etag || ifRange === lastModified;
+    const range = rangeValid ? parseRange(c.req.header("Range"), stat.size) : null;
+
+    if (range === "unsatisfiable") {
+      return c.body(null, 416, { "Content-Range": `bytes */${stat.size}` });
+    }
+
+    if (range) {
+      headers["Content-Range"] = `bytes ${range.start}-${range.end}/${stat.size}`;
+      headers["Content-Length"] = String(range.end - range.start + 1);
+      return c.body(file.slice(range.start, range.end + 1).stream(), 206, headers);
+    }
+
+    headers["Content-Length"] = String(stat.size);
+    return c.body(file.stream(), 200, headers);
+  }
+);
+
+// Delete file
+app.openapi(
+  createRoute({
+    method: "delete",
+    path: "/sites/{name}/files/{path}",
+    middleware: requireScope("files:write"),
+    tags: ["files"],
+    summary: "Delete a file from a site",
+    request: {
+      params: z.object({
+        name: z.string(),
+        path: z.string(),
+      }),
+      query: z.object({
+        deployment: z.string().optional().describe("Staging deployment ID to delete from"),
+        recursive: z.string().optional().describe("Delete a directory and everything in it"),
+      }),
+    },
+    responses: {
+      200: {
+        description: "File deleted",
+        content: { "application/json": { schema: SuccessSchema } },
+      },
+      400: {
+        description: "Invalid path, or a directory without ?recursive=true",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      404: {
+        description: "File not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  async (c) => {
+    const { name, path: filePath } = c.req.valid("param");
+    const query = c.req.valid("query");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    const target = getWriteTarget(site, query.deployment);
+    if ("error" in target) {
+      return c.json({ error: target.error }, target.status);
+    }
+
+    // Validate path to prevent path traversal attacks
+    const fullPath = safePath(target.baseDir, filePath);
+    if (!fullPath || fullPath === resolve(target.baseDir)) {
+      return c.json({ error: "Invalid path" }, 400);
+    }
+
+    if (!existsSync(fullPath)) {
+      return c.json({ error: "File not found" }, 404);
+    }
+
+    // Get size before deleting to update quota
+    let fileSize: number;
+    if (statSync(fullPath).isDirectory()) {
+      if (query.recursive !== "true") {
+        return c.json({ error: "Path is a directory. Use ?recursive=true to delete it" }, 400);
+      }
+      fileSize = getDirSize(fullPath);
+      rmSync(fullPath, { recursive: true, force: true });
+    } else {
+      fileSize = statSync(fullPath).size;
+      unlinkSync(fullPath);
+    }
+
+    // Update used_bytes
+    addUsedBytes(target, -fileSize);
+    await syncRulesIfChanged(target, [filePath]);
+    audit(c, "file.delete", name, filePath, { size: fileSize, deployment: target.deploymentId ?? undefined });
+
+    return c.json({ success: true, message: `Deleted ${filePath}` });
+  }
+);
+
+// Move or rename file
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/files/move",
+    middleware: requireScope("files:write"),
+    tags: ["files"],
+    summary: "Move or rename a file or directory",
+    request: {
+      params: z.object({ name: z.string() }),
+      query: z.object({
+        deployment: z.string().optional().describe("Staging deployment ID to work in"),
+      }),
+      body: { content: { "application/json": { schema: FileOperationSchema } } },
+    },
+    responses: {
+      200: {
+        description: "Moved",
+        content: { "application/json": { schema: FileOperationResultSchema } },
+      },
+      400: {
+        description: "Invalid path",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      404: {
+        description: "Site or source not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "Destination exists or deployment already finalized",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  async (c) => {
+    const { name } = c.req.valid("param");
+    const query = c.req.valid("query");
+    const body = c.req.valid("json");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    const target = getWriteTarget(site, query.deployment);
+    if ("error" in target) {
+      return c.json({ error: target.error }, target.status);
+    }
+
+    const op = resolveFileOperation(target, body);
+    if ("error" in op) {
+      return c.json({ error: op.error }, op.status);
+    }
+
+    const invalid = checkRulesFile(body.to, () => readFileSync(op.source, "utf-8"));
+    if (invalid) {
+      return c.json(invalid, 400);
+    }
+
+    if (existsSync(op.dest)) {
+      rmSync(op.dest, { recursive: true, force: true });
+    }
+    mkdirSync(dirname(op.dest), { recursive: true });
+    renameSync(op.source, op.dest);
+
+    // Moving within the site only frees what was overwritten
+    addUsedBytes(target, -op.existingSize);
+    await syncRulesIfChanged(target, [body.from, body.to]);
+    audit(c, "file.move", name, body.from, {
+      to: body.to, files: op.files, replaced: op.existingSize > 0, deployment: target.deploymentId ?? undefined,
+    });
+
+    return c.json({ from: body.from, to: body.to, files: op.files, size: op.size });
+  }
+);
+
+// Copy file
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/files/copy",
+    middleware: requireScope("files:write"),
+    tags: ["files"],
+    summary: "Copy a file or directory",
+    request: {
+      params: z.object({ name: z.string() }),
+      query: z.object({
+        deployment: z.string().optional().describe("Staging deployment ID to work in"),
+      }),
+      body: { content: { "application/json": { schema: FileOperationSchema } } },
+    },
+    responses: {
+      201: {
+        description: "Copied",
+        content: { "application/json": { schema: FileOperationResultSchema } },
+      },
+      400: {
+        description: "Invalid path",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      404: {
+        description: "Site or source not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "Destination exists or deployment already finalized",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      413: {
+        description: "Quota or file limit exceeded",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  async (c) => {
+    const { name } = c.req.valid("param");
+    const query = c.req.valid("query");
+    const body = c.req.valid("json");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    const target = getWriteTarget(site, query.deployment);
+    if ("error" in target) {
+      return c.json({ error: target.error }, target.status);
+    }
+
+    const op = resolveFileOperation(target, body);
+    if ("error" in op) {
+      return c.json({ error: op.error }, op.status);
+    }
+
+    // Check quota
+    const quota = db.getSiteQuota.get(name);
+    if (quota) {
+      const newUsed = target.used + op.size - op.existingSize;
+      if (newUsed > quotaLimit(quota)) {
+        const usedMB = Math.round(target.used / 1024 / 1024 * 10) / 10;
+        const quotaMB = Math.round(quota.quota_bytes / 1024 / 1024 * 10) / 10;
+        return c.json({
+          error: `Quota exceeded. Used: ${usedMB}MB / ${quotaMB}MB. Copy size: ${Math.round(op.size / 1024)}KB`
+        }, 413);
+      }
+    }
+
+    const tooMany = checkFileLimit(target, op.files - countFiles(op.dest));
+    if (tooMany) {
+      return c.json(tooMany, 413);
+    }
+
+    const invalid = checkRulesFile(body.to, () => readFileSync(op.source, "utf-8"));
+    if (invalid) {
+      return c.json(invalid, 400);
+    }
+
+    if (existsSync(op.dest)) {
+      rmSync(op.dest, { recursive: true, force: true });
+    }
+    mkdirSync(dirname(op.dest), { recursive: true });
+    cpSync(op.source, op.dest, { recursive: true });
+
+    addUsedBytes(target, op.size - op.existingSize);
+    await syncRulesIfChanged(target, [body.to]);
+    audit(c, "file.copy", name, body.from, {
+      to: body.to, files: op.files, size: op.size, deployment: target.deploymentId ?? undefined,
+    });
+
+    return c.json({ from: body.from, to: body.to, files: op.files, size: op.size }, 201);
+  }
+);
+
+// Compare manifest
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/sync",
+    middleware: requireScope("sites:read"),
+    tags: ["files"],
+    summary: "Compare a local manifest with the files of a site",
+    request: {
+      params: z.object({ name: z.string() }),
+      query: z.object({
+        deployment: z.string().optional().describe("Staging deployment ID to compare against"),
+      }),
+      body: { content: { "application/json": { schema: SyncRequestSchema } } },
+    },
+    responses: {
+      200: {
+        description: "Files to upload and delete",
+        content: { "application/json": { schema: SyncResultSchema } },
+      },
+      400: {
+        description: "Invalid path in manifest",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      404: {
+        description: "Site not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name } = c.req.valid("param");
+    const query = c.req.valid("query");
+    const body = c.req.valid("json");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    const target = getWriteTarget(site, query.deployment);
+    if ("error" in target) {
+      return c.json({ error: target.error }, target.status);
+    }
+
+    const remote = new Map(getFilesRecursive(target.baseDir).map(f => [f.path, f]));
+    const seen = new Set<string>();
+    const result = { missing: [] as string[], changed: [] as string[], deleted: [] as string[], unchanged: 0 };
+
+    for (const entry of body.files) {
+      const fullPath = safePath(target.baseDir, entry.path);
+      if (!fullPath || fullPath === safePath(target.baseDir, "")) {
+        return c.json({ error: `Invalid path in manifest: ${entry.path}` }, 400);
+      }
+
+      const relativePath = relative(safePath(target.baseDir, "")!, fullPath);
+      seen.add(relativePath);
+
+      // Only hash when sizes match; a size change is already a change
+      const file = remote.get(relativePath);
+      if (!file) {
+        result.missing.push(relativePath);
+      } else if (file.size !== entry.size || hashFile(fullPath) !== entry.sha256) {
+        result.changed.push(relativePath);
+      } else {
+        result.unchanged++;
+      }
+    }
+
+    for (const path of remote.keys()) {
+      if (!seen.has(path)) result.deleted.push(path);
+    }
+
+    return c.json(result);
+  }
+);
+
+// List deployments
+app.openapi(
+  createRoute({
+    method: "get",
+    path: "/sites/{name}/deployments",
+    middleware: requireScope("sites:read"),
+    tags: ["deployments"],
+    summary: "List deployments of a site",
+    request: {
+      params: z.object({ name: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "List of deployments, newest first",
+        content: { "application/json": { schema: z.array(DeploymentSchema) } },
+      },
+      404: {
+        description: "Site not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name } = c.req.valid("param");
+
+    if (!db.getSite.get(name)) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    return c.json(db.getDeployments.all(name).map(formatDeployment));
+  }
+);
+
+// Create deployment
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/deployments",
+    middleware: requireScope("files:write"),
+    tags: ["deployments"],
+    summary: "Open a staging deployment",
+    request: {
+      params: z.object({ name: z.string() }),
+      body: { content: { "application/json": { schema: CreateDeploymentSchema } } },
+    },
+    responses: {
+      201: {
+        description: "Staging deployment created",
+        content: { "application/json": { schema: DeploymentSchema } },
+      },
+      404: {
+        description: "Site not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json");
+    let site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    // Files uploaded before the first deployment become a ready deployment,
+    // so the site keeps serving them and can be rolled back to them.
+    if (deployments.hasLegacyContent(site.path)) {
+      const legacy = db.insertDeployment.get(site.id, "ready", getDirSize(site.path))!;
+      db.finalizeDeploymentQuery.run(legacy.id);
+      deployments.adoptLegacyContent(site.path, deployments.getDeploymentPath(site.path, legacy.id));
+      goLive(site, legacy.id);
+      site = db.getSite.get(name);
+    }
+
+    const livePath = site.current_deployment_id
+      ? deployments.getDeploymentPath(site.path, site.current_deployment_id)
+      : null;
+    const copyCurrent = Boolean(body.copy_current && livePath);
+
+    const { id } = db.insertDeployment.get(site.id, "staging", copyCurrent ? site.used_bytes : 0)!;
+    const deploymentPath = deployments.getDeploymentPath(site.path, id);
+
+    if (copyCurrent) {
+      cpSync(livePath!, deploymentPath, { recursive: true });
+    } else {
+      mkdirSync(deploymentPath, { recursive: true });
+    }
+
+    audit(c, "deployment.create", name, id, { copy_current: copyCurrent });
+    return c.json(formatDeployment(db.getDeployment.get(name, id)), 201);
+  }
+);
+
+// Finalize deployment
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/deployments/{id}/finalize",
+    middleware: requireScope("files:write"),
+    tags: ["deployments"],
+    summary: "Finalize a staging deployment and make it live",
+    request: {
+      params: z.object({ name: z.string(), id: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "Deployment is live",
+        content: { "application/json": { schema: DeploymentSchema } },
+      },
+      404: {
+        description: "Deployment not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "Deployment already finalized",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  async (c) => {
+    const { name, id } = c.req.valid("param");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    const deployment = db.getDeployment.get(name, parseInt(id));
+    if (!deployment) {
+      return c.json({ error: "Deployment not found" }, 404);
+    }
+    if (deployment.status !== "staging") {
+      return c.json({ error: "Deployment is already finalized" }, 409);
+    }
+
+    db.finalizeDeploymentQuery.run(deployment.id);
+    goLive(site, deployment.id);
+    await syncLiveRules();
+    audit(c, "deployment.finalize", name, deployment.id, { live: [site.current_deployment_id, deployment.id] });
+
+    return c.json(formatDeployment(db.getDeployment.get(name, deployment.id)));
+  }
+);
+
+// Rollback to deployment
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/deployments/{id}/rollback",
+    middleware: requireScope("sites:write"),
+    tags: ["deployments"],
+    summary: "Make a previous deployment live again",
+    request: {
+      params: z.object({ name: z.string(), id: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "Deployment is live",
+        content: { "application/json": { schema: DeploymentSchema } },
+      },
+      404: {
+        description: "Deployment not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "Deployment is still staging",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  async (c) => {
+    const { name, id } = c.req.valid("param");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    const deployment = db.getDeployment.get(name, parseInt(id));
+    if (!deployment) {
+      return c.json({ error: "Deployment not found" }, 404);
+    }
+    if (deployment.status !== "ready") {
+      return c.json({ error: "Deployment is still staging. Finalize it instead" }, 409);
+    }
+
+    goLive(site, deployment.id);
+    await syncLiveRules();
+    audit(c, "deployment.rollback", name, deployment.id, { live: [site.current_deployment_id, deployment.id] });
+
+    return c.json(formatDeployment(db.getDeployment.get(name, deployment.id)));
+  }
+);
+
+// Delete deployment
+app.openapi(
+  createRoute({
+    method: "delete",
+    path: "/sites/{name}/deployments/{id}",
+    middleware: requireScope("sites:write"),
+    tags: ["deployments"],
+    summary: "Discard a deployment that is not live",
+    request: {
+      params: z.object({ name: z.string(), id: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "Deployment deleted",
+        content: { "application/json": { schema: SuccessSchema } },
+      },
+      404: {
+        description: "Deployment not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "Deployment is live or served by an alias",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name, id } = c.req.valid("param");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    const deployment = db.getDeployment.get(name, parseInt(id));
+    if (!deployment) {
+      return c.json({ error: "Deployment not found" }, 404);
+    }
+    if (deployment.live) {
+      return c.json({ error: "Cannot delete the live deployment" }, 409);
+    }
+    if (db.countDeploymentAliases.get(deployment.id)!.count > 0) {
+      return c.json({ error: "Deployment is served by an alias. Delete the alias first" }, 409);
+    }
+
+    deployments.removeDeployment(site.path, deployment.id);
+    db.deleteDeploymentQuery.run(deployment.id);
+    audit(c, "deployment.delete", name, deployment.id, { size: deployment.size_bytes });
+
+    return c.json({ success: true, message: `Deleted deployment ${deployment.id}` });
+  }
+);
+
+// List aliases
+app.openapi(
+  createRoute({
+    method: "get",
+    path: "/sites/{name}/aliases",
+    middleware: requireScope("sites:read"),
+    tags: ["aliases"],
+    summary: "List aliases of a site",
+    request: {
+      params: z.object({ name: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "List of aliases",
+        content: { "application/json": { schema: z.array(AliasSchema) } },
+      },
+      404: {
+        description: "Site not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name } = c.req.valid("param");
+    if (!db.getSite.get(name)) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    return c.json(db.getAliases.all(name).map(formatAlias));
+  }
+);
+
+// Create alias
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/aliases",
+    middleware: requireScope("sites:write"),
+    tags: ["aliases"],
+    summary: "Serve a deployment or directory of a site on an extra hostname",
+    description: "The alias inherits the site's basic auth. Pinned deployments are kept until the alias is removed.",
+    request: {
+      params: z.object({ name: z.string() }),
+      body: { content: { "application/json": { schema: CreateAliasSchema } } },
+    },
+    responses: {
+      201: {
+        description: "Alias created",
+        content: { "application/json": { schema: AliasSchema } },
+      },
+      400: {
+        description: "Invalid path or expiry",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      404: {
+        description: "Site, deployment or directory not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "Hostname already in use",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  async (c) => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    // Aliases and sites share the same hostname namespace
+    db.deleteExpiredAliases.run();
+    if (db.getSite.get(body.name) || db.getAlias.get(body.name)) {
+      return c.json({ error: `Hostname ${body.name} is already in use` }, 409);
+    }
+
+    let baseDir = site.path;
+    if (body.deployment) {
+      const deployment = db.getDeployment.get(name, body.deployment);
+      if (!deployment) {
+        return c.json({ error: "Deployment not found" }, 404);
+      }
+      baseDir = deployments.getDeploymentPath(site.path, deployment.id);
+    }
+
+    // Validate path to prevent path traversal attacks
+    const aliasPath = body.path || "";
+    const root = safePath(baseDir, aliasPath);
+    if (!root) {
+      return c.json({ error: "Invalid path" }, 400);
+    }
+    if (aliasPath && (!existsSync(root) || !statSync(root).isDirectory())) {
+      return c.json({ error: "Directory not found" }, 404);
+    }
+
+    const expiry = body.expires_in ? `+${body.expires_in} seconds` : null;
+    if (expiry && !db.resolveExpiry.get(expiry)!.expires_at) {
+      return c.json({ error: "Invalid expiry" }, 400);
+    }
+    const { id } = db.insertAlias.get(site.id, body.name, body.deployment ?? null, aliasPath, root, expiry)!;
+
+    try {
+      await caddy.syncCaddy();
+    } catch (e: any) {
+      db.deleteAliasQuery.run(body.name);
+      return c.json({ error: `Failed to configure Caddy: ${e.message}` }, 500);
+    }
+
+    const alias = db.getAliases.all(name).find(a => a.id === id);
+    audit(c, "alias.create", name, body.name, { deployment: body.deployment, path: aliasPath, expires_at: alias.expires_at });
+    return c.json(formatAlias(alias), 201);
+  }
+);
+
+// Delete alias
+app.openapi(
+  createRoute({
+    method: "delete",
+    path: "/sites/{name}/aliases/{alias}",
+    middleware: requireScope("sites:write"),
+    tags: ["aliases"],
+    summary: "Delete an alias",
+    request: {
+      params: z.object({ name: z.string(), alias: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "Alias deleted",
+        content: { "application/json": { schema: SuccessSchema } },
+      },
+      404: {
+        description: "Alias not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  async (c) => {
+    const { name, alias: aliasName } = c.req.valid("param");
+    const alias = db.getAlias.get(aliasName);
+
+    if (!alias || alias.site !== name) {
+      return c.json({ error: "Alias not found" }, 404);
+    }
+
+    db.deleteAliasQuery.run(aliasName);
+    await caddy.syncCaddy();
+    audit(c, "alias.delete", name, aliasName);
+
+    return c.json({ success: true, message: `Alias ${aliasName} deleted` });
+  }
+);
+
+// === Share links ===
+// Sites behind basic auth can be shared without the password through signed,
+// expiring links. Caddy sends requests carrying a link's token to
+// GET /share-links/verify (forward_auth) instead of asking for the password.
+
+// List share links
+app.openapi(
+  createRoute({
+    method: "get",
+    path: "/sites/{name}/share-links",
+    middleware: requireScope("sites:read"),
+    tags: ["share-links"],
+    summary: "List share links of a site, newest first",
+    request: {
+      params: z.object({ name: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "List of share links",
+        content: { "application/json": { schema: z.array(ShareLinkSchema) } },
+      },
+      404: {
+        description: "Site not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name } = c.req.valid("param");
+    if (!db.getSite.get(name)) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    return c.json(db.getShareLinks.all(name).map(formatShareLink));
+  }
+);
+
+// Create share link
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/share-links",
+    middleware: requireScope("sites:write"),
+    tags: ["share-links"],
+    summary: "Create a link that opens a protected site without its password",
+    description:
+      "The link is valid for paths under `path` until it expires or is revoked. With max_uses, " +
+      "it can be opened that many times; pages it opens can still load their assets. The URL is only returned here.",
+    request: {
+      params: z.object({ name: z.string() }),
+      body: { content: { "application/json": { schema: CreateShareLinkSchema } } },
+    },
+    responses: {
+      201: {
+        description: "Share link created",
+        content: { "application/json": { schema: ShareLinkSecretSchema } },
+      },
+      400: {
+        description: "Invalid path",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      404: {
+        description: "Site not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "Site isn't password protected",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name } = c.req.valid("param");
+    const body = c.req.valid("json");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+    if (!site.auth_users) {
+      return c.json({ error: `Site ${name} isn't password protected; share its URL instead` }, 409);
+    }
+
+    const path = shareLinks.normalizePrefix(body.path ?? "/");
+    if (!path) {
+      return c.json({ error: "Invalid path" }, 400);
+    }
+
+    const { id } = db.insertShareLink.get(
+      site.id, path, `+${body.expires_in} seconds`, body.max_uses ?? null, c.get("apiKey").id
+    )!;
+    const link = db.getShareLink.get(id);
+    const token = shareLinks.signShareLink(SHARE_SECRET, link);
+
+    audit(c, "share.create", name, id, { path, expires_at: link.expires_at, max_uses: link.max_uses });
+    return c.json({
+      ...formatShareLink(link),
+      url: shareLinks.shareUrl(caddy.getSiteUrl(name, site.primary_domain), link, token),
+    }, 201);
+  }
+);
+
+// Revoke share link
+app.openapi(
+  createRoute({
+    method: "delete",
+    path: "/sites/{name}/share-links/{id}",
+    middleware: requireScope("sites:write"),
+    tags: ["share-links"],
+    summary: "Revoke a share link",
+    request: {
+      params: z.object({ name: z.string(), id: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "Share link revoked",
+        content: { "application/json": { schema: SuccessSchema } },
+      },
+      404: {
+        description: "Share link not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name, id: idParam } = c.req.valid("param");
+    const id = parseInt(idParam);
+    const link = db.getShareLink.get(id);
+
+    if (!link || link.site !== name) {
+      return c.json({ error: "Share link not found" }, 404);
+    }
+
+    if (db.revokeShareLinkQuery.run(id).changes > 0) {
+      audit(c, "share.revoke", name, id, { path: link.path });
+    }
+    return c.json({ success: true, message: `Share link ${id} revoked` });
+  }
+);
+
+// Check a share link for Caddy (no API key; the token is the credential)
+app.openapi(
+  createRoute({
+    method: "get",
+    path: shareLinks.VERIFY_PATH,
+    tags: ["share-links"],
+    summary: "Check the share link of a forwarded request (Caddy forward_auth)",
+    description:
+      "Reads the original request from X-Forwarded-Host and X-Forwarded-Uri, and the token from the " +
+      "sf_token query parameter or sf_share cookie. Opening a link with sf_token counts as a use. " +
+      "A rejected cookie is cleared with a redirect, so the visitor gets the password prompt instead.",
+    responses: {
+      200: {
+        description: "Request allowed",
+        content: { "application/json": { schema: SuccessSchema } },
+      },
+      302: {
+        description: "Rejected cookie cleared; retry the original URL",
+      },
+      401: {
+        description: "No valid share token",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      403: {
+        description: "Link expired, revoked, used up or not valid for this path",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const host = (c.req.header("X-Forwarded-Host") || c.req.header("Host") || "").replace(/:\d+$/, "");
+    const uri = c.req.header("X-Forwarded-Uri") || "/";
+    const presented = shareLinks.readShareToken(uri, c.req.header("Cookie"));
+
+    const deny = (error: string, status: 401 | 403) => {
+      if (presented?.source !== "cookie") return c.json({ error }, status);
+      return c.body(null, 302, {
+        Location: uri,
+        "Set-Cookie": `${shareLinks.TOKEN_COOKIE}=; Path=/; Max-Age=0; HttpOnly; Secure; SameSite=Lax`,
+      });
+    };
+
+    const id = presented && shareLinks.parseShareToken(presented.token);
+    const link = id ? db.getShareLink.get(id) : null;
+    if (!presented || !link || !shareLinks.verifyShareToken(SHARE_SECRET, presented.token, link)) {
+      return deny("Invalid share link", 401);
+    }
+
+    if (resolveSiteHost(host) !== link.site_id) {
+      return deny("Invalid share link", 401);
+    }
+    if (link.revoked_at) {
+      return deny("This share link has been revoked", 403);
+    }
+    if (link.expired) {
+      return deny("This share link has expired", 403);
+    }
+    if (!shareLinks.matchesPrefix(link.path, new URL(uri, "http://localhost").pathname)) {
+      return deny(`This share link only opens ${link.path}`, 403);
+    }
+    if (presented.source === "query" && db.useShareLink.run(link.id).changes === 0) {
+      return deny("This share link has been used up", 403);
+    }
+
+    return c.json({ success: true, message: `Share link ${link.id}` });
+  }
+);
+
+// List custom domains
+app.openapi(
+  createRoute({
+    method: "get",
+    path: "/sites/{name}/domains",
+    middleware: requireScope("sites:read"),
+    tags: ["domains"],
+    summary: "List custom domains of a site",
+    request: {
+      params: z.object({ name: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "List of domains",
+        content: { "application/json": { schema: z.array(DomainSchema) } },
+      },
+      404: {
+        description: "Site not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name } = c.req.valid("param");
+    if (!db.getSite.get(name)) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    return c.json(db.getDomains.all(name).map(formatDomain));
+  }
+);
+
+// Add custom domain
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/domains",
+    middleware: requireScope("sites:write"),
+    tags: ["domains"],
+    summary: "Add a custom domain (pending verification)",
+    description: "The domain is only served once verified. Publish the returned TXT record or well-known file, then call /verify.",
+    request: {
+      params: z.object({ name: z.string() }),
+      body: { content: { "application/json": { schema: CreateDomainSchema } } },
+    },
+    responses: {
+      201: {
+        description: "Domain added",
+        content: { "application/json": { schema: DomainSchema } },
+      },
+      400: {
+        description: "Invalid domain",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      404: {
+        description: "Site not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "Domain already in use",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name } = c.req.valid("param");
+    const { domain } = c.req.valid("json");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    // Subdomains of our own domain are sites or aliases, not custom domains
+    if (domain === SITES_DOMAIN || domain.endsWith(`.${SITES_DOMAIN}`)) {
+      return c.json({ error: `Subdomains of ${SITES_DOMAIN} cannot be added as custom domains` }, 400);
+    }
+
+    if (db.getDomain.get(domain)) {
+      return c.json({ error: `Domain ${domain} is already in use` }, 409);
+    }
+
+    db.insertDomain.run(site.id, domain, domains.generateToken());
+    audit(c, "domain.add", name, domain);
+
+    return c.json(formatDomain(db.getDomain.get(domain)), 201);
+  }
+);
+
+// Verify custom domain
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/domains/{domain}/verify",
+    middleware: requireScope("sites:write"),
+    tags: ["domains"],
+    summary: "Check domain ownership and start serving it",
+    request: {
+      params: z.object({ name: z.string(), domain: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "Domain verified",
+        content: { "application/json": { schema: DomainSchema } },
+      },
+      404: {
+        description: "Domain not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      422: {
+        description: "Verification record not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  async (c) => {
+    const { name, domain } = c.req.valid("param");
+    const row = db.getDomain.get(domain);
+
+    if (!row || row.site !== name) {
+      return c.json({ error: "Domain not found" }, 404);
+    }
+
+    if (!row.verified_at) {
+      const result = await domains.verifyDomain(domain, row.token);
+      if (!result.verified) {
+        const { txt_name, txt_value, http_url } = domains.getVerificationInstructions(domain, row.token);
+        return c.json({
+          error: `Verification failed. Create a TXT record ${txt_name} with "${txt_value}", or serve the token at ${http_url}`
+        }, 422);
+      }
+
+      db.markDomainVerified.run(domain);
+
+      // The first verified domain becomes the primary one
+      const site = db.getSite.get(name);
+      if (!site.primary_domain) {
+        db.setPrimaryDomain.run(domain, site.id);
+      }
+
+      await caddy.syncCaddy();
+      audit(c, "domain.verify", name, domain);
+    }
+
+    return c.json(formatDomain(db.getDomain.get(domain)));
+  }
+);
+
+// Set primary custom domain
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/sites/{name}/domains/{domain}/primary",
+    middleware: requireScope("sites:write"),
+    tags: ["domains"],
+    summary: "Use a verified domain for the site's URLs",
+    request: {
+      params: z.object({ name: z.string(), domain: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "Primary domain set",
+        content: { "application/json": { schema: DomainSchema } },
+      },
+      404: {
+        description: "Domain not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "Domain not verified yet",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name, domain } = c.req.valid("param");
+    const row = db.getDomain.get(domain);
+
+    if (!row || row.site !== name) {
+      return c.json({ error: "Domain not found" }, 404);
+    }
+    if (!row.verified_at) {
+      return c.json({ error: "Domain is not verified yet" }, 409);
+    }
+
+    const site = db.getSite.get(name);
+    db.setPrimaryDomain.run(domain, site.id);
+    audit(c, "domain.primary", name, domain, { primary_domain: [site.primary_domain, domain] });
+
+    return c.json(formatDomain(db.getDomain.get(domain)));
+  }
+);
+
+// Remove custom domain
+app.openapi(
+  createRoute({
+    method: "delete",
+    path: "/sites/{name}/domains/{domain}",
+    middleware: requireScope("sites:write"),
+    tags: ["domains"],
+    summary: "Remove a custom domain",
+    request: {
+      params: z.object({ name: z.string(), domain: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "Domain removed",
+        content: { "application/json": { schema: SuccessSchema } },
+      },
+      404: {
+        description: "Domain not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  async (c) => {
+    const { name, domain } = c.req.valid("param");
+    const row = db.getDomain.get(domain);
+
+    if (!row || row.site !== name) {
+      return c.json({ error: "Domain not found" }, 404);
+    }
+
+    db.deleteDomainQuery.run(domain);
+
+    // Fall back to another verified domain for URLs
+    if (row.primary) {
+      const next = db.getDomains.all(name).find(d => d.verified_at);
+      if (next) {
+        db.setPrimaryDomain.run(next.domain, db.getSite.get(name).id);
+      }
+    }
+
+    if (row.verified_at) {
+      await caddy.syncCaddy();
+    }
+
+    audit(c, "domain.remove", name, domain);
+    return c.json({ success: true, message: `Domain ${domain} removed` });
+  }
 );
 
-// Delete file
+// List API keys
+app.openapi(
+  createRoute({
+    method: "get",
+    path: "/keys",
+    middleware: requireScope("admin"),
+    tags: ["keys"],
+    summary: "List API keys, including revoked and expired ones",
+    responses: {
+      200: {
+        description: "List of API keys",
+        content: { "application/json": { schema: z.array(ApiKeySchema) } },
+      },
+    },
+  }),
+  (c) => {
+    return c.json(db.getApiKeys.all().map(formatApiKey));
+  }
+);
+
+// Create API key
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/keys",
+    middleware: requireScope("admin"),
+    tags: ["keys"],
+    summary: "Create an API key",
+    description: "The key is returned once and cannot be recovered.",
+    request: {
+      body: { content: { "application/json": { schema: CreateApiKeySchema } } },
+    },
+    responses: {
+      201: {
+        description: "Key created",
+        content: { "application/json": { schema: ApiKeySecretSchema } },
+      },
+      400: {
+        description: "Invalid expiry",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const body = c.req.valid("json");
+    const expiry = body.expires_in ? `+${body.expires_in} seconds` : null;
+    if (expiry && !db.resolveExpiry.get(expiry)!.expires_at) {
+      return c.json({ error: "Invalid expiry" }, 400);
+    }
+    const key = generateApiKey();
+
+    const row = db.insertApiKey.get(
+      hashApiKey(key),
+      body.name,
+      [...new Set(body.scopes)].join(" "),
+      body.sites?.length ? body.sites.join(" ") : null,
+      expiry
+    );
+
+    audit(c, "key.create", null, row.id, { name: row.name, scopes: row.scopes, sites: row.sites, expires_at: row.expires_at });
+    return c.json({ ...formatApiKey(row), key }, 201);
+  }
+);
+
+// Revoke API key
 app.openapi(
   createRoute({
     method: "delete",
-    path: "/sites/{name}/files/{path}",
-    tags: ["files"],
-    summary: "Delete a file from a site",
+    path: "/keys/{id}",
+    middleware: requireScope("admin"),
+    tags: ["keys"],
+    summary: "Revoke an API key",
+    description: "Revoked keys stop working immediately and stay listed.",
     request: {
-      params: z.object({
-        name: z.string(),
-        path: z.string(),
-      }),
+      params: z.object({ id: z.string() }),
     },
     responses: {
       200: {
-        description: "File deleted",
+        description: "Key revoked",
+        content: { "application/json": { schema: ApiKeySchema } },
+      },
+      404: {
+        description: "Key not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "Already revoked, or the last admin key",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const id = parseInt(c.req.valid("param").id);
+    const row = db.getApiKeyById.get(id);
+
+    if (!row) {
+      return c.json({ error: "Key not found" }, 404);
+    }
+    if (row.revoked_at) {
+      return c.json({ error: "Key already revoked" }, 409);
+    }
+    if (isAdminKey(row) && db.countActiveAdminKeys.get(id)!.count === 0) {
+      return c.json({ error: "Can't revoke the last admin key" }, 409);
+    }
+
+    const revoked = db.revokeApiKeyQuery.get(id);
+    audit(c, "key.revoke", null, id, { name: row.name });
+    return c.json(formatApiKey(revoked));
+  }
+);
+
+// Rotate API key
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/keys/{id}/rotate",
+    middleware: requireScope("admin"),
+    tags: ["keys"],
+    summary: "Replace an API key's secret",
+    description: "Scopes, sites and expiry are kept. The old secret stops working immediately.",
+    request: {
+      params: z.object({ id: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "Key rotated",
+        content: { "application/json": { schema: ApiKeySecretSchema } },
+      },
+      404: {
+        description: "Key not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      409: {
+        description: "Key revoked",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const id = parseInt(c.req.valid("param").id);
+    const row = db.getApiKeyById.get(id);
+
+    if (!row) {
+      return c.json({ error: "Key not found" }, 404);
+    }
+    if (row.revoked_at) {
+      return c.json({ error: "Key is revoked" }, 409);
+    }
+
+    const key = generateApiKey();
+    const rotated = db.rotateApiKeyQuery.get(hashApiKey(key), id);
+    audit(c, "key.rotate", null, id, { name: row.name });
+    return c.json({ ...formatApiKey(rotated), key });
+  }
+);
+
+// === Webhooks ===
+// Keys see and manage only their own webhooks; admin keys see all
+
+function canManageWebhook(key: AuthKey, hook: { owner_key_id: number | null }): boolean {
+  return key.scopes.includes("admin") || hook.owner_key_id === key.id;
+}
+
+// List webhooks
+app.openapi(
+  createRoute({
+    method: "get",
+    path: "/webhooks",
+    middleware: requireScope("sites:read"),
+    tags: ["webhooks"],
+    summary: "List webhooks",
+    responses: {
+      200: {
+        description: "List of webhooks",
+        content: { "application/json": { schema: z.array(WebhookSchema) } },
+      },
+    },
+  }),
+  (c) => {
+    const key = c.get("apiKey");
+    return c.json(db.getWebhooks.all().filter(hook => canManageWebhook(key, hook)).map(formatWebhook));
+  }
+);
+
+// Create webhook
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/webhooks",
+    middleware: requireScope("sites:write"),
+    tags: ["webhooks"],
+    summary: "Create a webhook",
+    description:
+      "Events are POSTed as JSON with an X-SF-Signature-256 header: sha256= followed by the " +
+      "hex HMAC-SHA256 of the body, keyed with the secret. The secret is only returned here.",
+    request: {
+      body: { content: { "application/json": { schema: CreateWebhookSchema } } },
+    },
+    responses: {
+      201: {
+        description: "Webhook created",
+        content: { "application/json": { schema: WebhookSecretSchema } },
+      },
+      400: {
+        description: "Invalid input, or a URL on a loopback, private or link-local address",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      403: {
+        description: "Key can't access one of the sites",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  async (c) => {
+    const body = c.req.valid("json");
+    const key = c.get("apiKey");
+
+    for (const name of body.sites ?? []) {
+      const site = db.getSite.get(name) ?? { name, owner_key_id: key.id };
+      if (!canAccessSite(key, site)) {
+        return c.json({ error: `This key can't access site: ${name}` }, 403);
+      }
+    }
+
+    const blocked = await webhooks.checkWebhookTarget(body.url, WEBHOOK_ALLOW_HOSTS);
+    if (blocked) {
+      return c.json({ error: blocked }, 400);
+    }
+
+    const secret = body.secret ?? webhooks.generateWebhookSecret();
+    const events = body.events.includes("*") ? "*" : [...new Set(body.events)].join(" ");
+    const sites = body.sites?.length ? [...new Set(body.sites)].join(" ") : null;
+    const row = db.insertWebhook.get(body.url, secret, events, sites, key.id);
+
+    audit(c, "webhook.create", null, row.id, { url: body.url, events, sites });
+    return c.json({ ...formatWebhook(row), secret }, 201);
+  }
+);
+
+// Delete webhook
+app.openapi(
+  createRoute({
+    method: "delete",
+    path: "/webhooks/{id}",
+    middleware: requireScope("sites:write"),
+    tags: ["webhooks"],
+    summary: "Delete a webhook and its pending deliveries",
+    request: {
+      params: z.object({ id: z.string() }),
+    },
+    responses: {
+      200: {
+        description: "Webhook deleted",
         content: { "application/json": { schema: SuccessSchema } },
       },
       404: {
-        description: "File not found",
+        description: "Webhook not found",
         content: { "application/json": { schema: ErrorSchema } },
       },
     },
   }),
   (c) => {
-    const { name, path: filePath } = c.req.valid("param");
-    const site = db.getSite.get(name);
+    const id = parseInt(c.req.valid("param").id);
+    const hook = db.getWebhookById.get(id);
 
-    if (!site) {
-      return c.json({ error: "Site not found" }, 404);
+    if (!hook || !canManageWebhook(c.get("apiKey"), hook)) {
+      return c.json({ error: "Webhook not found" }, 404);
     }
 
-    // Validate path to prevent path traversal attacks
-    const fullPath = safePath(site.path, filePath);
-    if (!fullPath) {
-      return c.json({ error: "Invalid path" }, 400);
+    db.deleteWebhookQuery(id);
+    audit(c, "webhook.delete", null, id, { url: hook.url });
+    return c.json({ success: true, message: `Webhook ${id} deleted` });
+  }
+);
+
+// Webhook delivery log
+app.openapi(
+  createRoute({
+    method: "get",
+    path: "/webhooks/{id}/deliveries",
+    middleware: requireScope("sites:read"),
+    tags: ["webhooks"],
+    summary: "List recent deliveries of a webhook, newest first",
+    request: {
+      params: z.object({ id: z.string() }),
+      query: z.object({
+        limit: z.string().optional().describe("Deliveries to return (default 50, max 500)"),
+      }),
+    },
+    responses: {
+      200: {
+        description: "Deliveries",
+        content: { "application/json": { schema: z.array(WebhookDeliverySchema) } },
+      },
+      404: {
+        description: "Webhook not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const id = parseInt(c.req.valid("param").id);
+    const hook = db.getWebhookById.get(id);
+
+    if (!hook || !canManageWebhook(c.get("apiKey"), hook)) {
+      return c.json({ error: "Webhook not found" }, 404);
     }
 
-    if (!existsSync(fullPath)) {
-      return c.json({ error: "File not found" }, 404);
+    const limit = Math.min(parseInt(c.req.valid("query").limit || "50") || 50, 500);
+    const deliveries = db.getDeliveries.all(id, limit).map(d => ({ ...d, payload: JSON.parse(d.payload) }));
+    return c.json(deliveries);
+  }
+);
+
+// Audit log
+app.openapi(
+  createRoute({
+    method: "get",
+    path: "/audit",
+    middleware: requireScope("admin"),
+    tags: ["audit"],
+    summary: "Browse the audit log of mutating API calls, newest first",
+    request: {
+      query: z.object({
+        site: z.string().optional().describe("Only entries for this site"),
+        actor: z.string().optional().describe("Only entries by this key ID"),
+        since: z.string().optional().describe("ISO 8601 timestamp"),
+        before: z.string().optional().describe("Cursor from next_cursor"),
+        limit: z.string().optional().describe("Entries per page (default 50, max 500)"),
+      }),
+    },
+    responses: {
+      200: {
+        description: "A page of audit entries",
+        content: { "application/json": { schema: AuditPageSchema } },
+      },
+      400: {
+        description: "Invalid filter",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const query = c.req.valid("query");
+
+    const actor = query.actor ? parseInt(query.actor) : null;
+    const before = query.before ? parseInt(query.before) : null;
+    const limit = Math.min(parseInt(query.limit || "50"), 500);
+    if (Number.isNaN(actor) || Number.isNaN(before) || !(limit > 0)) {
+      return c.json({ error: "actor, before and limit must be numbers" }, 400);
+    }
+    if (query.since && Number.isNaN(Date.parse(query.since))) {
+      return c.json({ error: "since must be an ISO 8601 timestamp" }, 400);
     }
 
-    // Get file size before deleting to update quota
-    const fileSize = statSync(fullPath).size;
+    // SQLite's datetime() wants UTC without the zone suffix
+    const since = query.since ? new Date(query.since).toISOString().replace("T", " ").slice(0, 19) : null;
 
-    unlinkSync(fullPath);
+    // One extra row tells whether there is another page
+    const rows = db.getAuditLog.all(query.site ?? null, actor, since, before, limit + 1);
+    const entries = rows.slice(0, limit).map(row => ({ ...row, diff: row.diff ? JSON.parse(row.diff) : null }));
 
-    // Update used_bytes
-    db.decrementUsedBytes.run(fileSize, name);
+    return c.json({
+      entries,
+      next_cursor: rows.length > limit ? entries[entries.length - 1].id : null,
+    });
+  }
+);
 
-    return c.json({ success: true, message: `Deleted ${filePath}` });
+// Storage reconciliation
+app.openapi(
+  createRoute({
+    method: "post",
+    path: "/admin/reconcile",
+    middleware: requireScope("admin"),
+    tags: ["system"],
+    summary: "Check used_bytes and site directories against the disk",
+    description: "Reports usage drift, directories with no site and sites with no directory. "
+      + "With fix, corrects usage, moves orphans to .orphaned/ under the sites root and recreates missing directories.",
+    request: {
+      body: { content: { "application/json": { schema: ReconcileRequestSchema } } },
+    },
+    responses: {
+      200: {
+        description: "What was found",
+        content: { "application/json": { schema: ReconcileReportSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { fix } = c.req.valid("json");
+    const report = reconcileStorage({ usage: fix, dirs: fix });
+
+    if (fix && (report.drift.length > 0 || report.orphans.length > 0 || report.missing.length > 0)) {
+      audit(c, "storage.reconcile", null, null, {
+        drift: report.drift.map(({ site, recorded, actual }) => ({ site, used_bytes: [recorded, actual] })),
+        orphans: report.orphans,
+        missing: report.missing,
+      });
+    }
+    return c.json({ ...report, fixed: fix });
   }
 );
 
@@ -527,6 +3770,7 @@ app.openapi(
   createRoute({
     method: "get",
     path: "/stats",
+    middleware: requireScope("stats:read"),
     tags: ["stats"],
     summary: "Get global statistics",
     responses: {
@@ -537,8 +3781,10 @@ app.openapi(
     },
   }),
   (c) => {
-    const stats = db.getGlobalStats.get();
-    const sites = db.getSites.all();
+    const key = c.get("apiKey");
+    const sites = db.getSites.all().filter(site => canAccessSite(key, site));
+    const isAdmin = key.scopes.includes("admin");
+    const stats = db.getGlobalStats.get(isAdmin ? null : JSON.stringify(sites.map(site => site.id)))!;
 
     let totalFiles = 0;
     let totalSize = 0;
@@ -563,6 +3809,7 @@ app.openapi(
   createRoute({
     method: "get",
     path: "/stats/{name}",
+    middleware: requireScope("stats:read"),
     tags: ["stats"],
     summary: "Get statistics for a site",
     request: {
@@ -602,6 +3849,100 @@ app.openapi(
   }
 );
 
+const MAX_BUCKETS = { hour: 31 * 24, day: 366 };
+
+// Site traffic over time
+app.openapi(
+  createRoute({
+    method: "get",
+    path: "/stats/{name}/timeseries",
+    middleware: requireScope("stats:read"),
+    tags: ["stats"],
+    summary: "Get requests, visitors, bandwidth and status codes per hour or day",
+    request: {
+      params: z.object({ name: z.string() }),
+      query: z.object({
+        interval: z.enum(["hour", "day"]).optional().describe("Bucket size (default day)"),
+        from: z.string().optional().describe("ISO 8601 timestamp (default 24 hours or 30 days before to)"),
+        to: z.string().optional().describe("ISO 8601 timestamp (default now)"),
+      }),
+    },
+    responses: {
+      200: {
+        description: "Traffic per bucket, oldest first",
+        content: { "application/json": { schema: TimeseriesSchema } },
+      },
+      400: {
+        description: "Invalid range",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+      404: {
+        description: "Site not found",
+        content: { "application/json": { schema: ErrorSchema } },
+      },
+    },
+  }),
+  (c) => {
+    const { name } = c.req.valid("param");
+    const query = c.req.valid("query");
+    const site = db.getSite.get(name);
+
+    if (!site) {
+      return c.json({ error: "Site not found" }, 404);
+    }
+
+    const interval = query.interval ?? "day";
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from
+      ? new Date(query.from)
+      : new Date(to.getTime() - (interval === "hour" ? 24 : 30 * 24) * 60 * 60 * 1000);
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return c.json({ error: "from and to must be ISO 8601 timestamps" }, 400);
+    }
+    if (from > to) {
+      return c.json({ error: "from must be before to" }, 400);
+    }
+
+    if (accessLogs.bucketCount(from, to, interval) > MAX_BUCKETS[interval]) {
+      return c.json({ error: `Range too long for interval=${interval} (max ${MAX_BUCKETS[interval]} buckets)` }, 400);
+    }
+    const times = accessLogs.timeBuckets(from, to, interval);
+
+    const traffic = interval === "hour" ? db.getHourlyTraffic : db.getDailyTraffic;
+    const end = accessLogs.toSqlTime(new Date(to.getTime() + 1000));
+    const rows = new Map(traffic.all(site.id, times[0], end).map(row => [row.bucket, row]));
+
+    const buckets = times.map(time => {
+      const row = rows.get(time);
+      return {
+        time,
+        requests: row?.requests ?? 0,
+        visitors: row?.visitors ?? 0,
+        bytes: row?.bytes ?? 0,
+        status: {
+          "2xx": row?.status_2xx ?? 0,
+          "3xx": row?.status_3xx ?? 0,
+          "4xx": row?.status_4xx ?? 0,
+          "5xx": row?.status_5xx ?? 0,
+        },
+      };
+    });
+
+    const fromTime = accessLogs.toSqlTime(from);
+    const toTime = accessLogs.toSqlTime(to);
+
+    return c.json({
+      site: name,
+      interval,
+      from: fromTime,
+      to: toTime,
+      buckets,
+      top_referrers: db.getTopTrafficValues.all(site.id, "referrer", fromTime, toTime, 10),
+      top_user_agents: db.getTopTrafficValues.all(site.id, "user_agent", fromTime, toTime, 10),
+    });
+  }
+);
+
 // OpenAPI spec
 app.doc("/openapi.json", {
   openapi: "3.1.0",
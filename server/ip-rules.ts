@@ -0,0 +1,43 @@
+/**
+ * Per-site IP allow and deny lists.
+ *
+ * Stored as space-separated CIDR ranges in sites.ip_allow / sites.ip_deny and
+ * rendered as Caddy remote_ip matchers. A non-empty allow list blocks every
+ * other address; the deny list is checked first.
+ */
+
+import { isIP } from "net";
+
+/**
+ * Normalize an address or CIDR range, e.g. "10.0.0.1" -> "10.0.0.1/32".
+ *
+ * @returns null if it isn't a valid IPv4 or IPv6 address or range
+ */
+export function normalizeCidr(value: string): string | null {
+  const [address, bits, ...rest] = value.trim().toLowerCase().split("/");
+  const version = isIP(address);
+  if (version === 0 || rest.length > 0) return null;
+
+  const max = version === 4 ? 32 : 128;
+  if (bits === undefined) return `${address}/${max}`;
+  if (!/^\d{1,3}$/.test(bits) || parseInt(bits) > max) return null;
+  return `${address}/${parseInt(bits)}`;
+}
+
+/**
+ * Validate a list for storage: normalized, deduplicated, null when empty.
+ *
+ * @throws Error naming the first invalid entry
+ */
+export function parseIpRules(values: string[] | null): string | null {
+  const ranges = (values ?? []).map(value => {
+    const cidr = normalizeCidr(value);
+    if (!cidr) throw new Error(`Invalid IP address or CIDR range: ${value}`);
+    return cidr;
+  });
+  return ranges.length > 0 ? [...new Set(ranges)].join(" ") : null;
+}
+
+export function splitIpRules(value: string | null): string[] {
+  return value ? value.split(" ") : [];
+}
@@ -0,0 +1,140 @@
+/**
+ * Prometheus metrics in the text exposition format.
+ *
+ * A minimal registry: counters and histograms are updated where things
+ * happen, gauges are read from a callback when /metrics is scraped.
+ */
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  samples(): { suffix?: string; labels: Labels; value: number }[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// Stable map key for a label set
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatValue(value: number): string {
+  return value === Infinity ? "+Inf" : String(value);
+}
+
+export function counter(name: string, help: string) {
+  const values = new Map<string, { labels: Labels; value: number }>();
+
+  registry.push({
+    name, help, type: "counter",
+    samples: () => [...values.values()],
+  });
+
+  return {
+    inc(labels: Labels = {}, value = 1) {
+      const key = labelKey(labels);
+      const sample = values.get(key) ?? { labels, value: 0 };
+      sample.value += value;
+      values.set(key, sample);
+    },
+  };
+}
+
+export function histogram(name: string, help: string, buckets: number[]) {
+  const values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  registry.push({
+    name, help, type: "histogram",
+    samples: () => [...values.values()].flatMap(({ labels, counts, sum, count }) => [
+      ...buckets.map((le, i) => ({ suffix: "_bucket", labels: { ...labels, le: formatValue(le) }, value: counts[i] })),
+      { suffix: "_bucket", labels: { ...labels, le: "+Inf" }, value: count },
+      { suffix: "_sum", labels, value: sum },
+      { suffix: "_count", labels, value: count },
+    ]),
+  });
+
+  return {
+    observe(labels: Labels, value: number) {
+      const key = labelKey(labels);
+      const sample = values.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      buckets.forEach((le, i) => {
+        if (value <= le) sample.counts[i]++;
+      });
+      sample.sum += value;
+      sample.count++;
+      values.set(key, sample);
+    },
+  };
+}
+
+/**
+ * A gauge whose values are collected on each scrape.
+ */
+export function gauge(name: string, help: string, collect: () => { labels: Labels; value: number }[]) {
+  registry.push({ name, help, type: "gauge", samples: collect });
+}
+
+/**
+ * Render all metrics. A failing gauge callback is skipped rather than
+ * failing the whole scrape.
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+
+  for (const metric of registry) {
+    let samples;
+    try {
+      samples = metric.samples();
+    } catch (e: any) {
+      console.error(`Failed to collect ${metric.name}:`, e.message);
+      continue;
+    }
+
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    for (const { suffix = "", labels, value } of samples) {
+      lines.push(`${metric.name}${suffix}${formatLabels(labels)} ${formatValue(value)}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// === Server metrics ===
+
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export const httpRequests = counter("sf_http_requests_total", "HTTP requests by method, route and status");
+export const httpDuration = histogram(
+  "sf_http_request_duration_seconds", "HTTP request latency by method and route", LATENCY_BUCKETS
+);
+export const rateLimitRejections = counter("sf_rate_limit_rejections_total", "Requests rejected by the rate limiter");
+export const uploadBytes = counter("sf_upload_bytes_total", "Bytes written by uploads, by site");
+export const caddySyncs = counter("sf_caddy_syncs_total", "Caddy config syncs by result");
+export const caddySyncDuration = histogram(
+  "sf_caddy_sync_duration_seconds", "Caddy config sync duration", [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+);
+export const sqliteErrors = counter("sf_sqlite_errors_total", "SQLite errors in requests and background jobs");
+
+// Export zeros from the start so rate() works before the first event
+rateLimitRejections.inc({}, 0);
+sqliteErrors.inc({}, 0);
+
+/**
+ * Count an error caught by a request or background job.
+ */
+export function recordError(error: unknown): void {
+  if (error instanceof Error && error.name === "SQLiteError") sqliteErrors.inc();
+}
@@ -0,0 +1,115 @@
+import type { Context, Next } from "hono";
+import { createHash, randomBytes } from "crypto";
+
+/**
+ * Permissions an API key can be granted. `admin` implies all others.
+ */
+export const SCOPES = ["sites:read", "sites:write", "files:write", "stats:read", "admin"] as const;
+
+export type Scope = (typeof SCOPES)[number];
+
+/**
+ * The authenticated key, set on the context by the auth middleware.
+ */
+export interface AuthKey {
+  id: number;
+  name: string;
+  scopes: Scope[];
+  sites: string[] | null;  // null = all sites
+}
+
+export type AuthVariables = { apiKey: AuthKey };
+
+/**
+ * Generate a new API key. Only its hash is stored.
+ */
+export function generateApiKey(): string {
+  return `sk_${randomBytes(24).toString("base64url")}`;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Parse a space- or comma-separated scope list.
+ *
+ * @throws Error naming the first unknown scope
+ */
+export function parseScopes(value: string): Scope[] {
+  const scopes = value.split(/[\s,]+/).filter(Boolean);
+  for (const scope of scopes) {
+    if (!(SCOPES as readonly string[]).includes(scope)) {
+      throw new Error(`Unknown scope: ${scope}. Use one of ${SCOPES.join(", ")}`);
+    }
+  }
+  return [...new Set(scopes)] as Scope[];
+}
+
+/**
+ * Parse a space- or comma-separated site allowlist. Empty means all sites.
+ */
+export function parseSites(value: string | null): string[] | null {
+  const sites = (value || "").split(/[\s,]+/).filter(Boolean);
+  return sites.length > 0 ? sites : null;
+}
+
+/**
+ * Build an AuthKey from an api_keys row.
+ */
+export function toAuthKey(row: { id: number; name: string; scopes: string; sites: string | null }): AuthKey {
+  return {
+    id: row.id,
+    name: row.name,
+    // Unknown scopes in the DB grant nothing rather than failing every request
+    scopes: row.scopes.split(/\s+/).filter(s => (SCOPES as readonly string[]).includes(s)) as Scope[],
+    sites: parseSites(row.sites),
+  };
+}
+
+export function hasScope(key: AuthKey, scope: Scope): boolean {
+  return key.scopes.includes("admin") || key.scopes.includes(scope);
+}
+
+/**
+ * The site fields that decide access.
+ */
+export interface SiteOwner {
+  name: string;
+  owner_key_id: number | null;
+}
+
+/**
+ * Admin keys can access every site. A key with a site allowlist can access
+ * exactly those sites; any other key only the sites it created.
+ */
+export function canAccessSite(key: AuthKey, site: SiteOwner): boolean {
+  if (key.scopes.includes("admin")) return true;
+  if (key.sites !== null) return key.sites.includes(site.name);
+  return site.owner_key_id === key.id;
+}
+
+/**
+ * Build the route middleware requiring a scope, and access to the `{name}`
+ * site if the route has one. Runs before body validation, so denied uploads
+ * aren't read. Unknown sites pass through for the route to answer 404.
+ */
+export function createScopeGuard(getSite: (name: string) => SiteOwner | null) {
+  return function requireScope(scope: Scope) {
+    return async (c: Context<{ Variables: AuthVariables }>, next: Next) => {
+      const key = c.get("apiKey");
+
+      if (!hasScope(key, scope)) {
+        return c.json({ error: `Missing scope: ${scope}` }, 403);
+      }
+
+      const name = c.req.param("name");
+      const site = name ? getSite(name) : null;
+      if (site && !canAccessSite(key, site)) {
+        return c.json({ error: `This key can't access site: ${name}` }, 403);
+      }
+
+      await next();
+    };
+  };
+}
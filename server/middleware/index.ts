@@ -1,2 +1,6 @@
-export { logging } from "./logging";
+export { logging, type LoggingVariables } from "./logging";
 export { rateLimit, getRateLimitStats, clearRateLimits } from "./rate-limit";
+export {
+  createScopeGuard, canAccessSite, toAuthKey, generateApiKey, hashApiKey, parseSites,
+  type AuthKey, type AuthVariables,
+} from "./auth";
@@ -1,4 +1,6 @@
 import type { Context, Next } from "hono";
+import { matchedRoutes } from "hono/route";
+import { httpRequests, httpDuration, recordError } from "../metrics";
 
 interface LogEntry {
   level: "info" | "warn" | "error";
@@ -7,19 +9,34 @@ interface LogEntry {
   status: number;
   duration: number;
   timestamp: string;
+  requestId: string;
   ip?: string;
   userAgent?: string;
 }
 
+export type LoggingVariables = { requestId: string };
+
 /**
  * Logging middleware that outputs JSON logs to stdout.
  * Designed for journald/systemd consumption.
+ *
+ * Each request gets an ID (from X-Request-Id if a proxy set one), returned
+ * in the X-Request-Id header and available as c.get("requestId").
+ *
+ * Also records the request count and latency metrics, labelled with the
+ * route pattern (e.g. /sites/:name) to keep the number of series bounded.
  */
 export function logging() {
-  return async (c: Context, next: Next) => {
+  return async (c: Context<{ Variables: LoggingVariables }>, next: Next) => {
     const start = Date.now();
+
+    const incoming = c.req.header("x-request-id");
+    const requestId = incoming && /^[\w.-]{1,128}$/.test(incoming) ? incoming : crypto.randomUUID();
+    c.set("requestId", requestId);
     
     await next();
+
+    c.header("X-Request-Id", requestId);
     
     const duration = Date.now() - start;
     const status = c.res.status;
@@ -31,6 +48,7 @@ export function logging() {
       status,
       duration,
       timestamp: new Date().toISOString(),
+      requestId,
     };
     
     // Add optional fields if available
@@ -41,5 +59,10 @@ export function logging() {
     if (userAgent) entry.userAgent = userAgent;
     
     console.log(JSON.stringify(entry));
+
+    const route = matchedRoutes(c).filter(r => r.method !== "ALL").pop()?.path ?? "unmatched";
+    httpRequests.inc({ method: c.req.method, route, status: String(status) });
+    httpDuration.observe({ method: c.req.method, route }, duration / 1000);
+    if (c.error) recordError(c.error);
   };
 }
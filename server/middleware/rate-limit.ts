@@ -1,4 +1,5 @@
 import type { Context, Next } from "hono";
+import { rateLimitRejections } from "../metrics";
 
 interface RateLimitConfig {
   windowMs: number;  // Time window in milliseconds
@@ -48,6 +49,7 @@ export function rateLimit(config?: Partial<RateLimitConfig>) {
 
     if (recent.length >= maxRequests) {
       const resetTime = Math.ceil((recent[0] + windowMs - now) / 1000);
+      rateLimitRejections.inc();
       
       c.res.headers.set("X-RateLimit-Limit", maxRequests.toString());
       c.res.headers.set("X-RateLimit-Remaining", "0");
@@ -0,0 +1,161 @@
+/**
+ * Soft quota limits.
+ *
+ * Each site has warning thresholds (percentages of its quota, e.g. 80 and
+ * 95). Crossing one adds a warning to upload responses and sends a single
+ * alert until usage drops below it again. With a grace margin configured,
+ * uploads may go over the quota by that margin for a limited time, counted
+ * from when usage first went over; after that they're rejected until usage
+ * is back under the quota.
+ */
+
+export const QUOTA_STATES = ["ok", "warning", "grace", "exceeded"] as const;
+
+export type QuotaState = (typeof QUOTA_STATES)[number];
+
+export interface GracePolicy {
+  percent: number;  // Margin over the quota, 0 disables grace
+  seconds: number;  // How long the margin can be used
+}
+
+/**
+ * The quota fields of a site row.
+ */
+export interface QuotaUsage {
+  quota_bytes: number;
+  used_bytes: number;
+  quota_warn_at: string | null;     // Space-separated percentages, null for the default
+  over_quota_since: string | null;  // UTC "YYYY-MM-DD HH:MM:SS"
+}
+
+export interface QuotaAlert {
+  site: string;
+  threshold: number;  // Highest threshold crossed, 100 when over the quota
+  state: QuotaState;
+  used_bytes: number;
+  quota_bytes: number;
+  grace_ends_at: string | null;
+}
+
+/**
+ * Parse a space- or comma-separated list of percentages.
+ *
+ * @throws Error if a value isn't a whole number from 1 to 99
+ */
+export function parseThresholds(value: string): number[] {
+  const thresholds = value.split(/[\s,]+/).filter(Boolean).map(v => {
+    const n = Number(v.replace(/%$/, ""));
+    if (!Number.isInteger(n) || n < 1 || n > 99) {
+      throw new Error(`Invalid quota threshold: ${v}. Use percentages from 1 to 99`);
+    }
+    return n;
+  });
+  return [...new Set(thresholds)].sort((a, b) => a - b);
+}
+
+export function getThresholds(usage: QuotaUsage, defaults: number[]): number[] {
+  return usage.quota_warn_at === null ? defaults : parseThresholds(usage.quota_warn_at);
+}
+
+/**
+ * Highest threshold crossed by `used`, 100 if over the quota, else 0.
+ */
+export function alertLevel(used: number, quota: number, thresholds: number[]): number {
+  if (used > quota) return 100;
+  const percent = (used / quota) * 100;
+  return thresholds.filter(t => percent >= t).pop() ?? 0;
+}
+
+function parseSqlTime(value: string): Date {
+  return new Date(`${value.replace(" ", "T")}Z`);
+}
+
+/**
+ * When the grace period of a site that is over quota ends, null if it isn't
+ * over quota or grace is disabled.
+ */
+export function graceEndsAt(usage: QuotaUsage, policy: GracePolicy): Date | null {
+  if (policy.percent <= 0 || !usage.over_quota_since) return null;
+  return new Date(parseSqlTime(usage.over_quota_since).getTime() + policy.seconds * 1000);
+}
+
+/**
+ * The most bytes a write may bring usage up to: the quota plus the grace
+ * margin while grace is available, otherwise the quota.
+ */
+export function uploadLimit(usage: QuotaUsage, policy: GracePolicy, now: Date = new Date()): number {
+  if (policy.percent <= 0) return usage.quota_bytes;
+  const ends = graceEndsAt(usage, policy);
+  if (ends && now >= ends) return usage.quota_bytes;
+  return usage.quota_bytes + Math.floor((usage.quota_bytes * policy.percent) / 100);
+}
+
+export function quotaState(
+  usage: QuotaUsage, thresholds: number[], policy: GracePolicy, now: Date = new Date()
+): QuotaState {
+  const level = alertLevel(usage.used_bytes, usage.quota_bytes, thresholds);
+  if (level === 100) {
+    return usage.used_bytes <= uploadLimit(usage, policy, now) ? "grace" : "exceeded";
+  }
+  return level > 0 ? "warning" : "ok";
+}
+
+function formatSize(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${bytes} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Human-readable warnings for upload responses, empty below every threshold.
+ */
+export function quotaWarnings(
+  usage: QuotaUsage, thresholds: number[], policy: GracePolicy, now: Date = new Date()
+): string[] {
+  const { used_bytes: used, quota_bytes: quota } = usage;
+  const state = quotaState(usage, thresholds, policy, now);
+  const summary = `${formatSize(used)} / ${formatSize(quota)}`;
+
+  if (state === "warning") {
+    return [`Storage at ${Math.floor((used / quota) * 100)}% of quota (${summary})`];
+  }
+  if (state === "grace") {
+    const ends = graceEndsAt(usage, policy) ?? new Date(now.getTime() + policy.seconds * 1000);
+    return [`Over quota (${summary}). Uploads are allowed up to ${formatSize(uploadLimit(usage, policy, now))} `
+      + `until ${ends.toISOString()}, then rejected until usage is under the quota`];
+  }
+  if (state === "exceeded") {
+    return [`Over quota (${summary}). Uploads are rejected until usage is under the quota`];
+  }
+  return [];
+}
+
+/**
+ * Format an alert as a plain-text email (for the SF_QUOTA_ALERT_MAILBOX sink,
+ * mbox format so any mail tool can read or forward it).
+ */
+export function formatAlertEmail(alert: QuotaAlert, to: string, now: Date = new Date()): string {
+  const subject = alert.state === "warning"
+    ? `Site ${alert.site} is at ${alert.threshold}% of its storage quota`
+    : `Site ${alert.site} is over its storage quota`;
+
+  const lines = [
+    `From static-files ${now.toUTCString()}`,
+    `From: static-files`,
+    `To: ${to}`,
+    `Date: ${now.toUTCString()}`,
+    `Subject: ${subject}`,
+    "",
+    `Site: ${alert.site}`,
+    `Used: ${formatSize(alert.used_bytes)} of ${formatSize(alert.quota_bytes)}`,
+    `State: ${alert.state}`,
+  ];
+  if (alert.grace_ends_at) lines.push(`Grace period ends: ${alert.grace_ends_at}`);
+
+  return lines.join("\n") + "\n\n";
+}
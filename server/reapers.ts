@@ -0,0 +1,112 @@
+/**
+ * Cleanup jobs for things that expire or get abandoned: resumable uploads,
+ * staging deployments, aliases and ephemeral sites.
+ *
+ * The server runs each one at startup and on a timer. Jobs log their own
+ * failures, so a timer callback never throws.
+ */
+
+import { rmSync } from "fs";
+import * as db from "./db";
+import * as caddy from "./caddy";
+import * as deployments from "./deployments";
+import * as uploads from "./uploads";
+import * as metrics from "./metrics";
+
+/**
+ * Remove a site's rows, files, deployments and in-progress uploads, and drop
+ * it from Caddy. The caller syncs Caddy afterwards.
+ */
+export async function deleteSite(site: any): Promise<void> {
+  // Delete from DB first
+  db.deleteSiteUploads.run(site.id);
+  db.deleteSiteAliases.run(site.id);
+  db.deleteSiteDomains.run(site.id);
+  db.deleteSiteShareLinks.run(site.id);
+  db.deleteSiteUsers.run(site.id);
+  db.deleteSiteDeployments.run(site.id);
+  db.deleteSiteAccessLog(site.id);
+  db.deleteSiteQuery.run(site.name);
+
+  // Delete files (site.path may be a symlink to the live deployment)
+  rmSync(site.path, { recursive: true, force: true });
+  deployments.removeAllDeployments(site.path);
+  uploads.removeAllUploads(site.path);
+
+  await caddy.removeSite(site.name);
+}
+
+/**
+ * Remove expired resumable uploads (releases their quota reservation).
+ */
+export function reapExpiredUploads(): void {
+  try {
+    for (const upload of db.getExpiredUploads.all()) {
+      uploads.removeUpload(upload.site_path, upload.id);
+      db.deleteUploadQuery.run(upload.id);
+    }
+  } catch (e: any) {
+    metrics.recordError(e);
+    console.error("Failed to remove expired uploads:", e.message);
+  }
+}
+
+/**
+ * Remove staging deployments abandoned by an interrupted upload or deploy,
+ * once they are as old as an expired resumable upload.
+ */
+export function reapStaleDeployments(maxAgeHours: number): void {
+  try {
+    for (const deployment of db.getStaleDeployments.all(`-${maxAgeHours} hours`)) {
+      deployments.removeDeployment(deployment.site_path, deployment.id);
+      db.deleteDeploymentQuery.run(deployment.id);
+      console.log(`Removed abandoned staging deployment ${deployment.id} of ${deployment.site}`);
+    }
+  } catch (e: any) {
+    metrics.recordError(e);
+    console.error("Failed to remove abandoned deployments:", e.message);
+  }
+}
+
+/**
+ * Remove expired aliases and drop their hostnames from Caddy.
+ */
+export async function reapExpiredAliases(): Promise<void> {
+  if (db.deleteExpiredAliases.run().changes === 0) return;
+  try {
+    await caddy.syncCaddy();
+  } catch (e: any) {
+    console.error("Failed to remove expired aliases from Caddy:", e.message);
+  }
+}
+
+let reapingSites = false;
+
+/**
+ * Delete ephemeral sites past their expiry, like DELETE /sites/{name}. Each
+ * one is recorded in the audit log as site.expire; `onDeleted` is called
+ * after each (the server sends site.deleted webhooks from it).
+ */
+export async function reapExpiredSites(onDeleted: (site: any) => void = () => {}): Promise<void> {
+  if (reapingSites) return;
+  reapingSites = true;
+  try {
+    const expired = db.getExpiredSites.all();
+    if (expired.length === 0) return;
+
+    for (const site of expired) {
+      await deleteSite(site);
+      db.insertAudit.run(null, "site.expire", site.name, null, null, null, JSON.stringify({
+        expires_at: site.expires_at, used_bytes: site.used_bytes, owner_key_id: site.owner_key_id,
+      }));
+      onDeleted(site);
+      console.log(`Deleted expired site ${site.name} (expired ${site.expires_at} UTC)`);
+    }
+    await caddy.syncCaddy();
+  } catch (e: any) {
+    metrics.recordError(e);
+    console.error("Failed to delete expired sites:", e.message);
+  } finally {
+    reapingSites = false;
+  }
+}
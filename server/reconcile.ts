@@ -0,0 +1,94 @@
+/**
+ * Storage reconciliation ("fsck").
+ *
+ * `used_bytes` is kept up to date incrementally as files are written and
+ * deleted, so it drifts when files change outside the API or a write fails
+ * halfway. Reconciling compares the DB with SITES_ROOT: recorded vs actual
+ * usage, directories without a site row, and site rows without a directory.
+ *
+ * SITES_ROOT entries starting with a dot (.deployments, .uploads, and
+ * .orphaned where repaired orphans are moved) are internal and skipped.
+ */
+
+import { existsSync, lstatSync, mkdirSync, readdirSync, renameSync } from "fs";
+import { join } from "path";
+
+export const ORPHANS_DIR = ".orphaned";
+
+export interface SiteDir {
+  name: string;
+  path: string;
+  used_bytes: number;
+}
+
+export interface UsageDrift {
+  site: string;
+  recorded: number;
+  actual: number;
+}
+
+export interface ReconcileReport {
+  sites: number;      // Sites checked
+  drift: UsageDrift[];
+  orphans: string[];  // Directories under SITES_ROOT with no site
+  missing: string[];  // Sites whose directory doesn't exist
+}
+
+/**
+ * Compare sites with what's on disk.
+ *
+ * @param dirSize - Measures a site directory (following the deployment symlink)
+ */
+export function scanSites(root: string, sites: SiteDir[], dirSize: (path: string) => number): ReconcileReport {
+  const report: ReconcileReport = { sites: sites.length, drift: [], orphans: findOrphanDirs(root, sites), missing: [] };
+
+  for (const site of sites) {
+    // existsSync follows symlinks, so a link to a removed deployment counts as missing
+    if (!existsSync(site.path)) {
+      report.missing.push(site.name);
+      continue;
+    }
+    const actual = dirSize(site.path);
+    if (actual !== site.used_bytes) {
+      report.drift.push({ site: site.name, recorded: site.used_bytes, actual });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Directories (or symlinks) under the sites root that don't belong to a site.
+ * Stray files, internal dot-directories and the temporary symlinks of an
+ * in-progress deployment swap are ignored.
+ */
+export function findOrphanDirs(root: string, sites: { name: string }[]): string[] {
+  if (!existsSync(root)) return [];
+
+  const known = new Set(sites.map(site => site.name));
+  return readdirSync(root, { withFileTypes: true })
+    .filter(entry => !entry.name.startsWith(".") && !entry.name.includes(".swap-"))
+    .filter(entry => entry.isDirectory() || entry.isSymbolicLink())
+    .filter(entry => !known.has(entry.name))
+    .map(entry => entry.name)
+    .sort();
+}
+
+/**
+ * Move an orphan directory to SITES_ROOT/.orphaned/<name>-<timestamp>
+ * rather than deleting it, so nothing is lost if the DB was the one at fault.
+ *
+ * @returns The new path
+ */
+export function moveOrphan(root: string, name: string, now: Date = new Date()): string {
+  const source = join(root, name);
+  if (!lstatSync(source, { throwIfNoEntry: false })) {
+    throw new Error(`Not found: ${source}`);
+  }
+
+  const dir = join(root, ORPHANS_DIR);
+  mkdirSync(dir, { recursive: true });
+  const dest = join(dir, `${name}-${now.toISOString().replace(/[:.]/g, "-")}`);
+  renameSync(source, dest);
+  return dest;
+}
@@ -0,0 +1,281 @@
+/**
+ * Netlify-style `_redirects` and `_headers` rule files.
+ *
+ * The files live in the site root and are compiled into Caddy directives by
+ * scripts/sync-caddy.ts, so they follow deployments and rollbacks. Uploads
+ * validate them first; sync skips files that are invalid anyway (e.g. placed
+ * by a move) instead of breaking the Caddy config.
+ */
+
+import { existsSync, readFileSync, statSync } from "fs";
+import { join, normalize } from "path";
+
+export const REDIRECTS_FILE = "_redirects";
+export const HEADERS_FILE = "_headers";
+export const RULE_FILES = [REDIRECTS_FILE, HEADERS_FILE];
+
+const MAX_RULES = 1000;
+const REDIRECT_STATUSES = [200, 301, 302, 303, 307, 308];
+
+export interface RuleError {
+  line: number;
+  message: string;
+}
+
+export interface RedirectRule {
+  line: number;
+  from: string;
+  to: string;
+  status: number;  // 200 rewrites, 3xx redirects
+  force: boolean;  // Apply even when a file exists at `from`
+}
+
+export interface HeaderRule {
+  line: number;
+  path: string;
+  headers: [string, string][];
+}
+
+export interface SiteRules {
+  redirects: RedirectRule[];
+  headers: HeaderRule[];
+}
+
+function splitLines(text: string): string[] {
+  return text.replace(/\r\n?/g, "\n").split("\n");
+}
+
+function isComment(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed === "" || trimmed.startsWith("#");
+}
+
+// Placeholders in a `from` path: ":name" segments and a trailing "*"
+function pathPlaceholders(from: string): string[] {
+  const names = from.split("/").filter(s => s.startsWith(":")).map(s => s.slice(1));
+  return from.endsWith("*") ? [...names, "splat"] : names;
+}
+
+/**
+ * Parse a `_redirects` file: `from to [status][!]` per line.
+ */
+export function parseRedirects(text: string): { rules: RedirectRule[]; errors: RuleError[] } {
+  const rules: RedirectRule[] = [];
+  const errors: RuleError[] = [];
+
+  splitLines(text).forEach((raw, i) => {
+    const line = i + 1;
+    if (isComment(raw)) return;
+
+    const fail = (message: string) => errors.push({ line, message });
+    const tokens = raw.trim().split(/\s+/);
+
+    if (tokens.length < 2) return fail("Expected: <from> <to> [status]");
+    if (tokens.length > 3 || tokens[1].includes("=")) {
+      return fail("Conditions and query parameter matching are not supported");
+    }
+
+    const [from, to, statusToken = "301"] = tokens;
+    if (!from.startsWith("/")) return fail(`Source must be a path starting with /: ${from}`);
+    if (!to.startsWith("/") && !/^https?:\/\//.test(to)) {
+      return fail(`Destination must be a path or http(s) URL: ${to}`);
+    }
+    if (/[{}"\\]/.test(from + to)) return fail("Braces, quotes and backslashes are not allowed");
+    if (from.slice(0, -1).includes("*")) return fail("* is only allowed at the end of the source");
+
+    const statusMatch = statusToken.match(/^(\d{3})(!?)$/);
+    const status = statusMatch ? parseInt(statusMatch[1]) : NaN;
+    if (!REDIRECT_STATUSES.includes(status)) {
+      return fail(`Unsupported status ${statusToken}. Use one of ${REDIRECT_STATUSES.join(", ")}`);
+    }
+    if (status === 200 && !to.startsWith("/")) return fail("Rewrites (200) must point to a path on the site");
+
+    const known = pathPlaceholders(from);
+    for (const [, name] of to.matchAll(/:([a-zA-Z_][a-zA-Z0-9_]*)/g)) {
+      if (!known.includes(name)) return fail(`Unknown placeholder :${name} in destination`);
+    }
+
+    rules.push({ line, from, to, status, force: statusMatch![2] === "!" });
+  });
+
+  if (rules.length > MAX_RULES) {
+    errors.push({ line: rules[MAX_RULES].line, message: `Too many rules (max ${MAX_RULES})` });
+  }
+
+  return { rules, errors };
+}
+
+/**
+ * Parse a `_headers` file: a path line followed by indented `Name: value` lines.
+ */
+export function parseHeaders(text: string): { rules: HeaderRule[]; errors: RuleError[] } {
+  const rules: HeaderRule[] = [];
+  const errors: RuleError[] = [];
+  let current: HeaderRule | null = null;
+
+  splitLines(text).forEach((raw, i) => {
+    const line = i + 1;
+    if (isComment(raw)) return;
+
+    const fail = (message: string) => errors.push({ line, message });
+
+    if (!/^\s/.test(raw)) {
+      const path = raw.trim();
+      if (!path.startsWith("/") || /\s|[{}"\\]/.test(path)) {
+        current = null;
+        return fail(`Expected a path starting with /: ${path}`);
+      }
+      current = { line, path, headers: [] };
+      rules.push(current);
+      return;
+    }
+
+    if (!current) return fail("Header without a path above it");
+
+    const match = raw.trim().match(/^([A-Za-z0-9-]+)\s*:\s*(.*)$/);
+    if (!match) return fail("Expected: Header-Name: value");
+    if (/[{}\\]/.test(match[2])) return fail("Braces and backslashes are not allowed in header values");
+
+    current.headers.push([match[1], match[2]]);
+  });
+
+  for (const rule of rules) {
+    if (rule.headers.length === 0) errors.push({ line: rule.line, message: `No headers for ${rule.path}` });
+  }
+  if (rules.length > MAX_RULES) {
+    errors.push({ line: rules[MAX_RULES].line, message: `Too many rules (max ${MAX_RULES})` });
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+  return { rules, errors };
+}
+
+/**
+ * Whether a site-relative path is one of the rule files in the site root.
+ */
+export function isRulesFile(relativePath: string): boolean {
+  return RULE_FILES.includes(normalize(relativePath));
+}
+
+/**
+ * Validate a rule file about to be written to a site root.
+ */
+export function validateRulesFile(relativePath: string, content: string): RuleError[] {
+  return normalize(relativePath) === REDIRECTS_FILE
+    ? parseRedirects(content).errors
+    : parseHeaders(content).errors;
+}
+
+/**
+ * Format rule errors as a single message, e.g. for ErrorSchema.error.
+ */
+export function formatRuleErrors(file: string, errors: RuleError[]): string {
+  return `Invalid ${file}: ${errors.map(e => `line ${e.line}: ${e.message}`).join("; ")}`;
+}
+
+/**
+ * Read and parse the rule files in a site root. Invalid files are skipped
+ * and reported in `errors`.
+ */
+export function loadSiteRules(root: string): SiteRules & { errors: string[] } {
+  const result: SiteRules & { errors: string[] } = { redirects: [], headers: [], errors: [] };
+
+  const redirectsPath = join(root, REDIRECTS_FILE);
+  if (existsSync(redirectsPath) && statSync(redirectsPath).isFile()) {
+    const { rules, errors } = parseRedirects(readFileSync(redirectsPath, "utf-8"));
+    if (errors.length) result.errors.push(formatRuleErrors(REDIRECTS_FILE, errors));
+    else result.redirects = rules;
+  }
+
+  const headersPath = join(root, HEADERS_FILE);
+  if (existsSync(headersPath) && statSync(headersPath).isFile()) {
+    const { rules, errors } = parseHeaders(readFileSync(headersPath, "utf-8"));
+    if (errors.length) result.errors.push(formatRuleErrors(HEADERS_FILE, errors));
+    else result.headers = rules;
+  }
+
+  return result;
+}
+
+// === Caddy compilation ===
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.+?^$()[\]|]/g, "\\$&");
+}
+
+function compileRedirect(rule: RedirectRule): string[] {
+  const matcher = `@redirect${rule.line}`;
+  const lines: string[] = [];
+  let to = rule.to;
+
+  if (pathPlaceholders(rule.from).length === 0) {
+    // Exact path, with or without a trailing slash
+    const base = rule.from.length > 1 ? rule.from.replace(/\/$/, "") : rule.from;
+    const paths = base === "/" ? "/" : `${base} ${base}/`;
+    lines.push(`${matcher} {`, `    path ${paths}`);
+  } else {
+    // Placeholders become regexp captures, referenced as {re.<name>.<n>}
+    const name = `redirect${rule.line}`;
+    const captures: string[] = [];
+    let base = rule.from;
+    let splat = "";
+    if (base.endsWith("/*")) {
+      base = base.slice(0, -2);
+      splat = "(?:/(.*))?";
+    } else if (base.endsWith("*")) {
+      base = base.slice(0, -1);
+      splat = "(.*)";
+    }
+
+    let pattern = base.split("/").map(segment => {
+      if (!segment.startsWith(":")) return escapeRegex(segment);
+      captures.push(segment.slice(1));
+      return "([^/]+)";
+    }).join("/");
+
+    if (splat) {
+      captures.push("splat");
+      pattern += splat;
+    }
+
+    to = to.replace(/:([a-zA-Z_][a-zA-Z0-9_]*)/g, (_, p) => `{re.${name}.${captures.indexOf(p) + 1}}`);
+    lines.push(`${matcher} {`, `    path_regexp ${name} ^${pattern}/?$`);
+  }
+
+  // Like Netlify, existing files win unless the rule is forced
+  if (!rule.force) lines.push("    not file");
+  lines.push("}");
+
+  lines.push(rule.status === 200 ? `rewrite ${matcher} ${to}` : `redir ${matcher} ${to} ${rule.status}`);
+  return lines;
+}
+
+/**
+ * Compile rules into Caddyfile lines for a site block (unindented).
+ * Redirects run in file order inside a `route`, so the first match wins
+ * for redirects like on Netlify.
+ */
+export function compileRules(rules: SiteRules): string[] {
+  const lines: string[] = [];
+
+  for (const rule of rules.headers) {
+    // Netlify-style :placeholders match a single segment
+    const path = rule.path.split("/").map(s => (s.startsWith(":") ? "*" : s)).join("/");
+    lines.push(`@headers${rule.line} path ${path}`);
+    lines.push(`header @headers${rule.line} {`);
+    for (const [name, value] of rule.headers) {
+      lines.push(`    ${name} "${value.replace(/"/g, '\\"')}"`);
+    }
+    lines.push("}");
+  }
+
+  if (rules.redirects.length > 0) {
+    lines.push("route {");
+    for (const rule of rules.redirects) {
+      lines.push(...compileRedirect(rule).map(l => `    ${l}`));
+    }
+    lines.push("}");
+  }
+
+  return lines;
+}
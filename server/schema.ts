@@ -1,27 +1,100 @@
 import { z } from "@hono/zod-openapi";
+import { SCOPES } from "./middleware/auth";
+import { WEBHOOK_EVENTS } from "./webhooks";
+import { QUOTA_STATES } from "./quota";
 
 // === Sites ===
+// Written into the Caddyfile as-is, so no whitespace, braces or quotes
+const UsernameSchema = z.string().min(1).max(64).regex(/^[^\s:{}"\\]+$/, "no whitespace, colons, braces, quotes or backslashes");
+
+const BasicAuthSchema = z.object({
+  user: UsernameSchema,
+  pass: z.string().min(8),
+});
+
 export const SiteSchema = z.object({
   id: z.number(),
   name: z.string().regex(/^[a-z0-9-]+$/, "lowercase alphanumeric and hyphens only"),
   path: z.string(),
-  auth_user: z.string().nullable(),
+  auth_user: z.string().nullable().describe("First basic auth user, null without basic auth (see auth_users)"),
+  auth_users: z.array(z.string()).describe("Basic auth users, sorted"),
+  owner_key_id: z.number().nullable().describe("API key that created the site"),
+  current_deployment_id: z.number().nullable(),
+  primary_domain: z.string().nullable().describe("Verified custom domain used for URLs"),
+  quota_bytes: z.number().describe("Storage quota"),
+  used_bytes: z.number().describe("Storage used by the live site"),
+  max_files: z.number().nullable().describe("Maximum number of files, null for no limit"),
+  quota_warn_at: z.array(z.number()).describe("Usage percentages that trigger warnings and alerts"),
+  quota_state: z.enum(QUOTA_STATES)
+    .describe("ok, warning (past a threshold), grace (over quota, uploads still allowed) or exceeded"),
+  grace_ends_at: z.string().nullable().describe("When uploads over the quota stop being accepted"),
+  spa_fallback: z.boolean().describe("Serve /index.html for paths that match no file"),
+  not_found_page: z.string().nullable().describe("Page served with 404 responses"),
+  error_page: z.string().nullable().describe("Page served with 5xx responses"),
+  clean_urls: z.boolean().describe("Serve /page from page.html and redirect page.html to /page"),
+  trailing_slash: z.enum(["auto", "always", "never"]),
+  ip_allow: z.array(z.string()).describe("If not empty, only these CIDR ranges can access the site"),
+  ip_deny: z.array(z.string()).describe("CIDR ranges that can't access the site"),
+  expires_at: z.string().nullable().describe("When the site is deleted (UTC), null to keep it"),
   created_at: z.string(),
 });
 
+// Longest time an ephemeral site can be set to live, or extended by at once
+export const MAX_SITE_EXPIRY_SECONDS = 365 * 24 * 60 * 60;
+
 export const CreateSiteSchema = z.object({
   name: z.string().min(1).max(63).regex(/^[a-z0-9-]+$/, "lowercase alphanumeric and hyphens only"),
-  auth: z.object({
-    user: z.string().min(1),
-    pass: z.string().min(8),
-  }).optional(),
+  auth: BasicAuthSchema.optional().describe("First basic auth user"),
+  expires_in: z.number().int().positive().max(MAX_SITE_EXPIRY_SECONDS).optional()
+    .describe("Seconds until the site is deleted (at most a year)"),
+  expires_at: z.string().optional().describe("ISO 8601 timestamp to delete the site at, within a year"),
+});
+
+// Exactly one field
+export const ExtendSiteSchema = z.object({
+  by: z.number().int().positive().max(MAX_SITE_EXPIRY_SECONDS).optional()
+    .describe("Seconds to add to the current expiry (at most a year)"),
+  expires_at: z.string().nullable().optional()
+    .describe("New ISO 8601 expiry within a year; null keeps the site for good"),
+});
+
+// Site-relative page path, e.g. "404.html" or "/errors/500.html"
+const PagePathSchema = z.string().min(1).max(255).regex(/^[^\s{}"\\]+$/, "no whitespace, braces, quotes or backslashes");
+
+// Omitted fields are left unchanged
+export const UpdateSiteSchema = z.object({
+  auth: BasicAuthSchema.nullable().optional()
+    .describe("Replaces every basic auth user with this one; null removes basic auth"),
+  spa_fallback: z.boolean().optional(),
+  not_found_page: PagePathSchema.nullable().optional(),
+  error_page: PagePathSchema.nullable().optional(),
+  clean_urls: z.boolean().optional(),
+  trailing_slash: z.enum(["auto", "always", "never"]).optional()
+    .describe("auto: directories get a slash, files don't; always/never: redirect to add or strip it"),
+  ip_allow: z.array(z.string()).nullable().optional()
+    .describe("CIDR ranges or addresses allowed to access the site (others get 403); null or [] allows all"),
+  ip_deny: z.array(z.string()).nullable().optional().describe("CIDR ranges or addresses that get 403"),
+});
+
+export const SiteUserSchema = z.object({
+  username: z.string(),
+  created_by_key_id: z.number().nullable(),
+  created_at: z.string(),
+  updated_at: z.string().describe("Last password change"),
+});
+
+export const CreateSiteUserSchema = BasicAuthSchema;
+
+// Omitted fields are left unchanged
+export const UpdateQuotaSchema = z.object({
+  quota_bytes: z.number().int().positive().nullable().optional().describe("null resets to the instance default"),
+  max_files: z.number().int().positive().nullable().optional().describe("null removes the limit"),
+  warn_at: z.array(z.number().int().min(1).max(99)).nullable().optional()
+    .describe("Warning thresholds in percent of the quota; [] disables, null resets to the instance default"),
 });
 
-export const UpdateSiteAuthSchema = z.object({
-  auth: z.object({
-    user: z.string().min(1),
-    pass: z.string().min(8),
-  }).nullable(),
+export const TransferSiteSchema = z.object({
+  owner_key_id: z.number().int().describe("API key that will own the site"),
 });
 
 // === Files ===
@@ -30,15 +103,238 @@ export const FileSchema = z.object({
   path: z.string(),
   size: z.number(),
   modified: z.string(),
+  sha256: z.string(),
 });
 
 export const UploadResultSchema = z.object({
   path: z.string(),
   size: z.number(),
   url: z.string(),
+  sha256: z.string().optional().describe("SHA-256 of the stored file"),
+  warnings: z.array(z.string()).optional().describe("Quota thresholds crossed, or the grace period in use"),
+});
+
+export const FileOperationSchema = z.object({
+  from: z.string().min(1).describe("Source file or directory"),
+  to: z.string().min(1).describe("Destination path"),
+  overwrite: z.boolean().optional().describe("Replace the destination if it exists"),
+});
+
+export const FileOperationResultSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  files: z.number().describe("Number of files moved or copied"),
+  size: z.number().describe("Total bytes moved or copied"),
+});
+
+// === Resumable uploads ===
+export const CreateUploadSchema = z.object({
+  path: z.string().min(1).describe("Target path of the file within the site"),
+  size: z.number().int().nonnegative().describe("Total size in bytes"),
+  overwrite: z.boolean().optional(),
+});
+
+export const UploadSessionSchema = z.object({
+  id: z.string(),
+  site: z.string(),
+  deployment_id: z.number().nullable(),
+  path: z.string(),
+  size: z.number(),
+  offset: z.number().describe("Bytes received so far"),
+  expires_at: z.string(),
+  created_at: z.string(),
+});
+
+// === Sync ===
+export const ManifestEntrySchema = z.object({
+  path: z.string().min(1),
+  sha256: z.string().regex(/^[a-f0-9]{64}$/, "lowercase hex SHA-256"),
+  size: z.number().int().nonnegative(),
+});
+
+export const SyncRequestSchema = z.object({
+  files: z.array(ManifestEntrySchema),
+});
+
+export const SyncResultSchema = z.object({
+  missing: z.array(z.string()).describe("In the manifest but not on the server"),
+  changed: z.array(z.string()).describe("On the server with a different hash or size"),
+  deleted: z.array(z.string()).describe("On the server but not in the manifest"),
+  unchanged: z.number(),
+});
+
+// === Deployments ===
+export const DeploymentSchema = z.object({
+  id: z.number(),
+  site: z.string(),
+  status: z.enum(["staging", "ready"]),
+  size_bytes: z.number(),
+  live: z.boolean(),
+  created_at: z.string(),
+  finalized_at: z.string().nullable(),
+});
+
+export const CreateDeploymentSchema = z.object({
+  copy_current: z.boolean().optional().describe("Start from a copy of the live content"),
+});
+
+// === Aliases ===
+export const AliasSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  site: z.string(),
+  deployment_id: z.number().nullable(),
+  path: z.string(),
+  url: z.string(),
+  expires_at: z.string().nullable(),
+  created_at: z.string(),
+});
+
+// Longest time an alias can be set to live
+export const MAX_ALIAS_EXPIRY_SECONDS = 365 * 24 * 60 * 60;
+
+export const CreateAliasSchema = z.object({
+  name: z.string().min(1).max(63).regex(/^[a-z0-9-]+$/, "lowercase alphanumeric and hyphens only")
+    .describe("Hostname label, e.g. pr-42--docs"),
+  deployment: z.number().int().optional().describe("Deployment to serve (default: the live site)"),
+  path: z.string().optional().describe("Directory to serve as the alias root"),
+  expires_in: z.number().int().positive().max(MAX_ALIAS_EXPIRY_SECONDS).optional()
+    .describe("Seconds until the alias is removed (at most a year)"),
+});
+
+// === Share links ===
+export const ShareLinkSchema = z.object({
+  id: z.number(),
+  site: z.string(),
+  path: z.string().describe("Path prefix the link grants access to"),
+  expires_at: z.string(),
+  max_uses: z.number().nullable(),
+  uses: z.number().describe("Times the link was opened"),
+  status: z.enum(["active", "expired", "used_up", "revoked"]),
+  created_by_key_id: z.number().nullable(),
+  revoked_at: z.string().nullable(),
+  last_used_at: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export const ShareLinkSecretSchema = ShareLinkSchema.extend({
+  url: z.string().describe("Link to hand out. Shown only once"),
+});
+
+export const CreateShareLinkSchema = z.object({
+  path: z.string().optional().describe("Path prefix to share (default: the whole site)"),
+  expires_in: z.number().int().positive().max(365 * 24 * 60 * 60).default(24 * 60 * 60)
+    .describe("Seconds until the link expires (default 24h)"),
+  max_uses: z.number().int().positive().optional().describe("Times the link can be opened (default: unlimited)"),
+});
+
+// === Custom domains ===
+export const DomainSchema = z.object({
+  id: z.number(),
+  domain: z.string(),
+  site: z.string(),
+  primary: z.boolean(),
+  verified: z.boolean(),
+  verified_at: z.string().nullable(),
+  created_at: z.string(),
+  verification: z.object({
+    txt_name: z.string().describe("DNS TXT record to create"),
+    txt_value: z.string(),
+    http_url: z.string().describe("Or serve the token at this URL"),
+    http_body: z.string(),
+  }),
+});
+
+export const CreateDomainSchema = z.object({
+  domain: z.string().max(253)
+    .regex(/^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/, "lowercase hostname, e.g. docs.example.com"),
+});
+
+// === API keys ===
+export const ApiKeySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  scopes: z.array(z.enum(SCOPES)),
+  sites: z.array(z.string()).nullable().describe("Allowed sites, null for all"),
+  expires_at: z.string().nullable(),
+  last_used_at: z.string().nullable(),
+  revoked_at: z.string().nullable(),
+  created_at: z.string(),
+});
+
+// Longest expiry an API key can be created with; keys that should not expire leave it out
+export const MAX_KEY_EXPIRY_SECONDS = 10 * 365 * 24 * 60 * 60;
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  scopes: z.array(z.enum(SCOPES)).min(1),
+  sites: z.array(z.string().regex(/^[a-z0-9-]+$/)).optional().describe("Limit the key to these sites"),
+  expires_in: z.number().int().positive().max(MAX_KEY_EXPIRY_SECONDS).optional()
+    .describe("Seconds until the key expires (at most ten years)"),
+});
+
+export const ApiKeySecretSchema = ApiKeySchema.extend({
+  key: z.string().describe("The API key. Shown only once"),
+});
+
+// === Webhooks ===
+const WebhookEventSchema = z.enum([...WEBHOOK_EVENTS, "*"]);
+
+export const WebhookSchema = z.object({
+  id: z.number(),
+  url: z.string(),
+  events: z.array(WebhookEventSchema),
+  sites: z.array(z.string()).nullable().describe("Sites to notify about, null for all"),
+  owner_key_id: z.number().nullable(),
+  created_at: z.string(),
+});
+
+export const CreateWebhookSchema = z.object({
+  url: z.string().url().regex(/^https?:\/\//, "Must be an http(s) URL"),
+  events: z.array(WebhookEventSchema).min(1).describe("Events to send, * for all"),
+  sites: z.array(z.string().regex(/^[a-z0-9-]+$/)).optional().describe("Only events for these sites"),
+  secret: z.string().min(16).max(200).optional().describe("Signing secret, generated if omitted"),
+});
+
+export const WebhookSecretSchema = WebhookSchema.extend({
+  secret: z.string().describe("HMAC-SHA256 signing secret. Shown only once"),
+});
+
+export const WebhookDeliverySchema = z.object({
+  id: z.number(),
+  event: z.string(),
+  site: z.string().nullable(),
+  payload: z.record(z.unknown()),
+  status: z.enum(["pending", "delivered", "failed"]),
+  attempts: z.number(),
+  next_attempt_at: z.string().nullable(),
+  response_status: z.number().nullable(),
+  error: z.string().nullable(),
+  created_at: z.string(),
+  delivered_at: z.string().nullable(),
+});
+
+// === Audit log ===
+export const AuditEntrySchema = z.object({
+  id: z.number(),
+  timestamp: z.string(),
+  actor_key_id: z.number().nullable(),
+  actor_name: z.string().nullable().describe("Name of the key, if it still exists"),
+  action: z.string().describe("e.g. site.create, file.upload, key.revoke"),
+  site: z.string().nullable(),
+  target: z.string().nullable().describe("File path, deployment ID, domain or key ID"),
+  request_id: z.string().nullable().describe("Matches X-Request-Id and the request log"),
+  ip: z.string().nullable(),
+  diff: z.record(z.unknown()).nullable().describe("Details; updates use { field: [before, after] }"),
+});
+
+export const AuditPageSchema = z.object({
+  entries: z.array(AuditEntrySchema),
+  next_cursor: z.number().nullable().describe("Pass as ?before= for older entries"),
 });
 
 // === Stats ===
+// Counts only the caller's sites unless it has the admin scope
 export const StatsSchema = z.object({
   total_sites: z.number(),
   total_files: z.number(),
@@ -57,9 +353,58 @@ export const SiteStatsSchema = z.object({
   })),
 });
 
+export const TrafficBucketSchema = z.object({
+  time: z.string().describe("Start of the hour or day, UTC"),
+  requests: z.number(),
+  visitors: z.number().describe("Distinct client IPs"),
+  bytes: z.number(),
+  status: z.object({
+    "2xx": z.number(),
+    "3xx": z.number(),
+    "4xx": z.number(),
+    "5xx": z.number(),
+  }),
+});
+
+const TopValueSchema = z.object({
+  value: z.string(),
+  count: z.number(),
+});
+
+export const TimeseriesSchema = z.object({
+  site: z.string(),
+  interval: z.enum(["hour", "day"]),
+  from: z.string(),
+  to: z.string(),
+  buckets: z.array(TrafficBucketSchema),
+  top_referrers: z.array(TopValueSchema).describe("Over the whole days in the range"),
+  top_user_agents: z.array(TopValueSchema),
+});
+
+// === Reconcile ===
+export const ReconcileRequestSchema = z.object({
+  fix: z.boolean().default(false).describe("Repair what was found, not just report it"),
+});
+
+export const ReconcileReportSchema = z.object({
+  sites: z.number().describe("Sites checked"),
+  drift: z.array(z.object({
+    site: z.string(),
+    recorded: z.number().describe("used_bytes in the database"),
+    actual: z.number().describe("Bytes on disk"),
+  })),
+  orphans: z.array(z.string()).describe("Directories under SF_SITES_ROOT with no site"),
+  missing: z.array(z.string()).describe("Sites whose directory doesn't exist"),
+  fixed: z.boolean().describe("Usage was corrected, orphans moved to .orphaned/ and missing directories recreated"),
+});
+
 // === Common ===
 export const ErrorSchema = z.object({
   error: z.string(),
+  details: z.array(z.object({
+    line: z.number(),
+    message: z.string(),
+  })).optional().describe("Line-numbered problems, e.g. in _redirects or _headers"),
 });
 
 export const SuccessSchema = z.object({
@@ -77,8 +422,41 @@ export const HealthSchema = z.object({
 // Types
 export type Site = z.infer<typeof SiteSchema>;
 export type CreateSite = z.infer<typeof CreateSiteSchema>;
-export type UpdateSiteAuth = z.infer<typeof UpdateSiteAuthSchema>;
+export type UpdateSite = z.infer<typeof UpdateSiteSchema>;
+export type UpdateQuota = z.infer<typeof UpdateQuotaSchema>;
+export type SiteUser = z.infer<typeof SiteUserSchema>;
+export type CreateSiteUser = z.infer<typeof CreateSiteUserSchema>;
+export type ExtendSite = z.infer<typeof ExtendSiteSchema>;
+export type TransferSite = z.infer<typeof TransferSiteSchema>;
 export type FileInfo = z.infer<typeof FileSchema>;
 export type UploadResult = z.infer<typeof UploadResultSchema>;
+export type FileOperation = z.infer<typeof FileOperationSchema>;
+export type FileOperationResult = z.infer<typeof FileOperationResultSchema>;
+export type CreateUpload = z.infer<typeof CreateUploadSchema>;
+export type UploadSession = z.infer<typeof UploadSessionSchema>;
+export type ManifestEntry = z.infer<typeof ManifestEntrySchema>;
+export type SyncRequest = z.infer<typeof SyncRequestSchema>;
+export type SyncResult = z.infer<typeof SyncResultSchema>;
+export type Deployment = z.infer<typeof DeploymentSchema>;
+export type CreateDeployment = z.infer<typeof CreateDeploymentSchema>;
+export type Alias = z.infer<typeof AliasSchema>;
+export type Domain = z.infer<typeof DomainSchema>;
+export type CreateDomain = z.infer<typeof CreateDomainSchema>;
+export type CreateAlias = z.infer<typeof CreateAliasSchema>;
+export type ShareLink = z.infer<typeof ShareLinkSchema>;
+export type ShareLinkSecret = z.infer<typeof ShareLinkSecretSchema>;
+export type CreateShareLink = z.infer<typeof CreateShareLinkSchema>;
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+export type CreateApiKey = z.infer<typeof CreateApiKeySchema>;
+export type ApiKeySecret = z.infer<typeof ApiKeySecretSchema>;
+export type Webhook = z.infer<typeof WebhookSchema>;
+export type CreateWebhook = z.infer<typeof CreateWebhookSchema>;
+export type WebhookSecret = z.infer<typeof WebhookSecretSchema>;
+export type WebhookDelivery = z.infer<typeof WebhookDeliverySchema>;
+export type AuditEntry = z.infer<typeof AuditEntrySchema>;
+export type AuditPage = z.infer<typeof AuditPageSchema>;
 export type Stats = z.infer<typeof StatsSchema>;
 export type SiteStats = z.infer<typeof SiteStatsSchema>;
+export type Timeseries = z.infer<typeof TimeseriesSchema>;
+export type ReconcileRequest = z.infer<typeof ReconcileRequestSchema>;
+export type ReconcileReport = z.infer<typeof ReconcileReportSchema>;
@@ -0,0 +1,116 @@
+/**
+ * Share links for sites behind basic auth.
+ *
+ * A link is a row in share_links (site, path prefix, expiry, optional use
+ * limit) plus a token that proves it was minted here:
+ *
+ *   <link id>.<base64url HMAC-SHA256 of id, site, prefix and expiry>
+ *
+ * Visitors open https://<site>/<path>?sf_token=<token>. Caddy skips basic auth
+ * for requests carrying a token (in the query, or the sf_share cookie it sets
+ * on the first visit so pages can load their assets) and asks
+ * GET /share-links/verify instead, via forward_auth.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { posix } from "path";
+
+export const TOKEN_PARAM = "sf_token";
+export const TOKEN_COOKIE = "sf_share";
+export const VERIFY_PATH = "/share-links/verify";
+
+/**
+ * The fields covered by a link's signature.
+ */
+export interface ShareLinkScope {
+  id: number;
+  site: string;
+  path: string;        // Path prefix, e.g. "/" or "/reports/q3"
+  expires_at: string;  // UTC "YYYY-MM-DD HH:MM:SS"
+}
+
+export interface PresentedToken {
+  token: string;
+  source: "query" | "cookie";  // Only opening the link itself counts as a use
+}
+
+export function generateShareSecret(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+function signature(secret: string, link: ShareLinkScope): string {
+  return createHmac("sha256", secret)
+    .update(`${link.id}\n${link.site}\n${link.path}\n${link.expires_at}`)
+    .digest("base64url");
+}
+
+export function signShareLink(secret: string, link: ShareLinkScope): string {
+  return `${link.id}.${signature(secret, link)}`;
+}
+
+/**
+ * The link ID a token claims to be for, null if it isn't a token at all.
+ * Check it with verifyShareToken() once the link is loaded.
+ */
+export function parseShareToken(token: string): number | null {
+  const match = /^(\d+)\.[A-Za-z0-9_-]+$/.exec(token);
+  return match ? parseInt(match[1]) : null;
+}
+
+export function verifyShareToken(secret: string, token: string, link: ShareLinkScope): boolean {
+  const expected = Buffer.from(signShareLink(secret, link));
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Normalize a path prefix to an absolute path, keeping a trailing slash.
+ *
+ * @returns null if the path leaves the site root
+ */
+export function normalizePrefix(path: string): string | null {
+  const absolute = `/${path.replace(/^\/+/, "")}`;
+  if (absolute.split("/").includes("..")) return null;
+  return posix.normalize(absolute);
+}
+
+/**
+ * Whether a request path (as sent, possibly percent-encoded) is within a prefix.
+ * "/docs" matches "/docs" and "/docs/a.html" but not "/docs-old".
+ */
+export function matchesPrefix(prefix: string, path: string): boolean {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(path);
+  } catch {
+    return false;
+  }
+  const normalized = posix.normalize(`/${decoded}`);
+  if (prefix === "/") return true;
+  if (prefix.endsWith("/")) return normalized.startsWith(prefix);
+  return normalized === prefix || normalized.startsWith(`${prefix}/`);
+}
+
+/**
+ * Find the share token of a request Caddy forwarded: the sf_token query
+ * parameter of the original URI, else the sf_share cookie.
+ */
+export function readShareToken(uri: string, cookieHeader: string | undefined): PresentedToken | null {
+  const query = new URL(uri, "http://localhost").searchParams.get(TOKEN_PARAM);
+  if (query) return { token: query, source: "query" };
+
+  for (const part of (cookieHeader ?? "").split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === TOKEN_COOKIE && value.join("=")) {
+      return { token: value.join("="), source: "cookie" };
+    }
+  }
+  return null;
+}
+
+/**
+ * The URL to hand out: the prefix on the site's host with the token attached.
+ */
+export function shareUrl(siteUrl: string, link: { path: string }, token: string): string {
+  return `${siteUrl}${link.path}?${TOKEN_PARAM}=${encodeURIComponent(token)}`;
+}
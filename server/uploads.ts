@@ -0,0 +1,77 @@
+/**
+ * Temp storage for resumable uploads.
+ *
+ * Each upload is a single file under SITES_ROOT/.uploads/<site>/<id> that
+ * chunks are written into at their offset. On finalize it is renamed into
+ * place, which is atomic because it stays on the same filesystem.
+ */
+
+import { closeSync, mkdirSync, openSync, renameSync, rmSync, writeSync } from "fs";
+import { basename, dirname, join } from "path";
+import { randomBytes } from "crypto";
+
+/**
+ * Directory holding the in-progress uploads of a site.
+ */
+export function getUploadsDir(sitePath: string): string {
+  return join(dirname(sitePath), ".uploads", basename(sitePath));
+}
+
+/**
+ * Temp file of a single upload.
+ */
+export function getUploadPath(sitePath: string, id: string): string {
+  return join(getUploadsDir(sitePath), id);
+}
+
+/**
+ * Generate an unguessable upload ID.
+ */
+export function generateUploadId(): string {
+  return randomBytes(16).toString("hex");
+}
+
+/**
+ * Create the empty temp file for a new upload.
+ */
+export function createUploadFile(sitePath: string, id: string): void {
+  mkdirSync(getUploadsDir(sitePath), { recursive: true });
+  closeSync(openSync(getUploadPath(sitePath, id), "w"));
+}
+
+/**
+ * Write a chunk at the given offset of an upload's temp file.
+ */
+export function writeChunk(sitePath: string, id: string, offset: number, chunk: Uint8Array): void {
+  const fd = openSync(getUploadPath(sitePath, id), "r+");
+  try {
+    let written = 0;
+    while (written < chunk.length) {
+      written += writeSync(fd, chunk, written, chunk.length - written, offset + written);
+    }
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Move a completed upload to its final location.
+ */
+export function completeUpload(sitePath: string, id: string, targetPath: string): void {
+  mkdirSync(dirname(targetPath), { recursive: true });
+  renameSync(getUploadPath(sitePath, id), targetPath);
+}
+
+/**
+ * Remove an upload's temp file.
+ */
+export function removeUpload(sitePath: string, id: string): void {
+  rmSync(getUploadPath(sitePath, id), { force: true });
+}
+
+/**
+ * Remove all in-progress uploads of a site.
+ */
+export function removeAllUploads(sitePath: string): void {
+  rmSync(getUploadsDir(sitePath), { recursive: true, force: true });
+}
@@ -0,0 +1,30 @@
+import { createHash } from "crypto";
+import { readFileSync, statSync } from "fs";
+
+// Cache keyed by absolute path; entries are reused while size and mtime match
+const cache = new Map<string, { size: number; mtimeMs: number; sha256: string }>();
+const MAX_CACHE_ENTRIES = 100_000;
+
+/**
+ * Returns the SHA-256 hex digest of a file.
+ * 
+ * Digests are cached per path and recomputed only when the file's size or
+ * modification time changes, so repeated listings of large sites stay cheap.
+ * 
+ * @param path - Path to an existing regular file
+ */
+export function hashFile(path: string): string {
+  const stat = statSync(path);
+  const cached = cache.get(path);
+
+  if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) {
+    return cached.sha256;
+  }
+
+  const sha256 = createHash("sha256").update(readFileSync(path)).digest("hex");
+
+  if (cache.size >= MAX_CACHE_ENTRIES) cache.clear();
+  cache.set(path, { size: stat.size, mtimeMs: stat.mtimeMs, sha256 });
+
+  return sha256;
+}
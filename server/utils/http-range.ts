@@ -0,0 +1,40 @@
+export interface ByteRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+/**
+ * Parses a Range header against a file of the given size.
+ * 
+ * Only single byte ranges are supported (`bytes=0-99`, `bytes=100-`,
+ * `bytes=-100`); anything else is ignored so the whole file is served,
+ * which RFC 9110 allows.
+ * 
+ * @param header - The Range header value
+ * @param size - Size of the file in bytes
+ * @returns The range, null to serve the whole file, or "unsatisfiable"
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange | null | "unsatisfiable" {
+  if (!header) return null;
+
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(match[2]);
+    if (suffix === 0) return "unsatisfiable";
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1]);
+    end = match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1;
+    if (match[2] && parseInt(match[2]) < start) return null;
+  }
+
+  if (start >= size) return "unsatisfiable";
+  return { start, end };
+}
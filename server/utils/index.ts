@@ -1 +1,5 @@
 export { safePath } from "./safe-path";
+export { hashFile } from "./file-hash";
+export { getBoundary, openMultipartFile } from "./multipart";
+export { writeStreamToFile, readStreamLimited, StreamLimitError } from "./stream-file";
+export { parseRange } from "./http-range";
@@ -0,0 +1,127 @@
+const CRLF = Buffer.from("\r\n");
+const HEADER_END = Buffer.from("\r\n\r\n");
+const MAX_HEADER_SIZE = 16 * 1024;
+
+export interface MultipartFile {
+  filename: string;
+  contentType: string | null;
+  stream: AsyncIterable<Uint8Array>;
+}
+
+/**
+ * Extracts the boundary from a multipart/form-data Content-Type header.
+ *
+ * @returns The boundary, or null if the header is not multipart/form-data
+ */
+export function getBoundary(contentType: string | undefined): string | null {
+  if (!contentType?.toLowerCase().startsWith("multipart/form-data")) return null;
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  return match ? match[1] || match[2] : null;
+}
+
+/**
+ * Finds a file field in a multipart/form-data body without buffering it.
+ *
+ * Reads the body until the headers of the first part named `field` with a
+ * filename, then returns the file's content as a stream of chunks. Other parts
+ * are skipped, and anything after the file is never read.
+ *
+ * @param body - The raw request body
+ * @param boundary - Boundary from the Content-Type header
+ * @param field - Form field name of the file
+ * @returns The file, or null if the body has no such field
+ */
+export async function openMultipartFile(
+  body: ReadableStream<Uint8Array>,
+  boundary: string,
+  field: string
+): Promise<MultipartFile | null> {
+  const reader = body.getReader();
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+
+  // A leading CRLF lets the first boundary match the same delimiter as the rest
+  let buffer = Buffer.from(CRLF);
+  let ended = false;
+
+  async function fill(): Promise<boolean> {
+    if (ended) return false;
+    const { value, done } = await reader.read();
+    if (done) {
+      ended = true;
+      return false;
+    }
+    buffer = Buffer.concat([buffer, value]);
+    return true;
+  }
+
+  // Drop everything up to and including the next delimiter
+  async function skipPastDelimiter(): Promise<boolean> {
+    while (true) {
+      const index = buffer.indexOf(delimiter);
+      if (index !== -1) {
+        buffer = buffer.subarray(index + delimiter.length);
+        return true;
+      }
+      // Keep a tail in case the delimiter is split across chunks
+      buffer = buffer.subarray(Math.max(0, buffer.length - delimiter.length + 1));
+      if (!(await fill())) return false;
+    }
+  }
+
+  async function* fileStream(): AsyncGenerator<Uint8Array> {
+    try {
+      while (true) {
+        const index = buffer.indexOf(delimiter);
+        if (index !== -1) {
+          if (index > 0) yield buffer.subarray(0, index);
+          return;
+        }
+
+        const safe = buffer.length - delimiter.length + 1;
+        if (safe > 0) {
+          yield buffer.subarray(0, safe);
+          buffer = buffer.subarray(safe);
+        }
+
+        if (!(await fill())) {
+          throw new Error("Unexpected end of multipart body");
+        }
+      }
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+  }
+
+  while (await skipPastDelimiter()) {
+    while (buffer.length < 2) {
+      if (!(await fill())) return null;
+    }
+
+    // "--" after the delimiter closes the body
+    if (buffer[0] === 0x2d && buffer[1] === 0x2d) break;
+
+    let headerEnd = buffer.indexOf(HEADER_END);
+    while (headerEnd === -1) {
+      if (buffer.length > MAX_HEADER_SIZE) {
+        throw new Error("Multipart part headers too large");
+      }
+      if (!(await fill())) return null;
+      headerEnd = buffer.indexOf(HEADER_END);
+    }
+
+    const headers = buffer.subarray(0, headerEnd).toString("utf8");
+    buffer = buffer.subarray(headerEnd + HEADER_END.length);
+
+    const disposition = headers.match(/^content-disposition:(.*)$/im)?.[1] || "";
+    const name = disposition.match(/(?:^|;)\s*name="([^"]*)"/i)?.[1];
+    const filename = disposition.match(/(?:^|;)\s*filename="([^"]*)"/i)?.[1];
+    const contentType = headers.match(/^content-type:\s*(.*)$/im)?.[1]?.trim() || null;
+
+    if (name === field && filename !== undefined) {
+      return { filename, contentType, stream: fileStream() };
+    }
+  }
+
+  reader.cancel().catch(() => {});
+  return null;
+}
@@ -0,0 +1,82 @@
+import { createHash } from "crypto";
+import { open } from "fs/promises";
+import { rmSync } from "fs";
+
+/**
+ * Raised when a stream grows past the allowed size.
+ * A partially written file has already been removed.
+ */
+export class StreamLimitError extends Error {
+  constructor(public limit: number) {
+    super(`Stream exceeded ${limit} bytes`);
+    this.name = "StreamLimitError";
+  }
+}
+
+/**
+ * Writes a stream to a file chunk by chunk, hashing it on the way.
+ * 
+ * Memory use stays flat regardless of the stream size. Writing stops as soon
+ * as more than `maxBytes` arrive, and on any error the file is removed.
+ * 
+ * @param stream - Source chunks
+ * @param path - Destination file (created or truncated)
+ * @param maxBytes - Largest accepted size
+ * @returns Total size and SHA-256 hex digest of the written data
+ */
+export async function writeStreamToFile(
+  stream: AsyncIterable<Uint8Array>,
+  path: string,
+  maxBytes: number
+): Promise<{ size: number; sha256: string }> {
+  const hash = createHash("sha256");
+  const handle = await open(path, "w");
+  let size = 0;
+
+  try {
+    for await (const chunk of stream) {
+      size += chunk.length;
+      if (size > maxBytes) {
+        throw new StreamLimitError(maxBytes);
+      }
+      hash.update(chunk);
+      await handle.write(chunk);
+    }
+  } catch (e) {
+    await handle.close();
+    rmSync(path, { force: true });
+    throw e;
+  }
+
+  await handle.close();
+  return { size, sha256: hash.digest("hex") };
+}
+
+/**
+ * Reads a stream into memory, for bodies that are needed whole but may not
+ * declare their size (chunked requests).
+ * 
+ * Reading stops as soon as more than `maxBytes` arrive, so memory use is
+ * bounded by the limit rather than by what the client sends.
+ * 
+ * @param stream - Source chunks
+ * @param maxBytes - Largest accepted size
+ * @returns The data read
+ */
+export async function readStreamLimited(
+  stream: AsyncIterable<Uint8Array>,
+  maxBytes: number
+): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for await (const chunk of stream) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new StreamLimitError(maxBytes);
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks, size);
+}
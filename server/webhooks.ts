@@ -0,0 +1,183 @@
+/**
+ * Outgoing webhooks.
+ *
+ * Events are queued as rows in webhook_deliveries and POSTed by a background
+ * worker, so they survive restarts. Failed deliveries are retried with
+ * exponential backoff. Each body is signed with the webhook's secret:
+ *
+ *   X-SF-Signature-256: sha256=<hex HMAC-SHA256 of the raw body>
+ *
+ * Any key with sites:write can add a webhook, so URLs that resolve to
+ * loopback, private or link-local addresses are refused (when created and
+ * again before each delivery) unless the operator allows their host.
+ */
+
+import { createHmac, randomBytes } from "crypto";
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+export const WEBHOOK_EVENTS = [
+  "site.created", "site.deleted", "site.auth_changed", "site.quota_alert", "upload.completed",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const MAX_ATTEMPTS = 8;
+const BASE_DELAY_SECONDS = 30;
+const TIMEOUT_MS = 10_000;
+
+/**
+ * The subscription fields of a webhook row (space-separated lists).
+ */
+export interface WebhookFilter {
+  events: string;        // Event names, or "*" for all
+  sites: string | null;  // Site names, null for all
+}
+
+export interface DeliveryRequest {
+  id: number;
+  event: string;
+  payload: string;  // JSON body, signed as-is
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  status: number | null;
+  error: string | null;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+export function signPayload(secret: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+/**
+ * Whether a webhook subscribes to an event on a site.
+ */
+export function matchesWebhook(hook: WebhookFilter, event: string, site: string): boolean {
+  const events = hook.events.split(/\s+/);
+  if (!events.includes("*") && !events.includes(event)) return false;
+  return hook.sites === null || hook.sites.split(/\s+/).includes(site);
+}
+
+function isPrivateIpv4(address: string): boolean {
+  const [a, b, c] = address.split(".").map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224        // "this" network, private, loopback, multicast
+    || (a === 100 && b >= 64 && b <= 127)                    // Carrier-grade NAT
+    || (a === 169 && b === 254)                              // Link-local
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 192 && b === 0 && c === 0)                     // IETF protocol assignments
+    || (a === 198 && (b === 18 || b === 19));                // Benchmarking
+}
+
+// The eight 16-bit words of an IPv6 address
+function ipv6Words(address: string): number[] {
+  let text = address.toLowerCase().split("%")[0];
+  const dotted = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number);
+    text = `${text.slice(0, dotted.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split("::");
+  const words = (part: string | undefined) => (part ? part.split(":").map(word => parseInt(word, 16)) : []);
+  if (tail === undefined) return words(head);
+  const start = words(head);
+  const end = words(tail);
+  return [...start, ...new Array(8 - start.length - end.length).fill(0), ...end];
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local, multicast or
+ * otherwise not a public internet host. IPv4 addresses embedded in IPv6
+ * (mapped, compatible, NAT64) are judged as IPv4.
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) return isPrivateIpv4(address);
+
+  const words = ipv6Words(address);
+  const embedded = () => `${words[6] >> 8}.${words[6] & 255}.${words[7] >> 8}.${words[7] & 255}`;
+  if (words.slice(0, 5).every(word => word === 0) && (words[5] === 0 || words[5] === 0xffff)) {
+    return (words[5] === 0 && words[6] === 0 && words[7] <= 1) || isPrivateIpv4(embedded());
+  }
+  if (words[0] === 0x64 && words[1] === 0xff9b && words.slice(2, 6).every(word => word === 0)) {
+    return isPrivateIpv4(embedded());
+  }
+  return (words[0] & 0xfe00) === 0xfc00   // Unique local
+    || (words[0] & 0xffc0) === 0xfe80     // Link-local
+    || (words[0] & 0xff00) === 0xff00;    // Multicast
+}
+
+async function resolveHost(host: string): Promise<string[]> {
+  return (await lookup(host, { all: true })).map(result => result.address);
+}
+
+/**
+ * Check that a webhook URL may be called: every address its host resolves to
+ * must be public, unless the host is in `allowedHosts`.
+ *
+ * @returns why the URL is refused, or null
+ */
+export async function checkWebhookTarget(
+  url: string,
+  allowedHosts: string[],
+  resolveFn: (host: string) => Promise<string[]> = resolveHost
+): Promise<string | null> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (allowedHosts.includes(host)) return null;
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : await resolveFn(host);
+  } catch {
+    return `Cannot resolve ${host}`;
+  }
+  if (addresses.length === 0) return `Cannot resolve ${host}`;
+  if (addresses.some(isPrivateAddress)) {
+    return `${host} is a loopback, private or link-local address. Webhooks must point to a public host`;
+  }
+  return null;
+}
+
+/**
+ * Seconds to wait before the next attempt: 30s, 1m, 2m, 4m... after each failure.
+ */
+export function retryDelay(attempts: number): number {
+  return BASE_DELAY_SECONDS * 2 ** Math.max(0, attempts - 1);
+}
+
+/**
+ * POST a delivery. Any 2xx response counts as delivered.
+ */
+export async function deliver(
+  url: string,
+  secret: string,
+  delivery: DeliveryRequest,
+  fetchFn: typeof fetch = fetch
+): Promise<DeliveryResult> {
+  try {
+    const res = await fetchFn(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "kleo-static-files-webhooks",
+        "X-SF-Event": delivery.event,
+        "X-SF-Delivery": String(delivery.id),
+        "X-SF-Signature-256": signPayload(secret, delivery.payload),
+      },
+      body: delivery.payload,
+      redirect: "manual",
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    await res.body?.cancel();
+
+    return res.ok
+      ? { ok: true, status: res.status, error: null }
+      : { ok: false, status: res.status, error: `HTTP ${res.status}` };
+  } catch (e: any) {
+    return { ok: false, status: null, error: e.message || String(e) };
+  }
+}